@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { GraphData } from '../lib/graph-types';
+import { algorithmIds, algorithmRegistry, checkWeights, getAlgorithmCode, resolveRunParams, runAlgorithm } from '../lib/algorithm-registry';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+    { id: 'C', label: 'C' },
+  ],
+  edges: [
+    { id: 'e1', source: 'A', target: 'B', weight: 1, isActive: false },
+    { id: 'e2', source: 'B', target: 'C', weight: 2, isActive: false },
+  ],
+};
+
+describe('Algorithm registry', () => {
+  it('declares pseudo-code and a description for every algorithm', () => {
+    for (const id of algorithmIds) {
+      expect(algorithmRegistry[id].id).toBe(id);
+      expect(algorithmRegistry[id].description).not.toBe('');
+      expect(getAlgorithmCode(id).length).toBeGreaterThan(1);
+    }
+  });
+
+  it('falls back to placeholder code for unknown algorithms', () => {
+    expect(getAlgorithmCode('nope')).toEqual(['Algorithm not implemented']);
+  });
+
+  it('defaults required inputs and leaves optional ones empty', () => {
+    expect(resolveRunParams(algorithmRegistry['dijkstra'], graph, {})).toEqual({ start: 'A', end: undefined });
+    expect(resolveRunParams(algorithmRegistry['ford-fulkerson'], graph, {})).toEqual({ source: 'A', sink: 'C' });
+    expect(resolveRunParams(algorithmRegistry['a-star'], graph, { start: 'B', end: 'missing' })).toEqual({ start: 'B', end: 'C', heuristic: 'scaled-euclidean' });
+  });
+
+  it('runs every registered algorithm to completion', async () => {
+    for (const id of algorithmIds) {
+      const execution = await runAlgorithm(id, graph);
+      expect(execution.steps.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('blocks negative weights where they break the algorithm and warns about the rest', () => {
+    const negative: GraphData = { ...graph, edges: [...graph.edges, { id: 'e3', source: 'C', target: 'A', weight: -0.5, isActive: false }] };
+    expect(checkWeights('dijkstra', graph, true)).toBeNull();
+    expect(checkWeights('dijkstra', negative, true)).toEqual({ severity: 'error', message: expect.stringMatching(/^1 edge has a negative weight\..*Bellman-Ford/) });
+    expect(checkWeights('a-star', negative, false)?.severity).toBe('error');
+    expect(checkWeights('ford-fulkerson', negative, true)?.severity).toBe('error');
+    expect(checkWeights('bellman-ford', negative, true)).toBeNull();
+    expect(checkWeights('bellman-ford', negative, false)?.severity).toBe('warning');
+    // A spanning tree copes with negative weights, so Prim and Kruskal only say so.
+    expect(checkWeights('prim', graph, false)).toBeNull();
+    expect(checkWeights('prim', negative, false)).toEqual({ severity: 'warning', message: expect.stringMatching(/^1 edge has a negative weight\. That is fine here/) });
+    expect(checkWeights('kruskal', negative, false)?.severity).toBe('warning');
+    expect(checkWeights('bfs', negative, true)).toBeNull();
+  });
+
+  it('runs on parallel edges and self-loops, taking the lightest parallel edge', async () => {
+    const multigraph: GraphData = {
+      ...graph,
+      edges: [
+        ...graph.edges,
+        { id: 'e3', source: 'A', target: 'B', weight: 0.5, isActive: false },
+        { id: 'e4', source: 'B', target: 'B', weight: 1, isActive: false },
+      ],
+    };
+    for (const id of algorithmIds) {
+      expect(algorithmRegistry[id].supports).toContain('multigraph');
+      const execution = await runAlgorithm(id, multigraph);
+      expect(execution.steps.length).toBeGreaterThan(0);
+    }
+    const dijkstra = await runAlgorithm('dijkstra', multigraph, { start: 'A', end: 'C' });
+    expect(dijkstra.result).toMatchObject({ totalDistance: 2.5 });
+    const kruskal = await runAlgorithm('kruskal', multigraph, {}, { isDirected: false });
+    expect(kruskal.result).toMatchObject({ mstWeight: 2.5 });
+  });
+});
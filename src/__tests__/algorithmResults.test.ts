@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { GraphData } from '../lib/graph-types';
+import { AlgorithmRunner, reconstructPath } from '../lib/algorithms';
+
+const weighted: GraphData = {
+  nodes: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+    { id: 'C', label: 'C' },
+    { id: 'D', label: 'D' },
+  ],
+  edges: [
+    { id: 'e1', source: 'A', target: 'B', weight: 1, isActive: false },
+    { id: 'e2', source: 'B', target: 'C', weight: 2, isActive: false },
+    { id: 'e3', source: 'A', target: 'C', weight: 5, isActive: false },
+    { id: 'e4', source: 'C', target: 'D', weight: 1, isActive: false },
+  ],
+};
+
+describe('Algorithm results', () => {
+  it('reconstructs paths from a predecessor tree', () => {
+    const predecessors = { A: null, B: 'A', C: 'B', D: null };
+    expect(reconstructPath(predecessors, 'A', 'C')).toEqual(['A', 'B', 'C']);
+    expect(reconstructPath(predecessors, 'A', 'D')).toEqual([]);
+    expect(reconstructPath({ A: 'B', B: 'A' }, 'C', 'A')).toEqual([]);
+  });
+
+  it('returns the visit order for traversals', async () => {
+    const { result } = await new AlgorithmRunner(weighted).runBFS('A');
+    expect(result).toEqual({ kind: 'traversal', start: 'A', visitOrder: ['A', 'B', 'C', 'D'] });
+  });
+
+  it.each(['runDijkstra', 'runBellmanFord'] as const)('%s returns distances, predecessors and the path', async (method) => {
+    const { result } = await new AlgorithmRunner(weighted)[method]('A', 'D');
+    expect(result).toMatchObject({
+      kind: 'shortest-path',
+      distances: { A: 0, B: 1, C: 3, D: 4 },
+      predecessors: { A: null, B: 'A', C: 'B', D: 'C' },
+      path: ['A', 'B', 'C', 'D'],
+      pathFound: true,
+      totalDistance: 4,
+    });
+  });
+
+  it('reports unreachable targets', async () => {
+    const { result } = await new AlgorithmRunner(weighted).runDijkstra('D', 'A');
+    expect(result).toMatchObject({ path: [], pathFound: false, totalDistance: undefined });
+  });
+
+  it('flags negative cycles', async () => {
+    const graph: GraphData = {
+      nodes: [{ id: 'A', label: 'A' }, { id: 'B', label: 'B' }],
+      edges: [
+        { id: 'e1', source: 'A', target: 'B', weight: -2, isActive: false },
+        { id: 'e2', source: 'B', target: 'A', weight: -1, isActive: false },
+      ],
+    };
+    const { result } = await new AlgorithmRunner(graph).runBellmanFord('A', 'B');
+    expect(result).toMatchObject({ kind: 'shortest-path', negativeCycle: true, pathFound: false });
+  });
+
+  it('returns the A* path and cost', async () => {
+    const { result } = await new AlgorithmRunner(weighted).runAStar('A', 'D');
+    expect(result).toMatchObject({ path: ['A', 'B', 'C', 'D'], totalDistance: 4 });
+  });
+
+  it('returns the all-pairs distance matrix', async () => {
+    const { result } = await new AlgorithmRunner(weighted).runFloydWarshall();
+    expect(result.kind === 'all-pairs' && result.distances.A.D).toBe(4);
+  });
+
+  it.each(['runPrims', 'runKruskals'] as const)('%s returns MST edges and total weight', async (method) => {
+    const { result } = await new AlgorithmRunner(weighted, { isDirected: false })[method]('A');
+    expect(result).toMatchObject({ kind: 'mst', mstWeight: 4, isSpanning: true });
+    expect(result.kind === 'mst' && [...result.edges].sort()).toEqual(['e1', 'e2', 'e4']);
+  });
+
+  it('returns the max flow with per-edge flows', async () => {
+    const { result } = await new AlgorithmRunner(weighted).runFordFulkerson('A', 'D');
+    expect(result).toEqual({
+      kind: 'max-flow',
+      source: 'A',
+      sink: 'D',
+      maxFlow: 1,
+      flows: { e1: 0, e2: 0, e3: 1, e4: 1 },
+      minCut: { sourceSide: ['A', 'B', 'C'], edges: ['e4'], capacity: 1 },
+    });
+  });
+});
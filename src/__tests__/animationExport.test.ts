@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { createGifEncoder, quantizeFrame } from '../lib/gif-encoder';
+import { stepScene } from '../lib/animation-export';
+import { AlgorithmStep, GraphData } from '../lib/graph-types';
+import { attachSnapshots } from '../lib/step-timeline';
+
+// Minimal GIF reader: enough to check the encoder's structure and LZW stream.
+const decodeGif = (bytes: Uint8Array) => {
+  let pos = 0;
+  const word = () => bytes[pos++] | (bytes[pos++] << 8);
+  const header = String.fromCharCode(...bytes.slice(0, 6));
+  pos = 6;
+  const width = word();
+  const height = word();
+  pos += 3;
+  const frames: { delay: number; pixels: number[][] }[] = [];
+  let loop: number | undefined;
+  let delay = 0;
+  while (bytes[pos] !== 0x3b) {
+    const introducer = bytes[pos++];
+    if (introducer === 0x21) {
+      const label = bytes[pos++];
+      if (label === 0xf9) {
+        pos += 2;
+        delay = word() * 10;
+        pos += 2;
+      } else {
+        const size = bytes[pos++];
+        const app = String.fromCharCode(...bytes.slice(pos, pos + size));
+        pos += size;
+        if (app === 'NETSCAPE2.0') {
+          pos += 2;
+          loop = word();
+        }
+        while (bytes[pos] !== 0) pos += bytes[pos] + 1;
+        pos++;
+      }
+    } else if (introducer === 0x2c) {
+      pos += 8;
+      const packed = bytes[pos++];
+      const tableSize = 1 << ((packed & 7) + 1);
+      const palette = Array.from({ length: tableSize }, (_, i) => [...bytes.slice(pos + i * 3, pos + i * 3 + 3)]);
+      pos += tableSize * 3;
+      const minCodeSize = bytes[pos++];
+      const data: number[] = [];
+      while (bytes[pos] !== 0) {
+        const size = bytes[pos++];
+        data.push(...bytes.slice(pos, pos + size));
+        pos += size;
+      }
+      pos++;
+      // LZW decode.
+      const clear = 1 << minCodeSize;
+      let codeSize = minCodeSize + 1;
+      let table: number[][] = [];
+      const reset = () => {
+        table = Array.from({ length: clear + 2 }, (_, i) => [i]);
+        codeSize = minCodeSize + 1;
+      };
+      reset();
+      const out: number[] = [];
+      let bit = 0;
+      let previous: number[] | null = null;
+      for (;;) {
+        let code = 0;
+        for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+        if (code === clear) {
+          reset();
+          previous = null;
+          continue;
+        }
+        if (code === clear + 1) break;
+        const entry = code < table.length ? table[code] : [...previous!, previous![0]];
+        out.push(...entry);
+        if (previous) table.push([...previous, entry[0]]);
+        if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+        previous = entry;
+      }
+      frames.push({ delay, pixels: out.map(i => palette[i]) });
+    }
+  }
+  return { header, width, height, loop, frames };
+};
+
+const rgba = (pixels: number[][]) => new Uint8Array(pixels.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+describe('GIF encoder', () => {
+  it('keeps every colour of a flat image exactly', () => {
+    const pixels = [[255, 0, 0], [0, 0, 255], [255, 0, 0], [255, 255, 255]];
+    const { palette, indices } = quantizeFrame(rgba(pixels));
+    expect(palette.length / 3).toBe(3);
+    expect([...indices].map(i => palette.slice(i * 3, i * 3 + 3))).toEqual(pixels);
+  });
+
+  it('maps colours beyond 256 to the nearest frequent colour', () => {
+    // Hundreds of scattered colours, with black and near-white dominating.
+    const pixels = [
+      ...Array.from({ length: 1000 }, () => [0, 0, 0]),
+      ...Array.from({ length: 1000 }, () => [248, 248, 248]),
+      ...Array.from({ length: 300 }, (_, i) => [i % 256, (i * 7) % 256, (i * 13) % 256]),
+    ];
+    const { palette, indices } = quantizeFrame(rgba(pixels));
+    expect(palette.length / 3).toBe(256);
+    expect(palette.slice(indices[0] * 3, indices[0] * 3 + 3)).toEqual([0, 0, 0]);
+    expect(palette.slice(indices[1000] * 3, indices[1000] * 3 + 3)).toEqual([248, 248, 248]);
+  });
+
+  it('writes a looping animation that decodes back to the frames', () => {
+    const width = 40;
+    const height = 30;
+    // Varied content so the LZW table fills and the code size grows.
+    const frame = (seed: number) => Array.from({ length: width * height }, (_, i) => {
+      const value = ((i * seed) ^ (i >> 3)) & 0xf;
+      return [value * 16, 255 - value * 16, (value * 48) & 0xff];
+    });
+    const encoder = createGifEncoder(width, height);
+    encoder.addFrame(rgba(frame(3)), 500);
+    encoder.addFrame(rgba(frame(7)), 1200);
+    const gif = decodeGif(encoder.finish());
+
+    expect(gif.header).toBe('GIF89a');
+    expect([gif.width, gif.height, gif.loop]).toEqual([width, height, 0]);
+    expect(gif.frames.map(f => f.delay)).toEqual([500, 1200]);
+    expect(gif.frames[0].pixels).toEqual(frame(3));
+    expect(gif.frames[1].pixels).toEqual(frame(7));
+  });
+
+  it('survives the LZW table reset on large, noisy frames', () => {
+    const width = 200;
+    const height = 150;
+    let state = 1;
+    const noise = Array.from({ length: width * height }, () => {
+      state = (state * 1103515245 + 12345) & 0x7fffffff;
+      return [(state >> 8) & 0xf0, (state >> 16) & 0xf0, 0];
+    });
+    const encoder = createGifEncoder(width, height);
+    encoder.addFrame(rgba(noise), 100);
+    expect(decodeGif(encoder.finish()).frames[0].pixels).toEqual(noise);
+  });
+
+  it('rejects frames of the wrong size', () => {
+    expect(() => createGifEncoder(2, 2).addFrame(new Uint8Array(4), 100)).toThrow(/2×2/);
+  });
+});
+
+describe('animation frames', () => {
+  const graphData: GraphData = {
+    nodes: [{ id: 'a', label: 'A', x: 100, y: 100 }, { id: 'b', label: 'B', x: 200, y: 100 }],
+    edges: [{ id: 'e', source: 'a', target: 'b', weight: 1, isActive: false }],
+  };
+  const steps: AlgorithmStep[] = attachSnapshots(graphData, [
+    { id: 0, description: 'Initialize', codeLine: 1, nodeUpdates: [], edgeUpdates: [] },
+    { id: 1, description: 'Visit A', codeLine: 2, nodeUpdates: [{ id: 'a', state: 'visited' }], edgeUpdates: [{ id: 'e', isActive: true }] },
+  ]);
+  const options = { from: 0, to: 1, frameDuration: 500, scale: 1, isDirected: false, includeDescription: true, codeLines: ['init()', '  visit(u)'] };
+
+  it('renders the state of each step without the live graph', () => {
+    const scene = stepScene(graphData, steps, 1, options);
+    expect(scene.shapes).toContainEqual(expect.objectContaining({ kind: 'circle', r: 25, fill: 'hsl(142 76% 60%)' }));
+    expect(graphData.nodes[0].state).toBeUndefined();
+  });
+
+  it('captions the description and the current code line', () => {
+    const scene = stepScene(graphData, steps, 1, options);
+    expect(scene.height).toBeGreaterThan(800);
+    const captions = scene.shapes.filter(s => s.kind === 'text' && s.align === 'left').map(s => s.kind === 'text' && s.text);
+    expect(captions).toEqual(['2/2  Visit A', '02  visit(u)']);
+    expect(stepScene(graphData, steps, 1, { ...options, includeDescription: false, codeLines: undefined }).height).toBe(800);
+  });
+
+  it('keeps every frame the same height when a step has no code line', () => {
+    const uneven: AlgorithmStep[] = attachSnapshots(graphData, [
+      { id: 0, description: 'Initialize', codeLine: 1, nodeUpdates: [], edgeUpdates: [] },
+      { id: 1, description: 'Done', nodeUpdates: [], edgeUpdates: [] },
+      { id: 2, description: 'Past the listing', codeLine: 9, nodeUpdates: [], edgeUpdates: [] },
+    ]);
+    const heights = [0, 1, 2].map(index => stepScene(graphData, uneven, index, { ...options, to: 2 }).height);
+    expect(new Set(heights).size).toBe(1);
+    expect(heights[0]).toBeGreaterThan(800);
+  });
+});
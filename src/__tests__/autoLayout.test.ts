@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { LayoutError, LayoutKind, MIN_LAYOUT_SPACING, computeLayout, interpolatePositions, layoutLabels, positionNodes } from '../lib/auto-layout';
+import { CANVAS_SIZE } from '../lib/graph-layout';
+import { GraphData } from '../lib/graph-types';
+
+const graphOf = (labels: string, edges: string[]): GraphData => ({
+  nodes: labels.split('').map(label => ({ id: label.toLowerCase(), label, x: 0, y: 0 })),
+  edges: edges.map((pair, i) => ({ id: `e${i}`, source: pair[0], target: pair[1], isActive: false })),
+});
+
+type Positions = Map<string, { x: number; y: number }>;
+
+const coords = (positions: Positions) => Object.fromEntries([...positions].map(([id, p]) => [id, [p.x, p.y]]));
+
+// Pairs of edges whose straight lines cross, not counting pairs that share an endpoint.
+const crossings = (graph: GraphData, positions: Positions) => {
+  const turn = (a, b, c) => Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+  let count = 0;
+  graph.edges.forEach((e, i) => graph.edges.slice(i + 1).forEach(f => {
+    if ([e.source, e.target].some(id => id === f.source || id === f.target)) return;
+    const [p, q, r, s] = [e.source, e.target, f.source, f.target].map(id => positions.get(id));
+    if (turn(p, q, r) * turn(p, q, s) < 0 && turn(r, s, p) * turn(r, s, q) < 0) count++;
+  }));
+  return count;
+};
+
+const tree = graphOf('ABCDEF', ['ab', 'ac', 'bd', 'be', 'cf']);
+
+describe('automatic layouts', () => {
+  it('draws a tidy tree with each parent centred over its children', () => {
+    expect(coords(computeLayout('tree', tree, { isDirected: true }))).toEqual({
+      a: [600, 280],
+      b: [540, 400], c: [720, 400],
+      d: [480, 520], e: [600, 520], f: [720, 520],
+    });
+  });
+
+  it('roots trees at the requested node', () => {
+    const positions = computeLayout('tree', tree, { isDirected: false, root: 'f' });
+    expect(positions.get('f').y).toBeLessThan(positions.get('c').y);
+    expect(positions.get('c').y).toBeLessThan(positions.get('a').y);
+  });
+
+  it('puts the radial root in the middle and each depth on its own ring', () => {
+    const positions = computeLayout('radial', tree, { isDirected: true });
+    const centre = positions.get('a');
+    const distance = (id: string) => Math.round(Math.hypot(positions.get(id).x - centre.x, positions.get(id).y - centre.y));
+    expect(distance('b')).toBe(distance('c'));
+    expect(distance('d')).toBe(distance('f'));
+    expect(distance('d')).toBeGreaterThan(distance('b'));
+  });
+
+  it('layers a DAG top to bottom and untangles crossings', () => {
+    // In node order the lower layers would cross four times; reordering them removes every crossing.
+    const dag = graphOf('ABCDEFGHI', ['af', 'bd', 'ce', 'fg', 'dh', 'ei']);
+    const positions = computeLayout('layered', dag, { isDirected: true });
+    for (const edge of dag.edges) expect(positions.get(edge.source).y).toBeLessThan(positions.get(edge.target).y);
+    expect(crossings(dag, positions)).toBe(0);
+  });
+
+  it('breaks cycles instead of failing on them', () => {
+    const cycle = graphOf('ABC', ['ab', 'bc', 'ca']);
+    const ys = [...computeLayout('layered', cycle, { isDirected: true }).values()].map(p => p.y);
+    expect(new Set(ys).size).toBe(3);
+  });
+
+  it('is deterministic for a seed and varies between seeds', () => {
+    const graph = graphOf('ABCDEFGH', ['ab', 'bc', 'cd', 'da', 'ef', 'fg', 'gh', 'he', 'ae']);
+    const first = computeLayout('force', graph, { isDirected: false, seed: 7 });
+    expect(coords(computeLayout('force', graph, { isDirected: false, seed: 7 }))).toEqual(coords(first));
+    expect(coords(computeLayout('force', graph, { isDirected: false, seed: 8 }))).not.toEqual(coords(first));
+    // Linked nodes end up closer together than the average pair.
+    const distance = (a: string, b: string) => Math.hypot(first.get(a).x - first.get(b).x, first.get(a).y - first.get(b).y);
+    const ids = graph.nodes.map(n => n.id);
+    const pairs = ids.flatMap((a, i) => ids.slice(i + 1).map(b => distance(a, b)));
+    const linked = graph.edges.map(e => distance(e.source, e.target));
+    expect(Math.max(...linked)).toBeLessThan(pairs.reduce((sum, d) => sum + d, 0) / pairs.length * 1.2);
+  });
+
+  it('splits a bipartite graph into two columns and refuses odd cycles', () => {
+    const positions = computeLayout('bipartite', graphOf('ABCDE', ['ad', 'be', 'ce', 'cd']), { isDirected: false });
+    const left = ['a', 'b', 'c'].map(id => positions.get(id).x);
+    const right = ['d', 'e'].map(id => positions.get(id).x);
+    expect(new Set(left).size).toBe(1);
+    expect(new Set(right).size).toBe(1);
+    expect(left[0]).toBeLessThan(right[0]);
+    expect(() => computeLayout('bipartite', graphOf('ABC', ['ab', 'bc', 'ca']), { isDirected: false })).toThrow(LayoutError);
+    expect(() => computeLayout('bipartite', graphOf('ABC', ['ab', 'bc', 'ca']), { isDirected: false })).toThrow(/not bipartite: . and . are joined/);
+  });
+
+  it('lays out a grid and a circle in node order', () => {
+    const graph = graphOf('ABCDE', []);
+    const grid = computeLayout('grid', graph, { isDirected: false });
+    expect(coords(grid)).toEqual({ a: [480, 340], b: [600, 340], c: [720, 340], d: [480, 460], e: [600, 460] });
+    const circle = computeLayout('circular', graph, { isDirected: false });
+    expect(circle.get('a').y).toBeLessThan(circle.get('b').y);
+    expect(circle.get('a').x).toBe(CANVAS_SIZE.width / 2);
+  });
+
+  it('keeps every layout of a small graph on the page', () => {
+    const labels = Array.from({ length: 12 }, (_, i) => `n${i}`);
+    const small: GraphData = {
+      nodes: labels.map(id => ({ id, label: id, x: 0, y: 0 })),
+      edges: labels.slice(1).map((id, i) => ({ id: `e${i}`, source: labels[Math.floor(i / 2)], target: id, isActive: false })),
+    };
+    for (const kind of Object.keys(layoutLabels) as LayoutKind[]) {
+      for (const { x, y } of computeLayout(kind, small, { isDirected: true }).values()) {
+        expect(x).toBeGreaterThanOrEqual(0);
+        expect(x).toBeLessThanOrEqual(CANVAS_SIZE.width);
+        expect(y).toBeGreaterThanOrEqual(0);
+        expect(y).toBeLessThanOrEqual(CANVAS_SIZE.height);
+      }
+    }
+  });
+
+  it('lets a large graph spill past the page rather than packing its nodes together', () => {
+    const labels = Array.from({ length: 60 }, (_, i) => `n${i}`);
+    const big: GraphData = {
+      nodes: labels.map(id => ({ id, label: id, x: 0, y: 0 })),
+      edges: labels.slice(1).map((id, i) => ({ id: `e${i}`, source: labels[Math.floor(i / 2)], target: id, isActive: false })),
+    };
+    // Force-directed nodes can settle closer than the minimum by themselves; that layout is checked
+    // for centring only.
+    for (const kind of Object.keys(layoutLabels) as LayoutKind[]) {
+      const points = [...computeLayout(kind, big, { isDirected: true }).values()];
+      const closest = Math.min(...points.flatMap((p, i) => points.slice(i + 1).map(q => Math.hypot(p.x - q.x, p.y - q.y))));
+      // Positions are rounded to whole pixels.
+      if (kind !== 'force') expect(closest, kind).toBeGreaterThanOrEqual(MIN_LAYOUT_SPACING - 1);
+      const xs = points.map(p => p.x);
+      expect(Math.abs((Math.min(...xs) + Math.max(...xs)) / 2 - CANVAS_SIZE.width / 2), kind).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('spaces thirty nodes in one layer at least the minimum apart', () => {
+    const labels = Array.from({ length: 30 }, (_, i) => `n${i}`);
+    const star: GraphData = {
+      nodes: [{ id: 'root', label: 'root', x: 0, y: 0 }, ...labels.map(id => ({ id, label: id, x: 0, y: 0 }))],
+      edges: labels.map((id, i) => ({ id: `e${i}`, source: 'root', target: id, isActive: false })),
+    };
+    const layered = computeLayout('layered', star, { isDirected: true });
+    const xs = labels.map(id => layered.get(id).x).sort((a, b) => a - b);
+    expect(Math.min(...xs.slice(1).map((x, i) => x - xs[i]))).toBeGreaterThanOrEqual(MIN_LAYOUT_SPACING - 1);
+  });
+
+  it('animates from the old positions to the new ones', () => {
+    const from = new Map([['a', { x: 0, y: 0 }]]);
+    const to = new Map([['a', { x: 100, y: 40 }], ['b', { x: 10, y: 10 }]]);
+    expect(interpolatePositions(from, to, 0).get('a')).toEqual({ x: 0, y: 0 });
+    expect(interpolatePositions(from, to, 0.5).get('a')).toEqual({ x: 50, y: 20 });
+    expect(interpolatePositions(from, to, 1).get('a')).toEqual({ x: 100, y: 40 });
+    expect(interpolatePositions(from, to, 0.3).get('b')).toEqual({ x: 10, y: 10 });
+    expect(positionNodes(tree.nodes, to)[0]).toEqual({ id: 'a', label: 'A', x: 100, y: 40 });
+  });
+});
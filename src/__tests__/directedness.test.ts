@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { GraphData } from '../lib/graph-types';
+import { graphTemplates } from '../lib/graph-templates';
+import { algorithmIds, runAlgorithm } from '../lib/algorithm-registry';
+import { GraphAdjacency } from '../lib/graph-adjacency';
+
+// Reference implementations kept deliberately naive so they can be trusted at a glance.
+function reachableFrom(graph: GraphData, start: string, isDirected: boolean): Set<string> {
+  const seen = new Set([start]);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const e of graph.edges) {
+      const pairs = isDirected ? [[e.source, e.target]] : [[e.source, e.target], [e.target, e.source]];
+      for (const [u, v] of pairs) {
+        if (seen.has(u) && !seen.has(v)) {
+          seen.add(v);
+          changed = true;
+        }
+      }
+    }
+  }
+  return seen;
+}
+
+function distancesFrom(graph: GraphData, start: string, isDirected: boolean): Record<string, number> {
+  const dist: Record<string, number> = Object.fromEntries(graph.nodes.map(n => [n.id, Infinity]));
+  dist[start] = 0;
+  for (let i = 0; i < graph.nodes.length; i++) {
+    for (const e of graph.edges) {
+      const w = e.weight || 1;
+      if (dist[e.source] + w < dist[e.target]) dist[e.target] = dist[e.source] + w;
+      if (!isDirected && dist[e.target] + w < dist[e.source]) dist[e.source] = dist[e.target] + w;
+    }
+  }
+  return dist;
+}
+
+function componentCount(graph: GraphData): number {
+  const remaining = new Set(graph.nodes.map(n => n.id));
+  let count = 0;
+  for (const node of graph.nodes) {
+    if (!remaining.has(node.id)) continue;
+    count++;
+    reachableFrom(graph, node.id, false).forEach(id => remaining.delete(id));
+  }
+  return count;
+}
+
+const directions = [true, false];
+
+describe('GraphAdjacency', () => {
+  const graph: GraphData = {
+    nodes: [{ id: 'a', label: 'A' }, { id: 'b', label: 'B' }],
+    edges: [{ id: 'e1', source: 'a', target: 'b', weight: 4, isActive: false }],
+  };
+
+  it('only follows edges forward when directed', () => {
+    const adjacency = new GraphAdjacency(graph, true);
+    expect(adjacency.neighbors('a')).toEqual(['b']);
+    expect(adjacency.neighbors('b')).toEqual([]);
+    expect(adjacency.arcs()).toHaveLength(1);
+  });
+
+  it('follows edges both ways when undirected', () => {
+    const adjacency = new GraphAdjacency(graph, false);
+    expect(adjacency.neighbors('b')).toEqual(['a']);
+    expect(adjacency.arcs().map(arc => `${arc.from}${arc.to}${arc.weight}`)).toEqual(['ab4', 'ba4']);
+  });
+});
+
+describe.each(graphTemplates.flatMap(t => directions.map(isDirected => [t.name, isDirected, t.data] as const)))(
+  'Template "%s" (directed: %s)',
+  (_name, isDirected, graph) => {
+    const start = graph.nodes[0].id;
+
+    it.each(algorithmIds)('%s runs to completion', async (id) => {
+      const execution = await runAlgorithm(id, graph, {}, { isDirected });
+      expect(execution.steps.length).toBeGreaterThan(0);
+    });
+
+    it.each(['bfs', 'dfs'] as const)('%s visits exactly the reachable nodes', async (id) => {
+      const execution = await runAlgorithm(id, graph, { start }, { isDirected });
+      const visited = new Set(
+        execution.steps.flatMap(s => s.nodeUpdates).filter(u => u.state === 'visited').map(u => u.id)
+      );
+      expect(visited).toEqual(reachableFrom(graph, start, isDirected));
+    });
+
+    it.each(['dijkstra', 'bellman-ford'] as const)('%s matches reference distances', async (id) => {
+      const execution = await runAlgorithm(id, graph, { start }, { isDirected });
+      const matrix = execution.steps[execution.steps.length - 1].matrix;
+      expect(matrix).toEqual(distancesFrom(graph, start, isDirected));
+    });
+
+    it('floyd-warshall matches reference distances for every source', async () => {
+      const execution = await runAlgorithm('floyd-warshall', graph, {}, { isDirected });
+      const matrix = execution.steps[execution.steps.length - 1].matrix;
+      for (const node of graph.nodes) {
+        expect(matrix[node.id]).toEqual(distancesFrom(graph, node.id, isDirected));
+      }
+    });
+
+    it('a-star reaches the goal exactly when it is reachable', async () => {
+      const end = graph.nodes[graph.nodes.length - 1].id;
+      const execution = await runAlgorithm('a-star', graph, { start, end }, { isDirected });
+      const found = execution.steps.some(s => /Path found/.test(s.description));
+      expect(found).toBe(reachableFrom(graph, start, isDirected).has(end));
+    });
+
+    it.each(['prim', 'kruskal'] as const)('%s spans every component regardless of direction', async (id) => {
+      const execution = await runAlgorithm(id, graph, { start }, { isDirected });
+      const treeEdges = execution.steps.flatMap(s => s.edgeUpdates).filter(u => u.inTree);
+      const expected = id === 'kruskal'
+        ? graph.nodes.length - componentCount(graph)
+        : reachableFrom(graph, start, false).size - 1;
+      expect(treeEdges).toHaveLength(expected);
+    });
+  }
+);
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { parseDot, toDot } from '../lib/dot';
+import { GraphImportError } from '../lib/graph-import';
+import { GraphData } from '../lib/graph-types';
+
+describe('DOT', () => {
+  it('sets isDirected from graph or digraph', () => {
+    expect(parseDot('digraph { a -> b }').isDirected).toBe(true);
+    expect(parseDot('strict graph G { a -- b }').isDirected).toBe(false);
+  });
+
+  it('reads weights from weight or numeric label attributes', () => {
+    const { graphData } = parseDot(`digraph {
+      a -> b [weight=3];
+      b -> c [label="2.5"];
+      c -> a [label="slow", weight=4];
+      a -> c [label=road];
+    }`);
+    expect(graphData.edges.map(e => e.weight)).toEqual([3, 2.5, 4, undefined]);
+    expect(graphData.edges[2].attributes).toEqual({ label: 'slow' });
+    expect(graphData.edges[3].attributes).toEqual({ label: 'road' });
+  });
+
+  it('flattens subgraphs, default attributes and edge chains', () => {
+    const { graphData, warnings } = parseDot(`
+      /* comment */ digraph "Flow" {
+        node [shape=box];
+        a [label="Start"]; // line comment
+        a -> { b c } -> d [color=red];
+        subgraph cluster_x { edge [style=dotted]; d -> e }
+        rankdir = LR
+      }`);
+    expect(warnings).toEqual([]);
+    expect(graphData.nodes.map(n => [n.id, n.label])).toEqual([['a', 'Start'], ['b', 'b'], ['c', 'c'], ['d', 'd'], ['e', 'e']]);
+    expect(graphData.nodes[0].attributes).toEqual({ shape: 'box' });
+    expect(graphData.edges.map(e => `${e.source}${e.target}`)).toEqual(['ab', 'ac', 'bd', 'cd', 'de']);
+    expect(graphData.edges[0].attributes).toEqual({ color: 'red' });
+    expect(graphData.edges[4].attributes).toEqual({ style: 'dotted' });
+    expect(graphData.attributes).toEqual({ rankdir: 'LR' });
+  });
+
+  it('converts pos attributes using the bounding box and lays out the rest', () => {
+    const positioned = parseDot('graph { graph [bb="0,0,200,100"]; a [pos="10,90"]; b [pos="190,10!"]; a -- b }').graphData;
+    expect(positioned.nodes.map(n => [n.x, n.y])).toEqual([[10, 10], [190, 90]]);
+    expect(positioned.attributes).toBeUndefined();
+
+    const unpositioned = parseDot('graph { a -- b -- c }').graphData;
+    expect(unpositioned.nodes.every(n => Number.isFinite(n.x) && Number.isFinite(n.y))).toBe(true);
+  });
+
+  it('merges repeated edges in strict graphs only', () => {
+    expect(parseDot('strict graph { a -- b; b -- a }').graphData.edges).toHaveLength(1);
+    expect(parseDot('graph { a -- b; b -- a }').graphData.edges).toHaveLength(2);
+  });
+
+  it('reports ports and errors', () => {
+    expect(parseDot('digraph { a:n -> b:s:w }').warnings).toEqual(['Ports were ignored; edges connect to the nodes themselves.']);
+    expect(() => parseDot('graph { a -> b }')).toThrow(/"->" cannot be used in a graph/);
+    expect(() => parseDot('digraph { a -> }')).toThrow(/Line 1: expected an identifier/);
+    expect(() => parseDot('<graphml/>')).toThrow(GraphImportError);
+  });
+
+  it('exports algorithm state as colours and round-trips the graph', () => {
+    const graphData: GraphData = {
+      nodes: [
+        { id: 'A', label: 'Start "A"', x: 100, y: 100, state: 'visited' },
+        { id: 'B', label: 'B', x: 300, y: 200, state: 'current' },
+        { id: 'C', label: 'C', x: 200, y: 300 },
+      ],
+      edges: [
+        { id: 'e0', source: 'A', target: 'B', weight: 4, isActive: true, inTree: true },
+        { id: 'e1', source: 'B', target: 'C', weight: -1.5, isActive: false },
+      ],
+    };
+    const dot = toDot(graphData, false, 'My graph');
+    expect(dot).toContain('graph "My graph" {');
+    expect(dot).toContain('"A" [label="Start \\"A\\"", pos="100,300!", fillcolor="#4be784"];');
+    expect(dot).toContain('"A" -- "B" [label="4", weight="4", color="#4be784", penwidth="3"];');
+    expect(dot).toContain('"B" -- "C" [label="-1.5"];');
+
+    const imported = parseDot(dot);
+    expect(imported.isDirected).toBe(false);
+    expect(imported.graphData.nodes.map(n => [n.id, n.label, n.x, n.y])).toEqual([
+      ['A', 'Start "A"', 100, 100],
+      ['B', 'B', 300, 200],
+      ['C', 'C', 200, 300],
+    ]);
+    expect(imported.graphData.edges.map(e => e.weight)).toEqual([4, -1.5]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { GraphData } from '../lib/graph-types';
+import { EdgeIndex, resolveEdgeUpdates } from '../lib/edge-index';
+import { AlgorithmRunner } from '../lib/algorithms';
+import { graphTemplates } from '../lib/graph-templates';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+    { id: 'C', label: 'C' },
+  ],
+  edges: [
+    { id: 'e1', source: 'A', target: 'B', weight: 5, isActive: false },
+    { id: 'e2', source: 'A', target: 'B', weight: 2, isActive: false },
+    { id: 'e3', source: 'B', target: 'C', weight: 1, isActive: false },
+  ],
+};
+
+describe('EdgeIndex', () => {
+  it('respects direction', () => {
+    const index = new EdgeIndex(graph.edges, true);
+    expect(index.resolve('A', 'B')?.id).toBe('e2');
+    expect(index.resolve('B', 'A')).toBeUndefined();
+  });
+
+  it('matches reversed pairs on undirected graphs', () => {
+    const index = new EdgeIndex(graph.edges, false);
+    expect(index.resolve('C', 'B')?.id).toBe('e3');
+  });
+
+  it('lists parallel edges and resolves to the lightest', () => {
+    const index = new EdgeIndex(graph.edges, true);
+    expect(index.between('A', 'B').map(e => e.id)).toEqual(['e1', 'e2']);
+    expect(index.resolve('A', 'B')?.id).toBe('e2');
+  });
+
+  it('reports updates it cannot resolve instead of dropping them', () => {
+    const index = new EdgeIndex(graph.edges, true);
+    const { resolved, unresolved } = resolveEdgeUpdates([
+      { source: 'C', target: 'B', isActive: true },
+      { id: 'ghost', isActive: true },
+      { source: 'B', target: 'C', isActive: true },
+    ], index);
+    expect(resolved).toEqual([{ id: 'e3', isActive: true }]);
+    expect(unresolved).toHaveLength(2);
+  });
+});
+
+describe('Traversal edge highlighting', () => {
+  it.each(['runBFS', 'runDFS'] as const)('%s highlights real edges on every template', async (method) => {
+    for (const template of graphTemplates) {
+      const isDirected = Boolean(template.isDirected);
+      const execution = await new AlgorithmRunner(template.data, { isDirected })[method](template.data.nodes[0].id);
+      const ids = new Set(template.data.edges.map(e => e.id));
+      const updates = execution.steps.flatMap(s => s.edgeUpdates);
+      expect(updates.length).toBeGreaterThan(0);
+      expect(updates.every(u => ids.has(u.id))).toBe(true);
+      expect(execution.warnings).toEqual([]);
+    }
+  });
+
+  it('highlights the A* path on an undirected graph traversed against edge direction', async () => {
+    const execution = await new AlgorithmRunner(graph, { isDirected: false }).runAStar('C', 'A');
+    const trace = execution.steps.filter(s => s.description.startsWith('Trace path'));
+    expect(trace.flatMap(s => s.edgeUpdates).map(u => u.id)).toEqual(['e3', 'e2']);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { PARALLEL_SPACING, arrowTip, distanceToRoute, routeEdges } from '../lib/edge-routes';
+import { findEdgeAt } from '../lib/graph-edit';
+import { NODE_RADIUS } from '../lib/graph-scene';
+import { GraphData } from '../lib/graph-types';
+
+const nodes = [
+  { id: 'a', label: 'A', x: 100, y: 300 },
+  { id: 'b', label: 'B', x: 400, y: 300 },
+  { id: 'c', label: 'C', x: 100, y: 500 },
+];
+
+const graphWith = (...pairs: string[]): GraphData => ({
+  nodes,
+  edges: pairs.map((pair, i) => ({ id: `e${i}`, source: pair[0], target: pair[1], weight: i + 1, isActive: false })),
+});
+
+describe('edge routes', () => {
+  it('draws a lone edge as a straight line with its label in the middle', () => {
+    const [route] = routeEdges(graphWith('ab'), NODE_RADIUS);
+    expect(route.kind).toBe('line');
+    expect(route.label).toEqual({ x: 250, y: 300 });
+    expect(arrowTip(route, NODE_RADIUS)).toEqual({ tip: { x: 400 - NODE_RADIUS, y: 300 }, angle: 0 });
+  });
+
+  it('bends antiparallel edges to opposite sides, with labels a spacing apart', () => {
+    const [forward, backward] = routeEdges(graphWith('ab', 'ba'), NODE_RADIUS);
+    expect([forward.kind, backward.kind]).toEqual(['curve', 'curve']);
+    expect(forward.label.x).toBeCloseTo(250);
+    expect(backward.label.x).toBeCloseTo(250);
+    expect(Math.abs(forward.label.y - backward.label.y)).toBeCloseTo(PARALLEL_SPACING);
+    // Each arrow still lands on B's or A's rim.
+    const { tip } = arrowTip(forward, NODE_RADIUS);
+    expect(Math.hypot(tip.x - 400, tip.y - 300)).toBeCloseTo(NODE_RADIUS, 1);
+  });
+
+  it('fans out parallel edges around a straight middle one', () => {
+    const routes = routeEdges(graphWith('ab', 'ab', 'ba'), NODE_RADIUS);
+    expect(routes.map(route => route.kind)).toEqual(['curve', 'line', 'curve']);
+    const ys = routes.map(route => Math.round(route.label.y));
+    expect(new Set(ys).size).toBe(3);
+  });
+
+  it('puts self-loops on the free side of the node and nests repeated ones', () => {
+    const [first, second] = routeEdges(graphWith('ab', 'ac', 'aa', 'aa'), NODE_RADIUS).slice(2);
+    expect(first.kind).toBe('loop');
+    // B is to the right and C below, so the loop goes up and to the left.
+    expect(first.label.x).toBeLessThan(100);
+    expect(first.label.y).toBeLessThan(300);
+    const reach = (label: { x: number; y: number }) => Math.hypot(label.x - 100, label.y - 300);
+    expect(reach(second.label)).toBeGreaterThan(reach(first.label));
+    expect(Math.hypot(first.points[0].x - 100, first.points[0].y - 300)).toBeCloseTo(NODE_RADIUS);
+  });
+
+  it('hit-tests the curves as drawn rather than the straight chord', () => {
+    const graph = graphWith('ab', 'ba', 'cc');
+    const [forward, backward, loop] = routeEdges(graph, NODE_RADIUS);
+    expect(findEdgeAt(graph, forward.label.x, forward.label.y)?.id).toBe('e0');
+    expect(findEdgeAt(graph, backward.label.x, backward.label.y)?.id).toBe('e1');
+    expect(findEdgeAt(graph, 250, 300)).toBeNull();
+    expect(findEdgeAt(graph, loop.label.x, loop.label.y)?.id).toBe('e2');
+    expect(distanceToRoute(loop, 100, 500)).toBeGreaterThan(NODE_RADIUS - 1);
+  });
+});
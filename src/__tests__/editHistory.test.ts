@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { COALESCE_WINDOW, EDIT_HISTORY_LIMIT, EditHistory, emptyHistory, recordEdit, redoEdit, undoEdit } from '../lib/edit-history';
+
+// Applies edits to a string document the way the editor does: record the old state, then change it.
+const edit = (state: { doc: string; history: EditHistory<string> }, next: string, key?: string, now = 0) => ({
+  doc: next,
+  history: recordEdit(state.history, state.doc, key, now),
+});
+
+describe('edit history', () => {
+  it('undoes and redoes edits in order', () => {
+    let state = { doc: 'a', history: emptyHistory<string>() };
+    state = edit(state, 'ab');
+    state = edit(state, 'abc');
+
+    const first = undoEdit(state.history, state.doc);
+    expect(first?.snapshot).toBe('ab');
+    const second = undoEdit(first.history, first.snapshot);
+    expect(second?.snapshot).toBe('a');
+    expect(undoEdit(second.history, second.snapshot)).toBeNull();
+
+    const redone = redoEdit(second.history, second.snapshot);
+    expect(redone?.snapshot).toBe('ab');
+    expect(redoEdit(redone.history, redone.snapshot)?.snapshot).toBe('abc');
+  });
+
+  it('drops the redo entries once a new edit is made', () => {
+    let state = { doc: 'a', history: emptyHistory<string>() };
+    state = edit(state, 'ab');
+    const undone = undoEdit(state.history, state.doc);
+    state = edit({ doc: undone.snapshot, history: undone.history }, 'ax');
+    expect(redoEdit(state.history, state.doc)).toBeNull();
+    expect(undoEdit(state.history, state.doc)?.snapshot).toBe('a');
+  });
+
+  it('coalesces edits with the same key only while they keep coming', () => {
+    let state = { doc: '', history: emptyHistory<string>() };
+    state = edit(state, 'h', 'text', 0);
+    state = edit(state, 'he', 'text', 400);
+    state = edit(state, 'hel', 'text', 800);
+    expect(state.history.past).toEqual(['']);
+
+    state = edit(state, 'hel!', 'text', 800 + COALESCE_WINDOW + 1);
+    state = edit(state, 'hel!?', undefined, 800 + COALESCE_WINDOW + 2);
+    state = edit(state, 'hel!?.', undefined, 800 + COALESCE_WINDOW + 3);
+    expect(state.history.past).toEqual(['', 'hel', 'hel!', 'hel!?']);
+  });
+
+  it('keeps a bounded number of entries', () => {
+    let history = emptyHistory<number>();
+    for (let i = 0; i < EDIT_HISTORY_LIMIT + 10; i++) history = recordEdit(history, i);
+    expect(history.past).toHaveLength(EDIT_HISTORY_LIMIT);
+    expect(history.past[0]).toBe(10);
+  });
+});
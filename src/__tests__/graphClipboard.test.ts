@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { extractSubgraph, firstClipboardGraph, parseClipboardText, pasteSubgraph, toClipboardText } from '../lib/graph-clipboard';
+import { nodesInRect } from '../lib/graph-edit';
+import { ProjectFileError } from '../lib/project-file';
+import { GraphData } from '../lib/graph-types';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'a', label: 'A', x: 100, y: 100, state: 'visited' },
+    { id: 'b', label: 'B', x: 200, y: 100 },
+    { id: 'c', label: 'C', x: 150, y: 200 },
+    { id: 'd', label: 'D', x: 600, y: 400 },
+  ],
+  edges: [
+    { id: 'ab', source: 'a', target: 'b', weight: 3, isActive: true },
+    { id: 'bc', source: 'b', target: 'c', isActive: false },
+    { id: 'cd', source: 'c', target: 'd', weight: 1, isActive: false },
+  ],
+};
+
+describe('graph clipboard', () => {
+  it('selects the nodes inside a marquee dragged in any direction', () => {
+    expect(nodesInRect(graph, { x: 210, y: 210 }, { x: 90, y: 90 })).toEqual(['a', 'b', 'c']);
+    expect(nodesInRect(graph, { x: 90, y: 90 }, { x: 160, y: 150 })).toEqual(['a']);
+  });
+
+  it('copies the chosen nodes and only the edges among them', () => {
+    const subgraph = extractSubgraph(graph, new Set(['a', 'b', 'c']));
+    expect(subgraph.nodes.map(n => n.id)).toEqual(['a', 'b', 'c']);
+    expect(subgraph.edges.map(e => e.id)).toEqual(['ab', 'bc']);
+  });
+
+  it('round-trips through the project format without algorithm state', () => {
+    const text = toClipboardText(extractSubgraph(graph, new Set(['a', 'b'])), true);
+    expect(JSON.parse(text).format).toBe('vision-graph-lab/project');
+    const clip = parseClipboardText(text);
+    expect(clip.nodes.map(n => [n.label, n.x, n.y, n.state])).toEqual([['A', 100, 100, 'default'], ['B', 200, 100, 'default']]);
+    expect(clip.edges.map(e => [e.source, e.target, e.weight, e.isActive])).toEqual([['a', 'b', 3, false]]);
+    expect(() => parseClipboardText('just some text')).toThrow(ProjectFileError);
+  });
+
+  it('falls back to the next clipboard source when one holds no copied nodes', () => {
+    const copied = toClipboardText(extractSubgraph(graph, new Set(['a'])), false);
+    expect(firstClipboardGraph(['unrelated old text', copied])?.nodes.map(n => n.label)).toEqual(['A']);
+    expect(firstClipboardGraph([undefined, '', copied])?.nodes).toHaveLength(1);
+    expect(firstClipboardGraph(['unrelated old text', undefined])).toBeNull();
+  });
+
+  it('pastes with fresh ids and labels, at an offset, keeping the copied edges', () => {
+    const clip = parseClipboardText(toClipboardText(extractSubgraph(graph, new Set(['a', 'b', 'c'])), false));
+    const { graphData, pastedIds } = pasteSubgraph(graph, clip, 40, 40);
+    const pasted = graphData.nodes.filter(n => pastedIds.includes(n.id));
+
+    expect(graphData.nodes).toHaveLength(7);
+    expect(new Set(graphData.nodes.map(n => n.id)).size).toBe(7);
+    expect(new Set(graphData.nodes.map(n => n.label)).size).toBe(7);
+    expect(pasted.map(n => [n.x, n.y])).toEqual([[140, 140], [240, 140], [190, 240]]);
+
+    const newEdges = graphData.edges.slice(graph.edges.length);
+    expect(newEdges).toHaveLength(2);
+    const labelOf = new Map(graphData.nodes.map(n => [n.id, n.label]));
+    expect(newEdges.map(e => [labelOf.get(e.source), labelOf.get(e.target), e.weight])).toEqual([
+      [pasted[0].label, pasted[1].label, 3],
+      [pasted[1].label, pasted[2].label, undefined],
+    ]);
+    expect(newEdges.every(e => !graph.edges.some(old => old.id === e.id))).toBe(true);
+  });
+
+  it('keeps free labels when pasting into another graph, and keeps the copy on the page', () => {
+    const clip = extractSubgraph(graph, new Set(['a', 'b']));
+    const other: GraphData = { nodes: [{ id: 'x', label: 'B', x: 500, y: 500 }], edges: [] };
+    const { graphData } = pasteSubgraph(other, clip, -1000, 0);
+    expect(graphData.nodes.slice(1).map(n => n.label)).toEqual(['A', 'C']);
+    // The group stops at the left edge instead of leaving the page.
+    expect(graphData.nodes.slice(1).map(n => n.x)).toEqual([25, 125]);
+  });
+});
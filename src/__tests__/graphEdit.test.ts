@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { checkNodeLabel, deleteEdges, deleteNodes, findEdgeAt, hasEdge, needsMultigraph, newEdgeWeight, nextNodeLabel, parseWeightInput, renameNode, reverseEdge, setEdgeWeight } from '../lib/graph-edit';
+import { GraphData } from '../lib/graph-types';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'a', label: 'A', x: 100, y: 100 },
+    { id: 'b', label: 'B', x: 300, y: 100 },
+    { id: 'c', label: 'C', x: 300, y: 300 },
+  ],
+  edges: [
+    { id: 'ab', source: 'a', target: 'b', weight: 2, isActive: false },
+    { id: 'bc', source: 'b', target: 'c', weight: 5, isActive: false },
+    { id: 'ca', source: 'c', target: 'a', isActive: false },
+  ],
+};
+
+describe('graph editing', () => {
+  it('hits an edge anywhere along its line, preferring the closest', () => {
+    expect(findEdgeAt(graph, 200, 104)?.id).toBe('ab');
+    expect(findEdgeAt(graph, 296, 200)?.id).toBe('bc');
+    expect(findEdgeAt(graph, 200, 200)?.id).toBe('ca');
+    expect(findEdgeAt(graph, 200, 130)).toBeNull();
+    // Past the end of a segment counts from the endpoint, not the infinite line.
+    expect(findEdgeAt(graph, 500, 100)).toBeNull();
+  });
+
+  it('deletes nodes together with every edge touching them', () => {
+    const result = deleteNodes(graph, new Set(['b']));
+    expect(result.nodes.map(n => n.id)).toEqual(['a', 'c']);
+    expect(result.edges.map(e => e.id)).toEqual(['ca']);
+    expect(deleteEdges(graph, new Set(['ab', 'ca'])).edges.map(e => e.id)).toEqual(['bc']);
+  });
+
+  it('rejects empty and duplicate labels and trims accepted ones', () => {
+    expect(checkNodeLabel(graph, 'a', '  ')).toMatch(/needs a label/);
+    expect(checkNodeLabel(graph, 'a', 'B')).toMatch(/already called "B"/);
+    expect(checkNodeLabel(graph, 'a', 'A')).toBeNull();
+    expect(renameNode(graph, 'a', ' Start ').nodes[0].label).toBe('Start');
+  });
+
+  it('reverses an edge in place and checks for existing edges in either direction', () => {
+    const reversed = reverseEdge(graph, 'ab');
+    expect(reversed.edges[0]).toEqual({ id: 'ab', source: 'b', target: 'a', weight: 2, isActive: false });
+    expect(hasEdge(graph, 'b', 'a', true)).toBe(false);
+    expect(hasEdge(graph, 'b', 'a', false)).toBe(true);
+    expect(hasEdge(graph, 'a', 'b', true, 'ab')).toBe(false);
+  });
+
+  it('reuses labels freed by deleted nodes', () => {
+    expect(nextNodeLabel(graph)).toBe('D');
+    expect(nextNodeLabel(deleteNodes(graph, new Set(['a'])))).toBe('A');
+    const full: GraphData = { nodes: Array.from({ length: 26 }, (_, i) => ({ id: `${i}`, label: String.fromCharCode(65 + i), x: 0, y: 0 })), edges: [] };
+    expect(nextNodeLabel(full)).toBe('A1');
+  });
+
+  it('accepts negative, fractional and blank weights but not text', () => {
+    expect(parseWeightInput('-3')).toEqual({ weight: -3 });
+    expect(parseWeightInput(' 2.5 ')).toEqual({ weight: 2.5 });
+    expect(parseWeightInput('0')).toEqual({ weight: 0 });
+    expect(parseWeightInput('')).toEqual({ weight: undefined });
+    expect(parseWeightInput('None')).toEqual({ weight: undefined });
+    expect(parseWeightInput('abc')).toEqual({ error: expect.stringMatching(/"abc" is not a number/) });
+    expect(parseWeightInput('Infinity')).toHaveProperty('error');
+  });
+
+  it('sets or clears an edge weight', () => {
+    expect(setEdgeWeight(graph, 'ab', -1.5).edges[0].weight).toBe(-1.5);
+    const cleared = setEdgeWeight(graph, 'ab', undefined).edges[0];
+    expect(cleared).toEqual({ id: 'ab', source: 'a', target: 'b', isActive: false });
+    expect('weight' in cleared).toBe(false);
+  });
+
+  it('weighs new edges by the chosen policy', () => {
+    const [a, b, c] = graph.nodes;
+    expect(newEdgeWeight('unit', a, c)).toBe(1);
+    expect(newEdgeWeight('euclidean', a, b)).toBe(200);
+    expect(newEdgeWeight('euclidean', a, c)).toBe(283);
+    expect(newEdgeWeight('random', a, b, () => 0)).toBe(1);
+    expect(newEdgeWeight('random', a, b, () => 0.999)).toBe(10);
+  });
+
+  it('tells when a graph needs to be a multigraph', () => {
+    expect(needsMultigraph(graph, true)).toBe(false);
+    const antiparallel: GraphData = { ...graph, edges: [...graph.edges, { id: 'ba', source: 'b', target: 'a', isActive: false }] };
+    expect(needsMultigraph(antiparallel, true)).toBe(false);
+    expect(needsMultigraph(antiparallel, false)).toBe(true);
+    expect(needsMultigraph({ ...graph, edges: [{ id: 'aa', source: 'a', target: 'a', isActive: false }] }, true)).toBe(true);
+  });
+});
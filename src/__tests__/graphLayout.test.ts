@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { CANVAS_SIZE, moveNodes } from '../lib/graph-layout';
+import { GraphNode } from '../lib/graph-types';
+
+const nodes: GraphNode[] = [
+  { id: 'a', label: 'A', x: 100, y: 100 },
+  { id: 'b', label: 'B', x: 300, y: 200 },
+  { id: 'c', label: 'C', x: 600, y: 400 },
+];
+
+describe('moveNodes', () => {
+  it('moves only the chosen nodes, keeping the others untouched', () => {
+    const moved = moveNodes(nodes, new Set(['a', 'b']), 50, -20);
+    expect(moved.map(n => [n.x, n.y])).toEqual([[150, 80], [350, 180], [600, 400]]);
+    expect(moved[2]).toBe(nodes[2]);
+  });
+
+  it('shortens the move at the canvas edge so the group keeps its shape', () => {
+    const moved = moveNodes(nodes, new Set(['a', 'b']), -500, 10, 25);
+    // 'a' stops at the margin, and 'b' stops with it rather than sliding further.
+    expect(moved.map(n => [n.x, n.y])).toEqual([[25, 110], [225, 210], [600, 400]]);
+  });
+
+  it('clamps against the right and bottom edges too', () => {
+    const [, , c] = moveNodes(nodes, new Set(['c']), 5000, 5000, 25);
+    expect([c.x, c.y]).toEqual([CANVAS_SIZE.width - 25, CANVAS_SIZE.height - 25]);
+  });
+
+  it('lets nodes already off the page move by small steps instead of snapping onto it', () => {
+    const offPage: GraphNode[] = [
+      { id: 'left', label: 'L', x: -300, y: 100 },
+      { id: 'right', label: 'R', x: 1500, y: 900 },
+    ];
+    const [left] = moveNodes(offPage, new Set(['left']), 1, 0, 25);
+    expect([left.x, left.y]).toEqual([-299, 100]);
+    const [, right] = moveNodes(offPage, new Set(['right']), -1, -1, 25);
+    expect([right.x, right.y]).toEqual([1499, 899]);
+  });
+
+  it('stops a move that takes an off-page node further out, but not one that brings it back', () => {
+    const offPage: GraphNode[] = [{ id: 'a', label: 'A', x: -300, y: 100 }];
+    expect(moveNodes(offPage, new Set(['a']), -50, 0, 25)[0].x).toBe(-300);
+    expect(moveNodes(offPage, new Set(['a']), 5000, 0, 25)[0].x).toBe(CANVAS_SIZE.width - 25);
+  });
+
+  it('moves a group wider than the page by exactly the drag', () => {
+    const wide: GraphNode[] = [
+      { id: 'a', label: 'A', x: -200, y: 100 },
+      { id: 'b', label: 'B', x: 1600, y: 300 },
+    ];
+    const moved = moveNodes(wide, new Set(['a', 'b']), 3, 4, 25);
+    expect(moved.map(n => [n.x, n.y])).toEqual([[-197, 104], [1603, 304]]);
+  });
+
+  it('returns the nodes as they are when nothing is selected', () => {
+    expect(moveNodes(nodes, new Set(), 10, 10)).toBe(nodes);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { GraphLibrary, createIndexedDbStore, createMemoryStore, parseTags } from '../lib/graph-library';
+
+// A clock that ticks once per call, so ordering by update time is deterministic.
+const makeLibrary = () => {
+  let time = 1000;
+  return new GraphLibrary(createMemoryStore(), () => time++);
+};
+
+const project = (name: string) => JSON.stringify({ name });
+
+describe('Graph library', () => {
+  it('lists the most recently changed entries first', async () => {
+    const library = makeLibrary();
+    const first = await library.save({ name: 'First', tags: [], project: project('1') });
+    await library.save({ name: 'Second', tags: [], project: project('2') });
+    expect((await library.list()).map(e => e.name)).toEqual(['Second', 'First']);
+
+    await library.rename(first.id, 'First, renamed');
+    expect((await library.list()).map(e => e.name)).toEqual(['First, renamed', 'Second']);
+  });
+
+  it('searches names and tags with every word of the query', async () => {
+    const library = makeLibrary();
+    await library.save({ name: 'Dijkstra demo', tags: ['week 3', 'shortest paths'], project: project('a') });
+    await library.save({ name: 'Spanning trees', tags: ['week 4'], project: project('b') });
+    expect((await library.list('WEEK')).length).toBe(2);
+    expect((await library.list('week 3')).map(e => e.name)).toEqual(['Dijkstra demo']);
+    expect((await library.list('shortest demo')).map(e => e.name)).toEqual(['Dijkstra demo']);
+    expect(await library.list('flow')).toEqual([]);
+  });
+
+  it('duplicates entries under a new id', async () => {
+    const library = makeLibrary();
+    const original = await library.save({ name: 'Lesson', tags: ['bfs'], project: project('x'), thumbnail: 'data:image/png;base64,' });
+    const copy = await library.duplicate(original.id);
+    expect(copy.id).not.toBe(original.id);
+    expect(copy).toMatchObject({ name: 'Lesson (copy)', tags: ['bfs'], project: original.project, thumbnail: original.thumbnail });
+    expect(await library.list()).toHaveLength(2);
+  });
+
+  it('updates tags and deletes entries', async () => {
+    const library = makeLibrary();
+    const entry = await library.save({ name: 'Lesson', tags: [], project: project('x') });
+    await library.setTags(entry.id, ['dfs', 'trees']);
+    expect((await library.list('trees'))[0].tags).toEqual(['dfs', 'trees']);
+    await library.remove(entry.id);
+    expect(await library.list()).toEqual([]);
+    await expect(library.rename(entry.id, 'Gone')).rejects.toThrow(/No library entry/);
+  });
+
+  it('keeps the last autosaved session', async () => {
+    const library = makeLibrary();
+    expect(await library.loadSession()).toBeUndefined();
+    await library.saveSession(project('draft 1'));
+    await library.saveSession(project('draft 2'));
+    expect(await library.loadSession()).toEqual({ project: project('draft 2'), savedAt: 1001 });
+  });
+
+  it('parses comma separated tags', () => {
+    expect(parseTags(' bfs, week 3 ,,bfs ')).toEqual(['bfs', 'week 3']);
+    expect(parseTags('')).toEqual([]);
+  });
+
+  it('falls back to memory when the database cannot be opened', async () => {
+    const failing = {
+      open: () => {
+        const req = {} as IDBOpenDBRequest;
+        setTimeout(() => req.onerror?.(new Event('error')));
+        return req;
+      },
+    } as unknown as IDBFactory;
+    const throwing = { open: () => { throw new DOMException('denied', 'SecurityError'); } } as unknown as IDBFactory;
+    for (const factory of [failing, throwing]) {
+      const library = new GraphLibrary(createIndexedDbStore(factory));
+      const entry = await library.save({ name: 'kept', tags: [], project: project('kept') });
+      expect((await library.list()).map(e => e.id)).toEqual([entry.id]);
+      await library.saveSession(project('draft'));
+      expect((await library.loadSession())?.project).toBe(project('draft'));
+      expect(await library.isPersistent()).toBe(false);
+    }
+  });
+
+  it('waits out a blocked open instead of falling back to memory', async () => {
+    const database = {} as IDBDatabase;
+    const blocked = {
+      open: () => {
+        const req = { result: database } as IDBOpenDBRequest;
+        setTimeout(() => req.onblocked?.(new Event('blocked') as IDBVersionChangeEvent));
+        setTimeout(() => req.onsuccess?.(new Event('success')), 10);
+        return req;
+      },
+    } as unknown as IDBFactory;
+    expect(await createIndexedDbStore(blocked).isPersistent()).toBe(true);
+    expect(await createMemoryStore().isPersistent()).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { NODE_RADIUS, SCENE_COLORS, SceneShape, buildScene, weightBoxSize } from '../lib/graph-scene';
+import { sceneToSvg, toSvgColor } from '../lib/scene-render';
+import { GraphData } from '../lib/graph-types';
+
+const graphData: GraphData = {
+  nodes: [
+    { id: 'a', label: 'A', x: 100, y: 100, state: 'visited' },
+    { id: 'b', label: 'B<', x: 300, y: 100, isSourceSide: true },
+  ],
+  edges: [{ id: 'e', source: 'a', target: 'b', weight: 12, isActive: false, isPath: true }],
+};
+
+const ofKind = <K extends SceneShape['kind']>(shapes: SceneShape[], kind: K) =>
+  shapes.filter((shape): shape is Extract<SceneShape, { kind: K }> => shape.kind === kind);
+
+describe('graph scene', () => {
+  it('describes nodes, edges and labels with state colours', () => {
+    const { shapes, width, height } = buildScene(graphData, { isDirected: false, showGrid: false });
+    expect([width, height]).toEqual([1200, 800]);
+    expect(shapes[0]).toMatchObject({ kind: 'rect', width: 1200, height: 800, fill: SCENE_COLORS.background });
+    expect(ofKind(shapes, 'line')).toEqual([{ kind: 'line', x1: 100, y1: 100, x2: 300, y2: 100, stroke: SCENE_COLORS.path, lineWidth: 4 }]);
+    expect(ofKind(shapes, 'polygon')).toEqual([]);
+    const circles = ofKind(shapes, 'circle');
+    expect(circles.map(c => c.fill)).toEqual([SCENE_COLORS.visited, SCENE_COLORS.sourceSide, SCENE_COLORS.node]);
+    expect(ofKind(shapes, 'text').map(t => t.text)).toEqual(['12', 'A', 'B<']);
+  });
+
+  it('adds arrowheads on the target rim for directed graphs', () => {
+    const [arrow] = ofKind(buildScene(graphData, { isDirected: true }).shapes, 'polygon');
+    expect(arrow.points[0]).toEqual([300 - NODE_RADIUS, 100]);
+    expect(arrow.fill).toBe(SCENE_COLORS.path);
+  });
+
+  it('makes the grid and editor highlights optional', () => {
+    const plain = buildScene(graphData, { isDirected: false, showGrid: false });
+    const edited = buildScene(graphData, { isDirected: false, selectedNodes: ['a'], hoveredNode: 'b' });
+    expect(ofKind(edited.shapes, 'line')).toHaveLength(1 + 31 + 21);
+    expect(ofKind(edited.shapes, 'circle').length - ofKind(plain.shapes, 'circle').length).toBe(2);
+  });
+
+  it('draws antiparallel edges and self-loops as curves with their own weight boxes', () => {
+    const curved: GraphData = {
+      ...graphData,
+      edges: [
+        { id: 'ab', source: 'a', target: 'b', weight: 1, isActive: false },
+        { id: 'ba', source: 'b', target: 'a', weight: 2, isActive: false },
+        { id: 'aa', source: 'a', target: 'a', weight: 3, isActive: false },
+      ],
+    };
+    const { shapes } = buildScene(curved, { isDirected: true, showGrid: false });
+    expect(ofKind(shapes, 'line')).toEqual([]);
+    expect(ofKind(shapes, 'curve')).toHaveLength(3);
+    expect(ofKind(shapes, 'polygon')).toHaveLength(3);
+    const boxes = ofKind(shapes, 'rect').slice(1);
+    expect(new Set(boxes.map(box => `${Math.round(box.x)},${Math.round(box.y)}`)).size).toBe(3);
+    expect(sceneToSvg({ ...buildScene(curved, { isDirected: false, showGrid: false }) })).toMatch(/<path d="M 100 100 C [\d., -]+" fill="none" stroke="#/);
+  });
+
+  it('shows flow/capacity and residual arcs during max flow', () => {
+    const flowing: GraphData = { ...graphData, edges: [{ ...graphData.edges[0], isPath: false, flow: 5 }] };
+    const { shapes } = buildScene(flowing, { isDirected: true, showGrid: false, showResidual: true });
+    const texts = ofKind(shapes, 'text').map(t => t.text);
+    expect(texts).toEqual(['5/12', '7', '5', 'A', 'B<']);
+    expect(ofKind(shapes, 'line').filter(l => l.dash)).toHaveLength(2);
+  });
+
+  it('sizes weight boxes by their text, the same box the editor hit-tests', () => {
+    expect(weightBoxSize('4').width).toBe(30);
+    expect(weightBoxSize('-2.75').width).toBeGreaterThan(30);
+    const flowing: GraphData = { ...graphData, edges: [{ ...graphData.edges[0], weight: 15, flow: 12 }] };
+    const [, box] = ofKind(buildScene(flowing, { isDirected: true, showGrid: false }).shapes, 'rect');
+    expect(box.width).toBe(weightBoxSize('12/15').width);
+    expect(box.width).toBeGreaterThan(30);
+  });
+
+  it('runs residual arcs beside the curved routes of opposite edges', () => {
+    const opposite: GraphData = {
+      ...graphData,
+      edges: [
+        { id: 'ab', source: 'a', target: 'b', weight: 5, flow: 2, isActive: false },
+        { id: 'ba', source: 'b', target: 'a', weight: 3, flow: 1, isActive: false },
+      ],
+    };
+    const { shapes } = buildScene(opposite, { isDirected: true, showGrid: false, showResidual: true });
+    const [abRoute, baRoute] = ofKind(buildScene(opposite, { isDirected: true, showGrid: false }).shapes, 'curve');
+    const arcs = ofKind(shapes, 'curve').filter(c => c.dash);
+    expect(arcs).toHaveLength(4);
+    const middle = (points: [number, number][]) => {
+      const [p0, p1, p2, p3] = points;
+      return [0, 1].map(i => (p0[i] + 3 * p1[i] + 3 * p2[i] + p3[i]) / 8);
+    };
+    const distance = (a: number[], b: number[]) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+    // Each edge's two arcs sit about 10px either side of its own curve, not of the straight line
+    // between the nodes, which is 24px away.
+    const beside = (arc: { points: [number, number][] }, route: { points: [number, number][] }) => {
+      const gap = distance(middle(arc.points), middle(route.points));
+      expect(gap).toBeGreaterThan(7);
+      expect(gap).toBeLessThan(13);
+    };
+    arcs.slice(0, 2).forEach(arc => beside(arc, abRoute));
+    arcs.slice(2).forEach(arc => beside(arc, baRoute));
+    arcs.forEach((arc, i) => arcs.slice(i + 1).forEach(other => expect(distance(middle(arc.points), middle(other.points))).toBeGreaterThan(15)));
+    // Arcs start and end on the node rims.
+    for (const { points } of arcs) {
+      for (const [x, y] of [points[0], points[3]]) {
+        expect(Math.min(Math.hypot(x - 100, y - 100), Math.hypot(x - 300, y - 100))).toBeCloseTo(NODE_RADIUS, 1);
+      }
+    }
+    expect(sceneToSvg({ ...buildScene(opposite, { isDirected: true, showGrid: false, showResidual: true }) })).toContain('stroke-dasharray="6 4"');
+  });
+});
+
+describe('scene size', () => {
+  it('covers the page, with its origin at the top-left, for a graph on the page', () => {
+    const scene = buildScene(graphData, { isDirected: false });
+    expect([scene.width, scene.height, scene.origin]).toEqual([1200, 800, { x: 0, y: 0 }]);
+  });
+
+  it('grows past the page to take in nodes outside it, and shifts every shape into view', () => {
+    const offPage: GraphData = {
+      nodes: [
+        { id: 'a', label: 'A', x: -300, y: 100 },
+        { id: 'b', label: 'B', x: 1500, y: 900 },
+      ],
+      edges: [],
+    };
+    const scene = buildScene(offPage, { isDirected: false, showGrid: false });
+    // 25px node radius plus 30px of padding past each node that pokes out.
+    expect(scene.origin).toEqual({ x: -355, y: 0 });
+    expect([scene.width, scene.height]).toEqual([1500 + 55 + 355, 900 + 55]);
+    expect(scene.shapes[0]).toMatchObject({ kind: 'rect', x: 0, y: 0, width: scene.width, height: scene.height });
+    expect(ofKind(scene.shapes, 'circle').map(c => [c.cx, c.cy])).toEqual([[55, 100], [1855, 900]]);
+    expect(sceneToSvg(scene)).toContain(`viewBox="0 0 ${scene.width} ${scene.height}"`);
+  });
+
+  it('keeps the grid on the same world lines when the scene grows', () => {
+    const offPage: GraphData = { nodes: [{ id: 'a', label: 'A', x: -100, y: 100 }], edges: [] };
+    const scene = buildScene(offPage, { isDirected: false });
+    const verticals = ofKind(scene.shapes, 'line').filter(line => line.x1 === line.x2);
+    expect(verticals.map(line => line.x1 + scene.origin.x).slice(0, 4)).toEqual([-120, -80, -40, 0]);
+  });
+
+  it('makes room for a self-loop that reaches above the page', () => {
+    const looped: GraphData = {
+      nodes: [{ id: 'a', label: 'A', x: 100, y: 30 }],
+      edges: [{ id: 'loop', source: 'a', target: 'a', isActive: false }],
+    };
+    const scene = buildScene(looped, { isDirected: false, showGrid: false });
+    const [loop] = ofKind(scene.shapes, 'curve');
+    expect(scene.origin.y).toBeLessThan(0);
+    expect(Math.min(...loop.points.map(([, y]) => y))).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('scene SVG', () => {
+  it('converts hsl colours to hex with opacity', () => {
+    expect(toSvgColor('hsl(0 100% 50%)')).toEqual({ color: '#ff0000' });
+    expect(toSvgColor('hsl(198 93% 60%)')).toEqual({ color: '#3abff8' });
+    expect(toSvgColor('hsl(262 83% 70% / 0.3)')).toEqual({ color: '#a273f2', opacity: 0.3 });
+    expect(toSvgColor('red')).toEqual({ color: 'red' });
+  });
+
+  it('renders every shape as an SVG element', () => {
+    const svg = sceneToSvg(buildScene(graphData, { isDirected: true, showGrid: false }));
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="1200" height="800" viewBox="0 0 1200 800">/);
+    expect(svg).toContain('<line x1="100" y1="100" x2="300" y2="100" stroke="#a273f2" stroke-width="4"/>');
+    expect(svg).toContain('<polygon points="275,100 257,93 257,107" fill="#a273f2"/>');
+    expect(svg).toContain('<circle cx="300" cy="100" r="37" fill="#a273f2" fill-opacity="0.3" stroke="none"/>');
+    expect(svg).toContain('font-weight="bold" fill="#020817">B&lt;</text>');
+    expect(svg.match(/<text /g)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { applyGraphDescription, formatGraphText, parseGraphText } from '../lib/graph-text';
+import { GraphData } from '../lib/graph-types';
+
+const graphData: GraphData = {
+  nodes: [
+    { id: 'n1', label: 'A', x: 100, y: 100, state: 'visited' },
+    { id: 'n2', label: 'B', x: 300, y: 100 },
+    { id: 'n3', label: 'New York', x: 200, y: 300 },
+    { id: 'n4', label: 'D', x: 500, y: 300 },
+  ],
+  edges: [
+    { id: 'e1', source: 'n1', target: 'n2', weight: 4, isActive: false },
+    { id: 'e2', source: 'n2', target: 'n3', isActive: false },
+  ],
+};
+
+describe('graph text', () => {
+  it('formats an edge list with quoted labels and isolated nodes', () => {
+    expect(formatGraphText(graphData, 'edge-list', false)).toBe('A B 4\nB "New York"\nD');
+  });
+
+  it('formats an adjacency matrix, symmetric when undirected', () => {
+    expect(formatGraphText(graphData, 'adjacency-matrix', false).split('\n')).toEqual([
+      '                    A          B "New York"          D',
+      '         A          .          4          .          .',
+      '         B          4          .          x          .',
+      '"New York"          .          x          .          .',
+      '         D          .          .          .          .',
+    ]);
+    const directed = parseGraphText(formatGraphText(graphData, 'adjacency-matrix', true), 'adjacency-matrix', true);
+    expect(directed.description?.edges).toEqual([{ source: 'A', target: 'B', weight: 4 }, { source: 'B', target: 'New York' }]);
+  });
+
+  it('round-trips both formats', () => {
+    for (const format of ['edge-list', 'adjacency-matrix'] as const) {
+      const { description, errors } = parseGraphText(formatGraphText(graphData, format, false), format, false);
+      expect(errors).toEqual([]);
+      expect(description?.nodes.sort()).toEqual(['A', 'B', 'D', 'New York']);
+      expect(description?.edges).toEqual([{ source: 'A', target: 'B', weight: 4 }, { source: 'B', target: 'New York' }]);
+    }
+  });
+
+  it('parses comments, arrows, commas and decimal weights', () => {
+    const { description } = parseGraphText('# roads\nA -> B 2.5\nB, C, -1 # toll\n\nE', 'edge-list', true);
+    expect(description).toEqual({
+      nodes: ['A', 'B', 'C', 'E'],
+      edges: [{ source: 'A', target: 'B', weight: 2.5 }, { source: 'B', target: 'C', weight: -1 }],
+    });
+  });
+
+  it('reports edge-list errors with line numbers', () => {
+    const { description, errors } = parseGraphText('A B 1\nA B C D\nB C heavy\nC C\nB A 2\n"open', 'edge-list', false);
+    expect(description).toBeUndefined();
+    expect(errors).toEqual([
+      { line: 2, message: 'expected "node" or "source target [weight]"' },
+      { line: 3, message: 'weight "heavy" is not a number' },
+      { line: 4, message: 'self-loop on "C" is not supported' },
+      { line: 5, message: 'duplicate edge B – A' },
+      { line: 6, message: 'unterminated quote' },
+    ]);
+    expect(parseGraphText('A B 1\nB A 2', 'edge-list', true).errors).toEqual([]);
+  });
+
+  it('accepts self-loops and repeated edges in multigraph mode', () => {
+    const { description, errors } = parseGraphText('A B 1\nB A 2\nC C', 'edge-list', false, true);
+    expect(errors).toEqual([]);
+    expect(description.edges).toEqual([{ source: 'A', target: 'B', weight: 1 }, { source: 'B', target: 'A', weight: 2 }, { source: 'C', target: 'C' }]);
+    const matrix = parseGraphText('A B\n3 x\nx .', 'adjacency-matrix', false, true);
+    expect(matrix.description.edges).toEqual([{ source: 'A', target: 'A', weight: 3 }, { source: 'A', target: 'B' }]);
+  });
+
+  it('reports adjacency-matrix errors with line numbers', () => {
+    const errors = (text: string, isDirected = false) => parseGraphText(text, 'adjacency-matrix', isDirected).errors;
+    expect(errors('A B\nA . 1\nC 1 .')).toEqual([{ line: 3, message: 'row 2 is labelled "C" but the header says "B"' }]);
+    expect(errors('A B\n. 1\n1')).toEqual([{ line: 3, message: 'expected 2 cells but found 1' }]);
+    expect(errors('A B\n. 1\n2 .')[0].message).toMatch(/must be symmetric/);
+    expect(errors('A B\n. 1\n2 .', true)).toEqual([]);
+    expect(errors('A B\n1 .\n. .', true)[0].message).toMatch(/self-loop on "A"/);
+    expect(errors('A B\n. y\n. .', true)[0].message).toMatch(/"y" is not a weight/);
+    expect(errors('A B\n. .')).toEqual([{ line: 2, message: 'expected 2 rows but found 1' }]);
+  });
+
+  it('keeps existing ids, positions and state and places new nodes', () => {
+    const { description } = parseGraphText('A B 7\nB "New York"\nA E\n', 'edge-list', false);
+    const next = applyGraphDescription(graphData, description!, false);
+    expect(next.nodes.slice(0, 3)).toEqual(graphData.nodes.slice(0, 3));
+    expect(next.nodes.map(n => n.label)).toEqual(['A', 'B', 'New York', 'E']);
+    const added = next.nodes[3];
+    expect(added.id).not.toMatch(/^n\d$/);
+    // Placed beside its neighbour A.
+    expect(Math.hypot(added.x! - 100, added.y! - 100)).toBeCloseTo(120);
+    expect(next.edges[0]).toEqual({ id: 'e1', source: 'n1', target: 'n2', weight: 7, isActive: false });
+    expect(next.edges[1].id).toBe('e2');
+    expect(next.edges[2]).toMatchObject({ source: 'n1', target: added.id, isActive: false });
+    expect(next.edges[2].weight).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { parseGraphML, toGraphML } from '../lib/graphml';
+import { GraphImportError } from '../lib/graph-import';
+import { GraphData } from '../lib/graph-types';
+import { parseProject, serializeProject } from '../lib/project-file';
+
+const graphml = (body: string, header = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+${header}
+${body}
+</graphml>`;
+
+describe('GraphML', () => {
+  const graphData: GraphData = {
+    nodes: [
+      { id: 'A', label: 'Start & <go>', x: 100, y: 150, state: 'visited' },
+      { id: 'B', label: 'B', x: 300.5, y: 150 },
+    ],
+    edges: [
+      { id: 'e1', source: 'A', target: 'B', weight: 2.5, isActive: true },
+      { id: 'e2', source: 'B', target: 'A', isActive: false },
+    ],
+  };
+
+  it('round-trips ids, labels, positions, weights and direction', () => {
+    for (const isDirected of [true, false]) {
+      const imported = parseGraphML(toGraphML(graphData, isDirected));
+      expect(imported.isDirected).toBe(isDirected);
+      expect(imported.warnings).toEqual([]);
+      expect(imported.graphData.nodes).toEqual([
+        { id: 'A', label: 'Start & <go>', x: 100, y: 150, state: 'default' },
+        { id: 'B', label: 'B', x: 300.5, y: 150, state: 'default' },
+      ]);
+      expect(imported.graphData.edges).toEqual([
+        { id: 'e1', source: 'A', target: 'B', weight: 2.5, isActive: false },
+        { id: 'e2', source: 'B', target: 'A', isActive: false },
+      ]);
+    }
+  });
+
+  it('preserves unknown attributes through import and export', () => {
+    const text = graphml(`
+  <graph edgedefault="undirected">
+    <data key="g0">Road map</data>
+    <node id="n0"><data key="d0">Berlin</data><data key="d1">3.6</data></node>
+    <node id="n1"><data key="d0">Paris</data></node>
+    <edge source="n0" target="n1"><data key="d2">1054</data><data key="d3">A2</data></edge>
+  </graph>`, `
+  <key id="g0" for="graph" attr.name="title" attr.type="string"/>
+  <key id="d0" for="node" attr.name="name" attr.type="string"/>
+  <key id="d1" for="node" attr.name="population" attr.type="double"><default>0</default></key>
+  <key id="d2" for="edge" attr.name="weight" attr.type="double"/>
+  <key id="d3" for="edge" attr.name="road" attr.type="string"/>`);
+
+    const first = parseGraphML(text);
+    expect(first.isDirected).toBe(false);
+    expect(first.graphData.nodes.map(n => n.label)).toEqual(['Berlin', 'Paris']);
+    expect(first.graphData.nodes.map(n => n.attributes)).toEqual([{ population: '3.6' }, { population: '0' }]);
+    expect(first.graphData.edges[0]).toMatchObject({ id: 'e0', weight: 1054, attributes: { road: 'A2' } });
+    expect(first.graphData.attributes).toEqual({ title: 'Road map' });
+    expect(first.graphData.attributeKeys).toContainEqual({ name: 'population', for: 'node', type: 'double', default: '0' });
+
+    const second = parseGraphML(toGraphML(first.graphData, first.isDirected));
+    expect(second.graphData).toEqual(first.graphData);
+
+    // Saving the imported graph as a project keeps the attributes too.
+    const project = parseProject(serializeProject({
+      graphData: first.graphData, isDirected: false, algorithm: 'bfs', params: {}, speed: 50,
+    }));
+    expect(project.graphData.nodes[0].attributes).toEqual({ population: '3.6' });
+    expect(project.graphData.attributeKeys).toEqual(first.graphData.attributeKeys);
+  });
+
+  it('reads yEd node geometry and labels', () => {
+    const text = graphml(`
+  <graph edgedefault="directed">
+    <node id="n0"><data key="d6"><y:ShapeNode xmlns:y="http://www.yworks.com/xml/graphml">
+      <y:Geometry x="10" y="20" width="30" height="40"/><y:NodeLabel>Hub</y:NodeLabel>
+    </y:ShapeNode></data></node>
+  </graph>`, '  <key id="d6" for="node" yfiles.type="nodegraphics"/>');
+    const { graphData, warnings } = parseGraphML(text);
+    expect(graphData.nodes[0]).toMatchObject({ id: 'n0', label: 'Hub', x: 25, y: 40 });
+    expect(graphData.nodes[0].attributes).toBeUndefined();
+    expect(warnings).toEqual([]);
+  });
+
+  it('lays out nodes without positions', () => {
+    const { graphData } = parseGraphML(graphml('<graph edgedefault="directed"><node id="a"/><node id="b"/></graph>'));
+    expect(graphData.nodes.every(n => Number.isFinite(n.x) && Number.isFinite(n.y))).toBe(true);
+    expect(graphData.nodes[0].x).not.toBe(graphData.nodes[1].x);
+  });
+
+  it('reports unsupported constructs instead of failing', () => {
+    const text = graphml(`
+  <graph edgedefault="directed">
+    <node id="a"><graph id="inner" edgedefault="directed"><node id="a::x"/></graph></node>
+    <node id="b"/>
+    <node id="c"/>
+    <hyperedge><endpoint node="a"/><endpoint node="b"/><endpoint node="c"/></hyperedge>
+    <edge source="a" target="missing"/>
+    <edge source="a" target="b" directed="false"/>
+  </graph>
+  <graph edgedefault="undirected"/>`);
+    const { graphData, warnings } = parseGraphML(text);
+    expect(graphData.nodes.map(n => n.id)).toEqual(['a', 'b', 'c']);
+    expect(graphData.edges).toHaveLength(1);
+    expect(warnings).toEqual([
+      'Only the first of 2 graphs was imported.',
+      'Nested graph inside node "a" is not supported; its contents were skipped.',
+      'Edge "e0" connects missing nodes and was skipped.',
+      'Some edges override edgedefault; all edges were imported as directed.',
+      '1 hyperedge is not supported and was skipped.',
+    ]);
+  });
+
+  it('rejects files that are not GraphML', () => {
+    expect(() => parseGraphML('<graphml><graph>')).toThrow(GraphImportError);
+    expect(() => parseGraphML('<svg xmlns="http://www.w3.org/2000/svg"/>')).toThrow(/not a GraphML file/);
+    expect(() => parseGraphML(graphml(''))).toThrow(/no <graph> element/);
+  });
+});
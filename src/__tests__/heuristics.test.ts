@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { GraphData } from '../lib/graph-types';
+import { AlgorithmRunner } from '../lib/algorithms';
+import { HeuristicKind, checkHeuristic, createHeuristic, euclideanScale } from '../lib/heuristics';
+import { formatMatrix } from '../lib/matrix-format';
+
+// Small integer weights on a pixel layout: raw Euclidean distance overestimates badly.
+const grid: GraphData = {
+  nodes: [
+    { id: 'A', label: 'A', x: 0, y: 0 },
+    { id: 'B', label: 'B', x: 100, y: 0 },
+    { id: 'C', label: 'C', x: 100, y: 100 },
+    { id: 'D', label: 'D', x: 200, y: 100 },
+  ],
+  edges: [
+    { id: 'e1', source: 'A', target: 'B', weight: 1, isActive: false },
+    { id: 'e2', source: 'B', target: 'C', weight: 1, isActive: false },
+    { id: 'e3', source: 'C', target: 'D', weight: 1, isActive: false },
+    { id: 'e4', source: 'A', target: 'D', weight: 5, isActive: false },
+  ],
+};
+
+describe('Heuristics', () => {
+  it('measures positional distances to the goal', () => {
+    expect(createHeuristic('euclidean', grid, 'D')('A')).toBeCloseTo(Math.hypot(200, 100));
+    expect(createHeuristic('manhattan', grid, 'D')('A')).toBe(300);
+    expect(createHeuristic('chebyshev', grid, 'D')('A')).toBe(200);
+    expect(createHeuristic('zero', grid, 'D')('A')).toBe(0);
+  });
+
+  it('uses entered values for the custom heuristic and 0 elsewhere', () => {
+    const h = createHeuristic('custom', grid, 'D', { values: { A: 2 } });
+    expect([h('A'), h('B')]).toEqual([2, 0]);
+  });
+
+  it('scales Euclidean distance under the cheapest weight per pixel', () => {
+    expect(euclideanScale(grid)).toBeCloseTo(0.01);
+    const report = checkHeuristic(grid, true, 'D', createHeuristic('scaled-euclidean', grid, 'D'));
+    expect(report).toMatchObject({ admissible: true, consistent: true, violations: [] });
+  });
+
+  it('flags raw Euclidean distance as inadmissible on small weights', () => {
+    const report = checkHeuristic(grid, true, 'D', createHeuristic('euclidean', grid, 'D'));
+    expect(report.admissible).toBe(false);
+    expect(report.consistent).toBe(false);
+    expect(report.violations[0]).toMatch(/^h\(A\) = 223\.61 overestimates the true cost 3$/);
+  });
+
+  it('tells admissible but inconsistent heuristics apart', () => {
+    // Every estimate is at most the true cost, but h drops by 2 across the B–C edge of weight 1.
+    const h = createHeuristic('custom', grid, 'D', { values: { A: 0, B: 2, C: 0 } });
+    const report = checkHeuristic(grid, true, 'D', h);
+    expect(report).toMatchObject({ admissible: true, consistent: false });
+    expect(report.violations).toEqual(['h(B) = 2 > 1 + h(C) = 1']);
+  });
+
+  it('only overestimates against reachable costs in directed graphs', () => {
+    const h = createHeuristic('custom', grid, 'A', { values: { D: 100 } });
+    expect(checkHeuristic(grid, true, 'A', h).admissible).toBe(true);
+    expect(checkHeuristic(grid, false, 'A', h).admissible).toBe(false);
+  });
+});
+
+describe('A* with heuristics', () => {
+  it.each(['zero', 'scaled-euclidean', 'custom'] as HeuristicKind[])(
+    'finds the optimal path with the admissible %s heuristic',
+    async (kind) => {
+      const { result } = await new AlgorithmRunner(grid).runAStar('A', 'D', kind, { A: 3, B: 2, C: 1 });
+      expect(result).toMatchObject({ path: ['A', 'B', 'C', 'D'], totalDistance: 3 });
+    }
+  );
+
+  it.each(['euclidean', 'manhattan', 'chebyshev'] as HeuristicKind[])(
+    'can miss the optimal path when the %s heuristic overestimates',
+    async (kind) => {
+      const { result } = await new AlgorithmRunner(grid).runAStar('A', 'D', kind);
+      expect(result).toMatchObject({ path: ['A', 'D'], totalDistance: 5 });
+    }
+  );
+
+  it('records g, h and f per node', async () => {
+    const { steps } = await new AlgorithmRunner(grid).runAStar('A', 'D', 'custom', { A: 3, B: 2, C: 1 });
+    expect(steps[0].matrix).toEqual({
+      A: { g: 0, h: 3, f: 3 },
+      B: { g: Infinity, h: 2, f: Infinity },
+      C: { g: Infinity, h: 1, f: Infinity },
+      D: { g: Infinity, h: 0, f: Infinity },
+    });
+    expect(formatMatrix(steps[0].matrix)).toMatch(/^A: g=0, h=3, f=3; B: g=∞, h=2, f=∞;/);
+  });
+});
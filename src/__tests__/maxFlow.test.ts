@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { GraphData, MaxFlowResult } from '../lib/graph-types';
+import { AlgorithmRunner } from '../lib/algorithms';
+import { graphStateAtStep } from '../lib/step-timeline';
+
+// The classic CLRS-style network: max flow 23 from s to t.
+const network: GraphData = {
+  nodes: ['s', 'a', 'b', 'c', 'd', 't'].map(id => ({ id, label: id })),
+  edges: [
+    { id: 'sa', source: 's', target: 'a', weight: 16, isActive: false },
+    { id: 'sb', source: 's', target: 'b', weight: 13, isActive: false },
+    { id: 'ba', source: 'b', target: 'a', weight: 4, isActive: false },
+    { id: 'ac', source: 'a', target: 'c', weight: 12, isActive: false },
+    { id: 'cb', source: 'c', target: 'b', weight: 9, isActive: false },
+    { id: 'bd', source: 'b', target: 'd', weight: 14, isActive: false },
+    { id: 'dc', source: 'd', target: 'c', weight: 7, isActive: false },
+    { id: 'ct', source: 'c', target: 't', weight: 20, isActive: false },
+    { id: 'dt', source: 'd', target: 't', weight: 4, isActive: false },
+  ],
+};
+
+describe('Max flow visualisation', () => {
+  it('ends with the flow of every edge on the graph', async () => {
+    const { steps, result } = await new AlgorithmRunner(network).runFordFulkerson('s', 't');
+    const final = graphStateAtStep(steps, steps.length - 1);
+    expect((result as MaxFlowResult).maxFlow).toBe(23);
+    expect(Object.fromEntries(final.edges.map(e => [e.id, e.flow]))).toEqual((result as MaxFlowResult).flows);
+  });
+
+  it('conserves flow at every inner node', async () => {
+    const { flows } = (await new AlgorithmRunner(network).runFordFulkerson('s', 't')).result as MaxFlowResult;
+    for (const node of ['a', 'b', 'c', 'd']) {
+      const balance = network.edges.reduce(
+        (sum, e) => sum + (e.target === node ? flows[e.id] : 0) - (e.source === node ? flows[e.id] : 0),
+        0
+      );
+      expect(balance).toBe(0);
+    }
+  });
+
+  it('highlights each augmenting path before pushing flow along it', async () => {
+    const { steps } = await new AlgorithmRunner(network).runFordFulkerson('s', 't');
+    const augmenting = steps.filter(s => s.description.startsWith('Augmenting path'));
+    expect(augmenting.length).toBeGreaterThan(0);
+    for (const step of augmenting) {
+      expect(step.edgeUpdates.length).toBe(step.list.length - 1);
+      expect(step.edgeUpdates.every(u => u.isPath)).toBe(true);
+    }
+    const final = graphStateAtStep(steps, steps.length - 1);
+    expect(final.edges.some(e => e.isPath)).toBe(false);
+  });
+
+  it('shows a minimum cut whose capacity equals the max flow', async () => {
+    const { steps, result } = await new AlgorithmRunner(network).runFordFulkerson('s', 't');
+    const { minCut, maxFlow } = result as MaxFlowResult;
+    expect(minCut).toEqual({ sourceSide: ['s', 'a', 'b', 'd'], edges: ['ac', 'dc', 'dt'], capacity: maxFlow });
+    const final = graphStateAtStep(steps, steps.length - 1);
+    expect(final.nodes.filter(n => n.isSourceSide).map(n => n.id)).toEqual(minCut.sourceSide);
+    expect(final.edges.filter(e => e.isCut).map(e => e.id)).toEqual(minCut.edges);
+  });
+
+  it('cuts undirected edges crossing in either direction', async () => {
+    const { result } = await new AlgorithmRunner(network, { isDirected: false }).runFordFulkerson('s', 't');
+    const { minCut, maxFlow } = result as MaxFlowResult;
+    expect(minCut.capacity).toBe(maxFlow);
+  });
+
+  it('highlights the parallel edge that still has room on each augmenting path', async () => {
+    const parallel: GraphData = {
+      nodes: ['a', 'b', 'c', 'd'].map(id => ({ id, label: id })),
+      edges: [
+        { id: 'ab1', source: 'a', target: 'b', weight: 1, isActive: false },
+        { id: 'ab2', source: 'a', target: 'b', weight: 5, isActive: false },
+        { id: 'bd', source: 'b', target: 'd', weight: 1, isActive: false },
+        { id: 'bc', source: 'b', target: 'c', weight: 1, isActive: false },
+        { id: 'cd', source: 'c', target: 'd', weight: 1, isActive: false },
+      ],
+    };
+    const { steps, result } = await new AlgorithmRunner(parallel).runFordFulkerson('a', 'd');
+    expect((result as MaxFlowResult).maxFlow).toBe(2);
+    const highlighted = steps
+      .filter(step => step.description.startsWith('Augmenting path'))
+      .map(step => step.edgeUpdates.filter(u => u.isPath).map(u => u.id));
+    // The first path fills ab1, so the second one runs along ab2.
+    expect(highlighted).toEqual([['ab1', 'bd'], ['ab2', 'bc', 'cd']]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { GraphData } from '../lib/graph-types';
+import { AlgorithmRunner } from '../lib/algorithms';
+import { runAlgorithm } from '../lib/algorithm-registry';
+import { graphStateAtStep } from '../lib/step-timeline';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+    { id: 'C', label: 'C' },
+    { id: 'D', label: 'D' },
+    { id: 'E', label: 'E' },
+  ],
+  edges: [
+    { id: 'e1', source: 'A', target: 'B', weight: 1, isActive: false },
+    { id: 'e2', source: 'B', target: 'C', weight: 2, isActive: false },
+    { id: 'e3', source: 'A', target: 'C', weight: 5, isActive: false },
+    { id: 'e4', source: 'C', target: 'D', weight: 1, isActive: false },
+    { id: 'e5', source: 'D', target: 'E', weight: 10, isActive: false },
+  ],
+};
+
+describe('Path tracing', () => {
+  it.each(['runDijkstra', 'runBellmanFord', 'runAStar'] as const)('%s ends with the path nodes and edges highlighted', async (method) => {
+    const { steps } = await new AlgorithmRunner(graph)[method]('A', 'D');
+    const final = graphStateAtStep(steps, steps.length - 1);
+    expect(final.nodes.filter(n => n.state === 'path').map(n => n.id)).toEqual(['A', 'B', 'C', 'D']);
+    expect(final.edges.filter(e => e.isPath).map(e => e.id)).toEqual(['e1', 'e2', 'e4']);
+  });
+
+  it('traces the path one node at a time', async () => {
+    const { steps } = await new AlgorithmRunner(graph).runDijkstra('A', 'D');
+    const trace = steps.filter(s => s.description.startsWith('Trace path'));
+    expect(trace.map(s => s.result)).toEqual([['A'], ['A', 'B'], ['A', 'B', 'C'], ['A', 'B', 'C', 'D']]);
+  });
+
+  it('does not trace anything without an end node', async () => {
+    const { steps } = await new AlgorithmRunner(graph).runDijkstra('A');
+    expect(steps.some(s => s.description.startsWith('Trace path'))).toBe(false);
+  });
+
+  it('stops Dijkstra early once the end node is settled', async () => {
+    const full = await runAlgorithm('dijkstra', graph, { start: 'A', end: 'C' });
+    const early = await runAlgorithm('dijkstra', graph, { start: 'A', end: 'C', stopAtTarget: true });
+    expect(early.steps.length).toBeLessThan(full.steps.length);
+    expect(early.result).toMatchObject({ path: ['A', 'B', 'C'], totalDistance: 3 });
+    expect(early.result).not.toHaveProperty('distances.E', 14);
+  });
+});
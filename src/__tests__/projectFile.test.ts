@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_PROJECT_VERSION,
+  PROJECT_FORMAT,
+  ProjectFileError,
+  ProjectState,
+  createProject,
+  migrateProject,
+  parseProject,
+  serializeProject,
+} from '../lib/project-file';
+
+const state: ProjectState = {
+  name: 'Triangle',
+  graphData: {
+    nodes: [
+      { id: 'A', label: 'A', x: 100, y: 100, state: 'visited', distance: 0 },
+      { id: 'B', label: 'B', x: 300, y: 100, state: 'current' },
+      { id: 'C', label: 'C', x: 200, y: 250 },
+    ],
+    edges: [
+      { id: 'e1', source: 'A', target: 'B', weight: 4, isActive: true, inTree: true },
+      { id: 'e2', source: 'B', target: 'C', isActive: false },
+    ],
+  },
+  isDirected: true,
+  algorithm: 'a-star',
+  params: { start: 'A', end: 'C', heuristic: 'custom', heuristicValues: { A: 2 } },
+  speed: 70,
+};
+
+const documentWith = (patch: (doc: ReturnType<typeof createProject>) => void): string => {
+  const doc = JSON.parse(serializeProject(state));
+  patch(doc);
+  return JSON.stringify(doc);
+};
+
+const issuesOf = (text: string): string[] => {
+  try {
+    parseProject(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProjectFileError);
+    return (error as ProjectFileError).issues;
+  }
+  throw new Error('expected the project to be rejected');
+};
+
+describe('Project files', () => {
+  it('round-trips the graph and algorithm configuration', () => {
+    const opened = parseProject(serializeProject(state));
+    expect(opened).toMatchObject({ name: 'Triangle', isDirected: true, algorithm: 'a-star', params: state.params, speed: 70 });
+    expect(opened.graphData.nodes.map(({ id, x, y }) => ({ id, x, y }))).toEqual(state.graphData.nodes.map(({ id, x, y }) => ({ id, x, y })));
+    expect(opened.graphData.edges.map(e => e.weight)).toEqual([4, undefined]);
+  });
+
+  it('does not save algorithm state', () => {
+    const doc = createProject(state);
+    expect(doc).toMatchObject({ format: PROJECT_FORMAT, version: CURRENT_PROJECT_VERSION });
+    expect(doc.graph.nodes[0]).toEqual({ id: 'A', label: 'A', x: 100, y: 100 });
+    expect(doc.graph.edges[0]).toEqual({ id: 'e1', source: 'A', target: 'B', weight: 4 });
+    const opened = parseProject(serializeProject(state));
+    expect(opened.graphData.nodes.every(n => n.state === 'default')).toBe(true);
+    expect(opened.graphData.edges.every(e => !e.isActive && !e.inTree)).toBe(true);
+  });
+
+  it('rejects text that is not a project', () => {
+    expect(() => parseProject('{ nope')).toThrow(/not valid JSON/);
+    expect(() => parseProject('[]')).toThrow('This is not a graph project file.');
+    expect(() => parseProject(JSON.stringify({ nodes: [] }))).toThrow('This is not a graph project file.');
+  });
+
+  it('reports dangling edge endpoints and duplicate ids with their location', () => {
+    const text = documentWith(doc => {
+      doc.graph.nodes.push({ id: 'A', label: 'A2', x: 0, y: 0 });
+      doc.graph.edges.push({ id: 'e1', source: 'C', target: 'Z' });
+    });
+    expect(issuesOf(text)).toEqual([
+      'graph.nodes.3.id: Duplicate node id "A"',
+      'graph.edges.2.id: Duplicate edge id "e1"',
+      'graph.edges.2.target: Edge "e1" points to missing node "Z"',
+    ]);
+  });
+
+  it('reports wrong field types, unknown fields and unknown algorithms', () => {
+    const text = documentWith(doc => {
+      (doc.graph.nodes[0] as Record<string, unknown>).x = 'left';
+      (doc.graph.edges[0] as Record<string, unknown>).colour = 'red';
+      (doc.algorithm as Record<string, unknown>).id = 'quicksort';
+    });
+    const issues = issuesOf(text);
+    expect(issues).toContain('graph.nodes.0.x: Expected number, received string');
+    expect(issues.some(i => i.startsWith('graph.edges.0: Unrecognized key') && i.includes('colour'))).toBe(true);
+    expect(issues).toContain('algorithm.id: Unknown algorithm "quicksort"');
+  });
+
+  it('refuses files from a newer version', () => {
+    const text = documentWith(doc => { (doc as Record<string, unknown>).version = CURRENT_PROJECT_VERSION + 1; });
+    expect(() => parseProject(text)).toThrow(/saved by a newer version/);
+  });
+
+  it('migrates old documents one version at a time', () => {
+    const migrations = {
+      1: (doc: Record<string, unknown>) => ({ ...doc, renamed: doc.old }),
+      2: (doc: Record<string, unknown>) => ({ ...doc, added: true }),
+    };
+    expect(migrateProject({ version: 1, old: 'x' }, migrations, 3)).toEqual({ version: 3, old: 'x', renamed: 'x', added: true });
+    expect(migrateProject({ version: 2 }, migrations, 3)).toEqual({ version: 3, added: true });
+    expect(() => migrateProject({ version: 1 }, {}, 2)).toThrow('No migration from project version 1.');
+    expect(() => migrateProject({ version: 'one' })).toThrow(ProjectFileError);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_SHARE_URL_LENGTH, ShareLinkError, createShareUrl, decodeSharedView, encodeSharedView } from '../lib/share-link';
+import { ProjectState } from '../lib/project-file';
+import { runAlgorithm } from '../lib/algorithm-registry';
+
+const project: ProjectState = {
+  name: 'Exercise 3',
+  graphData: {
+    nodes: [
+      { id: 'node-1700000000000-0', label: 'A', x: 100.4, y: 200, state: 'visited' },
+      { id: 'node-1700000000000-1', label: 'B', x: 300, y: 200 },
+      { id: 'node-1700000000000-2', label: 'C', x: 200, y: 350.6 },
+    ],
+    edges: [
+      { id: 'edge-1700000000000-0', source: 'node-1700000000000-0', target: 'node-1700000000000-1', weight: 4, isActive: true },
+      { id: 'edge-1700000000000-1', source: 'node-1700000000000-1', target: 'node-1700000000000-2', weight: -1.5, isActive: false },
+      { id: 'edge-1700000000000-2', source: 'node-1700000000000-0', target: 'node-1700000000000-2', isActive: false },
+    ],
+  },
+  isDirected: true,
+  algorithm: 'a-star',
+  params: {
+    start: 'node-1700000000000-0',
+    end: 'node-1700000000000-2',
+    heuristic: 'custom',
+    heuristicValues: { 'node-1700000000000-1': 2 },
+  },
+  speed: 70,
+};
+
+// Compresses arbitrary JSON the way the app does, for payloads the app would never write.
+const payloadOf = async (value: unknown) => {
+  const stream = new Blob([JSON.stringify(value)]).stream().pipeThrough(new CompressionStream('deflate'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+describe('share links', () => {
+  it('round-trips the graph, directedness, algorithm, parameters and step', async () => {
+    const payload = await encodeSharedView({ project, step: 4 });
+    expect(payload).toMatch(/^[\w-]+$/);
+    const { project: decoded, step } = await decodeSharedView(payload);
+
+    expect(step).toBe(4);
+    expect(decoded.name).toBe('Exercise 3');
+    expect(decoded.isDirected).toBe(true);
+    expect(decoded.algorithm).toBe('a-star');
+    expect(decoded.speed).toBe(70);
+    expect(decoded.graphData.nodes.map(n => [n.label, n.x, n.y, n.state])).toEqual([
+      ['A', 100, 200, 'default'],
+      ['B', 300, 200, 'default'],
+      ['C', 200, 351, 'default'],
+    ]);
+    const label = Object.fromEntries(decoded.graphData.nodes.map(n => [n.id, n.label]));
+    expect(decoded.graphData.edges.map(e => [label[e.source], label[e.target], e.weight, e.isActive])).toEqual([
+      ['A', 'B', 4, false],
+      ['B', 'C', -1.5, false],
+      ['A', 'C', undefined, false],
+    ]);
+    expect(label[decoded.params.start]).toBe('A');
+    expect(label[decoded.params.end]).toBe('C');
+    expect(decoded.params.heuristic).toBe('custom');
+    expect(Object.entries(decoded.params.heuristicValues).map(([id, value]) => [label[id], value])).toEqual([['B', 2]]);
+  });
+
+  it('leaves the step out when no run is shown', async () => {
+    const { step } = await decodeSharedView(await encodeSharedView({ project }));
+    expect(step).toBeUndefined();
+  });
+
+  it('reproduces the same run from the decoded view', async () => {
+    const { project: decoded } = await decodeSharedView(await encodeSharedView({ project: { ...project, params: { ...project.params, heuristic: 'zero' } } }));
+    const original = await runAlgorithm(project.algorithm, project.graphData, { ...project.params, heuristic: 'zero' }, { isDirected: true });
+    const replayed = await runAlgorithm(decoded.algorithm, decoded.graphData, decoded.params, { isDirected: true });
+    expect(replayed.steps.map(s => s.description)).toEqual(original.steps.map(s => s.description));
+  });
+
+  it('keeps links short for classroom-sized graphs', async () => {
+    const nodes = Array.from({ length: 30 }, (_, i) => ({ id: `node-1700000000000-${i}`, label: String.fromCharCode(65 + (i % 26)) + (i >= 26 ? '1' : ''), x: 100 + (i % 6) * 150, y: 100 + Math.floor(i / 6) * 120 }));
+    const edges = nodes.slice(1).map((node, i) => ({ id: `edge-${i}`, source: nodes[i].id, target: node.id, weight: (i % 9) + 1, isActive: false }));
+    const url = await createShareUrl({ project: { ...project, graphData: { nodes, edges }, params: {} } }, 'https://example.org');
+    expect(url.startsWith('https://example.org/visualize#')).toBe(true);
+    expect(url.length).toBeLessThan(1000);
+  });
+
+  it('refuses graphs too large for a link with a clear message', async () => {
+    // Random labels and weights compress poorly.
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647);
+    const nodes = Array.from({ length: 2000 }, (_, i) => ({ id: `n-${i}`, label: random().toString(36), x: random() % 1200, y: random() % 800 }));
+    const edges = nodes.slice(1).map((node, i) => ({ id: `e-${i}`, source: nodes[random() % (i + 1)].id, target: node.id, weight: random() % 1000, isActive: false }));
+    const share = createShareUrl({ project: { ...project, graphData: { nodes, edges }, params: {} } }, 'https://example.org');
+    await expect(share).rejects.toThrow(ShareLinkError);
+    await expect(share).rejects.toThrow(new RegExp(`too large to share as a link .*limited to ${MAX_SHARE_URL_LENGTH.toLocaleString('en-US')}.*project file`));
+  });
+
+  it('reports damaged, newer and invalid links', async () => {
+    const payload = await encodeSharedView({ project });
+    await expect(decodeSharedView(payload.slice(0, payload.length / 2))).rejects.toThrow(/damaged or incomplete/);
+    await expect(decodeSharedView('not a link!')).rejects.toThrow(ShareLinkError);
+    await expect(decodeSharedView(await payloadOf({ v: 2 }))).rejects.toThrow(/newer version/);
+
+    const valid = { v: 1, d: 0, n: [['A', 0, 0], ['B', 10, 0]], e: [[0, 1]], a: 'bfs', p: { start: 0 }, sp: 50 };
+    await expect(decodeSharedView(await payloadOf(valid))).resolves.toBeDefined();
+    await expect(decodeSharedView(await payloadOf({ ...valid, a: 'quicksort' }))).rejects.toThrow(/Unknown algorithm "quicksort"/);
+    await expect(decodeSharedView(await payloadOf({ ...valid, e: [[0, 5]] }))).rejects.toThrow(/Edge 1 points to a missing node/);
+    await expect(decodeSharedView(await payloadOf({ ...valid, p: { start: 9 } }))).rejects.toThrow(/start node does not exist/);
+  });
+});
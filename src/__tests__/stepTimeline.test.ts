@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { AlgorithmStep, GraphData } from '../lib/graph-types';
+import { AlgorithmRunner } from '../lib/algorithms';
+import {
+  SNAPSHOT_INTERVAL,
+  applyStepUpdates,
+  attachSnapshots,
+  graphStateAtStep,
+  graphStructureKey,
+  resetGraphState,
+  restoreGraphState,
+} from '../lib/step-timeline';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+    { id: 'C', label: 'C' },
+  ],
+  edges: [
+    { id: 'e1', source: 'A', target: 'B', weight: 1, isActive: false },
+    { id: 'e2', source: 'B', target: 'C', weight: 2, isActive: false },
+  ],
+};
+
+// Replays every step from the start: slow, but obviously correct.
+function replayTo(base: GraphData, steps: AlgorithmStep[], index: number): GraphData {
+  return steps.slice(0, index + 1).reduce(applyStepUpdates, base);
+}
+
+function makeLongRun(length: number): AlgorithmStep[] {
+  return Array.from({ length }, (_, i) => ({
+    id: i,
+    description: `step ${i}`,
+    nodeUpdates: [{ id: ['A', 'B', 'C'][i % 3], state: i % 2 === 0 ? 'visited' as const : 'current' as const, distance: i }],
+    edgeUpdates: [{ id: i % 5 === 0 ? 'e1' : 'e2', isActive: i % 4 !== 0 }],
+  }));
+}
+
+describe('Step timeline', () => {
+  it('snapshots step 0 and every interval after it', () => {
+    const steps = attachSnapshots(resetGraphState(graph), makeLongRun(100));
+    steps.forEach((step, i) => expect(Boolean(step.snapshot)).toBe(i % SNAPSHOT_INTERVAL === 0));
+  });
+
+  it('rebuilds the same state as a full replay at every index', () => {
+    const base = resetGraphState(graph);
+    const steps = attachSnapshots(base, makeLongRun(200));
+    for (const index of [0, 1, 31, 32, 33, 63, 64, 150, 199]) {
+      expect(graphStateAtStep(steps, index)).toEqual(replayTo(base, steps, index));
+    }
+  });
+
+  it('seeks backwards and forwards on long runs', () => {
+    const base = resetGraphState(graph);
+    const steps = attachSnapshots(base, makeLongRun(5000));
+    for (const index of [4999, 17, 2500, 2499, 0, 4096]) {
+      expect(graphStateAtStep(steps, index)).toEqual(replayTo(base, steps, index));
+    }
+  });
+
+  it('un-visits nodes when stepping back to the first step of a BFS run', async () => {
+    const execution = await new AlgorithmRunner(graph).runBFS('A');
+    const last = graphStateAtStep(execution.steps, execution.steps.length - 1);
+    expect(last.nodes.every(n => n.state === 'visited')).toBe(true);
+
+    const first = graphStateAtStep(execution.steps, 0);
+    expect(first.nodes.map(n => n.state)).toEqual(['current', 'default', 'default']);
+    expect(first.edges.every(e => !e.isActive)).toBe(true);
+  });
+
+  it('restores algorithm fields without touching editor fields', () => {
+    const moved: GraphData = {
+      ...graph,
+      nodes: graph.nodes.map(n => ({ ...n, x: 10, y: 20, state: 'visited' as const })),
+    };
+    const restored = restoreGraphState(moved, resetGraphState(graph));
+    expect(restored.nodes.every(n => n.state === 'default' && n.x === 10 && n.y === 20)).toBe(true);
+  });
+
+  it('keys the graph by what the editor owns, ignoring painted state', () => {
+    const painted = applyStepUpdates(graph, makeLongRun(1)[0]);
+    expect(graphStructureKey(painted)).toBe(graphStructureKey(graph));
+    const reweighted: GraphData = { ...graph, edges: graph.edges.map(e => ({ ...e, weight: 7 })) };
+    expect(graphStructureKey(reweighted)).not.toBe(graphStructureKey(graph));
+  });
+});
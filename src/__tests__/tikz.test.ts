@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { escapeLatex, matrixToTabular, parseStepSelection, toTikz, toTikzSnapshots } from '../lib/tikz';
+import { AlgorithmStep, GraphData } from '../lib/graph-types';
+import { attachSnapshots } from '../lib/step-timeline';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'a', label: 'A', x: 100, y: 100 },
+    { id: 'b', label: 'B_1', x: 300, y: 100 },
+    { id: 'c', label: 'C', x: 300, y: 200, state: 'visited' },
+  ],
+  edges: [
+    { id: 'ab', source: 'a', target: 'b', weight: 4, isActive: false },
+    { id: 'bc', source: 'b', target: 'c', weight: 2.5, isActive: false, isPath: true },
+  ],
+};
+
+describe('TikZ export', () => {
+  it('scales canvas positions and flips the y axis', () => {
+    const tikz = toTikz(graph, { isDirected: false });
+    expect(tikz).toMatch(/^\\begin\{tikzpicture\}\[/);
+    expect(tikz).toContain('\\node[default vertex] (n0) at (0, 0) {A};');
+    expect(tikz).toContain('\\node[default vertex] (n1) at (2, 0) {B\\_1};');
+    expect(tikz).toContain('\\node[visited vertex] (n2) at (2, -1) {C};');
+    expect(toTikz(graph, { isDirected: false, scale: 0.02 })).toContain('(n2) at (4, -2)');
+  });
+
+  it('draws weights as edge labels and styles edges by state', () => {
+    const tikz = toTikz(graph, { isDirected: false });
+    expect(tikz).toContain('\\draw[link] (n0) to node[weight] {4} (n1);');
+    expect(tikz).toContain('\\draw[link, path link] (n1) to node[weight] {2.5} (n2);');
+    expect(toTikz(graph, { isDirected: false, showWeights: false })).toContain('\\draw[link] (n0) to (n1);');
+  });
+
+  it('adds arrow tips when directed and bends opposite edges apart', () => {
+    const directed = { ...graph, edges: [...graph.edges, { id: 'ba', source: 'b', target: 'a', weight: 1, isActive: false }] };
+    const tikz = toTikz(directed, { isDirected: true });
+    expect(tikz).toContain('link/.style={draw=graphedge, thick, ->, >=stealth}');
+    // Each bends to its own right, as on the canvas, so the pair ends up on opposite sides.
+    expect(tikz).toContain('\\draw[link, bend right=15] (n0) to node[weight] {4} (n1);');
+    expect(tikz).toContain('\\draw[link, bend right=15] (n1) to node[weight] {1} (n0);');
+    expect(toTikz(graph, { isDirected: false })).not.toContain('->');
+  });
+
+  it('spreads parallel edges of a multigraph apart like the canvas does', () => {
+    const multi: GraphData = {
+      ...graph,
+      edges: [1, 2, 3].map(i => ({ id: `ab${i}`, source: 'a', target: 'b', weight: i, isActive: false })),
+    };
+    const tikz = toTikz(multi, { isDirected: false });
+    expect(tikz).toContain('\\draw[link, bend right=30] (n0) to node[weight] {1} (n1);');
+    expect(tikz).toContain('\\draw[link] (n0) to node[weight] {2} (n1);');
+    expect(tikz).toContain('\\draw[link, bend left=30] (n0) to node[weight] {3} (n1);');
+  });
+
+  it('nests several self-loops on one node on its free side', () => {
+    const looped: GraphData = {
+      nodes: [{ id: 'a', label: 'A', x: 100, y: 100 }, { id: 'b', label: 'B', x: 300, y: 100 }],
+      edges: [
+        { id: 'ab', source: 'a', target: 'b', isActive: false },
+        { id: 'aa1', source: 'a', target: 'a', isActive: false },
+        { id: 'aa2', source: 'a', target: 'a', isActive: false },
+      ],
+    };
+    const loops = toTikz(looped, { isDirected: false }).split('\n').filter(line => line.includes('loop'));
+    const parsed = loops.map(line => /to\[out=(-?\d+), in=(-?\d+), loop, min distance=([\d.]+)cm\] \(n0\);$/.exec(line));
+    expect(parsed.every(Boolean)).toBe(true);
+    // B is to the right, so both loops sit on the left: leaving below, returning above.
+    for (const [, out, into] of parsed) {
+      expect(Math.abs(Number(out))).toBeGreaterThan(90);
+      expect(Number(out)).toBeLessThan(0);
+      expect(Number(into)).toBeGreaterThan(90);
+    }
+    expect(Number(parsed[1][3])).toBeGreaterThan(Number(parsed[0][3]));
+  });
+
+  it('defines the state colours inside the picture', () => {
+    const tikz = toTikz(graph, { isDirected: false });
+    expect(tikz).toContain('\\definecolor{graphvisited}{HTML}{');
+    expect(tikz).toContain('visited vertex/.style={vertex, fill=graphvisited}');
+  });
+
+  it('wraps the picture in a standalone document on request', () => {
+    const tikz = toTikz(graph, { isDirected: false, document: true });
+    expect(tikz).toMatch(/^\\documentclass\[border=4pt\]\{standalone\}/);
+    expect(tikz).toContain('\\usepackage{tikz}');
+    expect(tikz.trim()).toMatch(/\\end\{tikzpicture\}\n\\end\{document\}$/);
+  });
+
+  it('escapes LaTeX specials and common symbols', () => {
+    expect(escapeLatex('50% of a_b & {c} #1 → ∞')).toBe('50\\% of a\\_b \\& \\{c\\} \\#1 $\\to$ $\\infty$');
+    expect(escapeLatex('\\ ^ ~')).toBe('\\textbackslash{} \\textasciicircum{} \\textasciitilde{}');
+  });
+});
+
+describe('TikZ snapshots', () => {
+  const steps: AlgorithmStep[] = attachSnapshots(graph, [
+    { id: 0, description: 'Start at A', nodeUpdates: [{ id: 'a', state: 'current' }], edgeUpdates: [], matrix: { a: 0, b: Infinity, c: Infinity } },
+    { id: 1, description: 'Relax A → B', nodeUpdates: [{ id: 'a', state: 'visited' }], edgeUpdates: [{ id: 'ab', isActive: true }], matrix: { a: 0, b: 4, c: Infinity } },
+    { id: 2, description: 'Done', nodeUpdates: [], edgeUpdates: [] },
+  ]);
+
+  it('writes one figure per chosen step with the graph as it was then', () => {
+    const latex = toTikzSnapshots(graph, { steps }, [0, 1], { isDirected: false });
+    expect(latex.match(/\\begin\{figure\}/g)).toHaveLength(2);
+    expect(latex).toContain('\\caption{Step 1 of 3: Start at A}');
+    expect(latex).toContain('\\caption{Step 2 of 3: Relax A $\\to$ B}');
+    const [first, second] = latex.split('\\end{figure}');
+    expect(first).toContain('\\node[current vertex] (n0)');
+    expect(second).toContain('\\node[visited vertex] (n0)');
+    expect(second).toContain('\\draw[link, active link] (n0)');
+  });
+
+  it('adds the step matrix as a tabular with node labels', () => {
+    const latex = toTikzSnapshots(graph, { steps }, [1, 2], { isDirected: false, includeTables: true });
+    expect(latex).toContain('  A & B\\_1 & C \\\\ \\hline');
+    expect(latex).toContain('  0 & 4 & $\\infty$ \\\\');
+    // The last step has no matrix, so only one table.
+    expect(latex.match(/\\begin\{tabular\}/g)).toHaveLength(1);
+  });
+
+  it('skips out-of-range steps and wraps an article on request', () => {
+    const latex = toTikzSnapshots(graph, { steps }, [0, 1, 2, 7], { isDirected: false, document: true });
+    expect(latex).toMatch(/^\\documentclass\{article\}/);
+    expect(latex.match(/\\begin\{figure\}/g)).toHaveLength(3);
+    expect(latex).toContain('\\clearpage');
+  });
+
+  it('formats nested matrices as rows by columns', () => {
+    const table = matrixToTabular({ a: { a: 0, b: 3 }, b: { a: Infinity, b: 0 } }, key => key.toUpperCase());
+    expect(table).toEqual([
+      '\\begin{tabular}{l|rr}',
+      '   & A & B \\\\ \\hline',
+      '  A & 0 & 3 \\\\',
+      '  B & $\\infty$ & 0 \\\\',
+      '\\end{tabular}',
+    ]);
+  });
+
+  it('parses step selections', () => {
+    expect(parseStepSelection('1, 4-6, 5, 10', 10)).toEqual([0, 3, 4, 5, 9]);
+    expect(parseStepSelection('', 10)).toEqual([]);
+    expect(parseStepSelection('0', 10)).toBeNull();
+    expect(parseStepSelection('3-11', 10)).toBeNull();
+    expect(parseStepSelection('6-4', 10)).toBeNull();
+    expect(parseStepSelection('two', 10)).toBeNull();
+  });
+});
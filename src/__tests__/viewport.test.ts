@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_ZOOM, PAGE_RECT, containsRect, fitCamera, graphBounds, screenToWorld, visibleRect, worldToScreen, zoomAt } from '../lib/viewport';
+
+describe('viewport camera', () => {
+  it('maps screen and world coordinates both ways', () => {
+    const camera = { zoom: 2, x: 50, y: -20 };
+    expect(screenToWorld(camera, 250, 180)).toEqual({ x: 100, y: 100 });
+    expect(worldToScreen(camera, 100, 100)).toEqual({ x: 250, y: 180 });
+  });
+
+  it('zooms around the cursor, keeping the world point under it fixed', () => {
+    const camera = { zoom: 1, x: 0, y: 0 };
+    const zoomed = zoomAt(camera, 2, 300, 200);
+    expect(zoomed.zoom).toBe(2);
+    expect(screenToWorld(zoomed, 300, 200)).toEqual({ x: 300, y: 200 });
+    expect(zoomAt(zoomed, 100, 0, 0).zoom).toBe(MAX_ZOOM);
+  });
+
+  it('fits a box into the view, centred and padded', () => {
+    const camera = fitCamera(PAGE_RECT, 624, 824, 12);
+    expect(camera.zoom).toBe(0.5);
+    // The 600 × 400 page lands in the middle of the 824 px tall view.
+    expect(worldToScreen(camera, 0, 0)).toEqual({ x: 12, y: 212 });
+    expect(worldToScreen(camera, PAGE_RECT.width, PAGE_RECT.height)).toEqual({ x: 612, y: 612 });
+  });
+
+  it('does not blow up small graphs when fitting them', () => {
+    const bounds = graphBounds([{ id: 'a', label: 'A', x: 100, y: 100 }, { id: 'b', label: 'B', x: 160, y: 100 }], 25);
+    expect(bounds).toEqual({ x: 75, y: 75, width: 110, height: 50 });
+    expect(fitCamera(bounds, 1200, 800).zoom).toBe(2);
+    expect(graphBounds([], 25)).toBeNull();
+  });
+
+  it('reports what part of the world is visible', () => {
+    const visible = visibleRect({ zoom: 2, x: -200, y: -100 }, 800, 600);
+    expect(visible).toEqual({ x: 100, y: 50, width: 400, height: 300 });
+    expect(containsRect(visible, PAGE_RECT)).toBe(false);
+    expect(containsRect(visibleRect(fitCamera(PAGE_RECT, 800, 600), 800, 600), PAGE_RECT)).toBe(true);
+  });
+});
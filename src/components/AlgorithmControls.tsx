@@ -1,18 +1,37 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { Play, Pause, Square, RotateCcw, Settings, ChevronLeft, ChevronRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { GraphData, AlgorithmStep } from "@/lib/graph-types";
-import { AlgorithmRunner, getAlgorithmCode } from "@/lib/algorithms";
+import { AlgorithmExecution } from "@/lib/algorithms";
+import {
+  Algorithm,
+  AlgorithmInput,
+  AlgorithmRunParams,
+  algorithmIds,
+  algorithmInputLabels,
+  algorithms,
+  getAlgorithmDescription,
+  runAlgorithm,
+  algorithmRegistry,
+  resolveRunParams,
+  supportsGraph,
+  supportsMultigraph,
+  checkWeights,
+} from "@/lib/algorithm-registry";
+import { checkHeuristic, createHeuristic } from "@/lib/heuristics";
+import { AlgorithmOptionFields } from "@/components/AlgorithmOptionFields";
 import { graphTemplates } from "@/lib/graph-templates";
-import { CodeVisualization } from "./CodeVisualization";
+import { withCircularLayout } from "@/lib/graph-layout";
+import { LibraryEntry } from "@/lib/graph-library";
+import { needsMultigraph } from "@/lib/graph-edit";
+import { graphStateAtStep, graphStructureKey, resetGraphState, restoreGraphState } from "@/lib/step-timeline";
 
 
-export type Algorithm = 'bfs' | 'dfs' | 'dijkstra' | 'bellman-ford' | 'prim' | 'kruskal' | 'floyd-warshall';
 export type ExecutionState = 'idle' | 'running' | 'paused' | 'completed';
 
 interface AlgorithmControlsProps {
@@ -24,21 +43,24 @@ interface AlgorithmControlsProps {
   setAlgorithmSteps: (steps: AlgorithmStep[]) => void;
   currentStep: number;
   setCurrentStep: React.Dispatch<React.SetStateAction<number>>;
-  setAlgorithmExecution?: (exec: any) => void;
+  setAlgorithmExecution?: (exec: AlgorithmExecution) => void;
   isDirected: boolean;
-  setIsDirected: React.Dispatch<React.SetStateAction<boolean>>;
+  /** Replaces the graph with a template; an edit, unlike the playback updates through setGraphData. */
+  onLoadTemplate: (graphData: GraphData, isDirected?: boolean) => void;
+  showResidual: boolean;
+  setShowResidual: React.Dispatch<React.SetStateAction<boolean>>;
+  runParams: AlgorithmRunParams;
+  setRunParams: React.Dispatch<React.SetStateAction<AlgorithmRunParams>>;
+  speed: number;
+  setSpeed: (speed: number) => void;
+  /** Step-through mode: the run is stepped by hand instead of played. */
+  stepMode: boolean;
+  setStepMode: React.Dispatch<React.SetStateAction<boolean>>;
+  /** Graphs from the local library, offered next to the built-in templates. */
+  libraryEntries?: LibraryEntry[];
+  onOpenLibraryEntry?: (entry: LibraryEntry) => void;
 }
 
-const algorithms = {
-  'bfs': 'Breadth-First Search',
-  'dfs': 'Depth-First Search', 
-  'dijkstra': 'Dijkstra\'s Algorithm',
-  'bellman-ford': 'Bellman-Ford Algorithm',
-  'prim': 'Prim\'s Algorithm (MST)',
-  'kruskal': 'Kruskal\'s Algorithm (MST)',
-  'floyd-warshall': 'Floyd-Warshall Algorithm (All-Pairs Shortest Path)'
-};
-
 export const AlgorithmControls = ({
   graphData,
   setGraphData,
@@ -50,37 +72,53 @@ export const AlgorithmControls = ({
   setCurrentStep,
   setAlgorithmExecution,
   isDirected,
-  setIsDirected
+  onLoadTemplate,
+  showResidual,
+  setShowResidual,
+  runParams,
+  setRunParams,
+  speed,
+  setSpeed,
+  stepMode,
+  setStepMode,
+  libraryEntries = [],
+  onOpenLibraryEntry
 }: AlgorithmControlsProps) => {
   const [executionState, setExecutionState] = useState<ExecutionState>('idle');
-  const [speed, setSpeed] = useState([50]);
-  const [stepMode, setStepMode] = useState(false); // step-through toggle
-  const [startNode, setStartNode] = useState<string>('');
-  const [endNode, setEndNode] = useState<string>('');
   const [totalSteps, setTotalSteps] = useState(0);
   const [intervalId, setIntervalId] = useState<NodeJS.Timeout | null>(null);
   const { toast } = useToast();
 
-  const resetGraphState = () => {
-    setGraphData({
-      ...graphData,
-      nodes: graphData.nodes.map(node => ({ ...node, state: 'default', distance: undefined })),
-      edges: graphData.edges.map(edge => ({ ...edge, isActive: false }))
-    });
+  const clearGraphState = () => {
+    setGraphData(prev => resetGraphState(prev));
+  };
+
+  // Rebuilds the full graph state at `index`, so seeking backwards un-visits nodes and edges too.
+  const seekToStep = (steps: AlgorithmStep[], index: number) => {
+    if (steps.length === 0) return;
+    const state = graphStateAtStep(steps, index);
+    setGraphData(prev => restoreGraphState(prev, state));
+  };
+
+  const runSelectedAlgorithm = async (): Promise<AlgorithmExecution> => {
+    const execution = await runAlgorithm(selectedAlgorithm, graphData, runParams, { isDirected });
+    if (execution.warnings && execution.warnings.length > 0) {
+      toast({
+        title: "Some Steps Could Not Be Drawn",
+        description: execution.warnings.length === 1
+          ? execution.warnings[0]
+          : `${execution.warnings[0]} (and ${execution.warnings.length - 1} more)`,
+      });
+    }
+    return execution;
   };
 
-  const applyStep = (step: AlgorithmStep) => {
-    setGraphData(prev => ({
-      ...prev,
-      nodes: prev.nodes.map(node => {
-        const update = step.nodeUpdates?.find(u => u.id === node.id);
-        return update ? { ...node, ...update } : node;
-      }),
-      edges: prev.edges.map(edge => {
-        const update = step.edgeUpdates?.find(u => u.id === edge.id);
-        return update ? { ...edge, ...update } : edge;
-      })
-    }));
+  // Weights this algorithm cannot handle block the run; warnings are shown next to the algorithm instead.
+  const blockedByWeights = () => {
+    const issue = checkWeights(selectedAlgorithm, graphData, isDirected);
+    if (issue?.severity !== 'error') return false;
+    toast({ title: "Cannot Run Algorithm", description: issue.message, variant: "destructive" });
+    return true;
   };
 
   const handlePlay = async () => {
@@ -104,41 +142,16 @@ export const AlgorithmControls = ({
     }
 
     if (executionState === 'idle' || executionState === 'completed') {
-      resetGraphState();
-      
-      const runner = new AlgorithmRunner(graphData);
-      let execution;
+      if (blockedByWeights()) return;
+      clearGraphState();
       
       try {
-        if (selectedAlgorithm === 'bfs') {
-          const start = startNode || graphData.nodes[0].id;
-          execution = await runner.runBFS(start);
-        } else if (selectedAlgorithm === 'dijkstra') {
-          const start = startNode || graphData.nodes[0].id;
-          execution = await runner.runDijkstra(start);
-        } else if (selectedAlgorithm === 'prim') {
-          const start = startNode || graphData.nodes[0].id;
-          execution = await runner.runPrims(start);
-        } else if (selectedAlgorithm === 'kruskal') {
-          execution = await runner.runKruskals();
-        } else if (selectedAlgorithm === 'bellman-ford') {
-          const start = startNode || graphData.nodes[0].id;
-          execution = await runner.runBellmanFord(start);
-
-        } else if (selectedAlgorithm === 'floyd-warshall') {
-          execution = await runner.runFloydWarshall();
-        } else {
-          toast({
-            title: "Algorithm Not Implemented",
-            description: `${algorithms[selectedAlgorithm]} is coming soon!`,
-            variant: "destructive"
-          });
-          return;
-        }
+        const execution = await runSelectedAlgorithm();
 
   setAlgorithmSteps(execution.steps);
   setTotalSteps(execution.steps.length);
   setCurrentStep(0);
+  seekToStep(execution.steps, 0);
   setExecutionState('running');
   if (typeof setAlgorithmExecution === 'function') setAlgorithmExecution(execution);
         
@@ -153,7 +166,7 @@ export const AlgorithmControls = ({
             const nextStep = prev + 1;
             
             if (nextStep < execution.steps.length) {
-              applyStep(execution.steps[nextStep]);
+              seekToStep(execution.steps, nextStep);
               return nextStep;
             } else {
               setExecutionState('completed');
@@ -162,7 +175,7 @@ export const AlgorithmControls = ({
               return prev;
             }
           });
-        }, Math.max(100, 2000 - (speed[0] * 19)));
+        }, Math.max(100, 2000 - (speed * 19)));
         
         setIntervalId(stepInterval);
         
@@ -181,7 +194,7 @@ export const AlgorithmControls = ({
           const nextStep = prev + 1;
           
           if (nextStep < algorithmSteps.length) {
-            applyStep(algorithmSteps[nextStep]);
+            seekToStep(algorithmSteps, nextStep);
             return nextStep;
           } else {
             setExecutionState('completed');
@@ -190,7 +203,7 @@ export const AlgorithmControls = ({
             return prev;
           }
         });
-      }, Math.max(100, 2000 - (speed[0] * 19)));
+      }, Math.max(100, 2000 - (speed * 19)));
       
       setIntervalId(stepInterval);
     }
@@ -215,7 +228,7 @@ export const AlgorithmControls = ({
     setCurrentStep(0);
     setTotalSteps(0);
     setAlgorithmSteps([]);
-    resetGraphState();
+    clearGraphState();
   };
 
   const handleReset = () => {
@@ -228,9 +241,8 @@ export const AlgorithmControls = ({
     setCurrentStep(0);
     setTotalSteps(0);
     setAlgorithmSteps([]);
-    setStartNode('');
-    setEndNode('');
-    resetGraphState();
+    setRunParams({});
+    clearGraphState();
   };
 
   // Update interval speed when speed changes
@@ -243,7 +255,7 @@ export const AlgorithmControls = ({
           const nextStep = prev + 1;
           
           if (nextStep < algorithmSteps.length) {
-            applyStep(algorithmSteps[nextStep]);
+            seekToStep(algorithmSteps, nextStep);
             return nextStep;
           } else {
             setExecutionState('completed');
@@ -252,7 +264,7 @@ export const AlgorithmControls = ({
             return prev;
           }
         });
-      }, Math.max(100, 2000 - (speed[0] * 19)));
+      }, Math.max(100, 2000 - (speed * 19)));
       
       setIntervalId(newInterval);
     }
@@ -267,20 +279,23 @@ export const AlgorithmControls = ({
     };
   }, [intervalId]);
 
-  const getAlgorithmDescription = (algorithm: Algorithm) => {
-    const descriptions = {
-      'bfs': 'Explores nodes level by level, guaranteeing shortest path in unweighted graphs.',
-      'dfs': 'Explores as far as possible along each branch before backtracking.',
-      'dijkstra': 'Finds shortest paths from source to all vertices in weighted graphs with non-negative weights.',
-      'bellman-ford': 'Finds shortest paths and detects negative cycles in weighted graphs.',
-      'prim': 'Builds minimum spanning tree by adding minimum weight edges.',
-      'kruskal': 'Builds minimum spanning tree by sorting edges and avoiding cycles.'
-    };
-    return descriptions[algorithm];
-  };
+  const algorithmInputs = Object.keys(algorithmRegistry[selectedAlgorithm].inputs) as AlgorithmInput[];
+
+  // The graph as last edited; playback repaints node and edge states without replacing it. Kept in
+  // state and updated during render when the structure changes, which React re-renders at once.
+  const structureKey = graphStructureKey(graphData);
+  const [structure, setStructure] = useState({ key: structureKey, graph: graphData });
+  if (structure.key !== structureKey) setStructure({ key: structureKey, graph: graphData });
+  const structuralGraph = structure.key === structureKey ? structure.graph : graphData;
+
+  // Checked live against the exact costs to the goal, so the warning follows edits to the graph.
+  const heuristicReport = useMemo(() => {
+    if (selectedAlgorithm !== 'a-star' || structuralGraph.nodes.length === 0) return null;
+    const { end, heuristic, heuristicValues } = resolveRunParams(algorithmRegistry[selectedAlgorithm], structuralGraph, runParams);
+    return checkHeuristic(structuralGraph, isDirected, end, createHeuristic(heuristic, structuralGraph, end, { values: heuristicValues }));
+  }, [selectedAlgorithm, structuralGraph, runParams, isDirected]);
 
-  const needsStartNode = ['bfs', 'dfs', 'dijkstra', 'bellman-ford', 'prim'].includes(selectedAlgorithm);
-  const needsEndNode = ['dijkstra', 'bellman-ford'].includes(selectedAlgorithm);
+  const weightIssue = checkWeights(selectedAlgorithm, graphData, isDirected);
 
   return (
     <div className="space-y-4">
@@ -296,38 +311,44 @@ export const AlgorithmControls = ({
           <div>
             <label className="text-sm font-medium mb-2 block">Choose Template Graph</label>
             <Select onValueChange={val => {
+              const entry = libraryEntries.find(e => `library:${e.id}` === val);
+              if (entry) {
+                onOpenLibraryEntry?.(entry);
+                return;
+              }
               const template = graphTemplates.find(t => t.name === val);
               if (template) {
-                // Assign default positions if missing
-                const N = template.data.nodes.length;
-                const centerX = 600, centerY = 400, radius = 250;
-                const nodesWithPos = template.data.nodes.map((node, i) =>
-                  (node.x !== undefined && node.y !== undefined)
-                    ? node
-                    : {
-                        ...node,
-                        x: centerX + radius * Math.cos((2 * Math.PI * i) / N),
-                        y: centerY + radius * Math.sin((2 * Math.PI * i) / N)
-                      }
+                onLoadTemplate(
+                  {
+                    nodes: withCircularLayout(template.data.nodes),
+                    edges: template.data.edges.map(e => ({ ...e }))
+                  },
+                  template.isDirected
                 );
-                setGraphData({
-                  nodes: nodesWithPos,
-                  edges: template.data.edges.map(e => ({ ...e }))
-                });
-                if (typeof setIsDirected === 'function' && typeof template.isDirected === 'boolean') {
-                  setIsDirected(template.isDirected);
-                }
               }
             }}>
               <SelectTrigger>
                 <SelectValue placeholder="Select a template graph (optional)" />
               </SelectTrigger>
               <SelectContent>
-                {graphTemplates.map(t => (
-                  <SelectItem key={t.name} value={t.name}>
-                    {t.name} {t.description ? `- ${t.description}` : ''}
-                  </SelectItem>
-                ))}
+                <SelectGroup>
+                  {libraryEntries.length > 0 && <SelectLabel>Templates</SelectLabel>}
+                  {graphTemplates.map(t => (
+                    <SelectItem key={t.name} value={t.name}>
+                      {t.name} {t.description ? `- ${t.description}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                {libraryEntries.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>My Graphs</SelectLabel>
+                    {libraryEntries.map(entry => (
+                      <SelectItem key={entry.id} value={`library:${entry.id}`}>
+                        {entry.name} {entry.tags.length > 0 ? `- ${entry.tags.join(', ')}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
               </SelectContent>
             </Select>
           </div>
@@ -338,9 +359,9 @@ export const AlgorithmControls = ({
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {Object.entries(algorithms).map(([key, name]) => (
-                  <SelectItem key={key} value={key}>
-                    {name}
+                {algorithmIds.map(id => (
+                  <SelectItem key={id} value={id}>
+                    {algorithms[id]}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -351,30 +372,33 @@ export const AlgorithmControls = ({
             {getAlgorithmDescription(selectedAlgorithm)}
           </div>
 
-          {needsStartNode && graphData.nodes.length > 0 && (
-            <div>
-              <label className="text-sm font-medium mb-2 block">Start Node</label>
-              <Select value={startNode} onValueChange={setStartNode}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select start node" />
-                </SelectTrigger>
-                <SelectContent>
-                  {graphData.nodes.map(node => (
-                    <SelectItem key={node.id} value={node.id}>
-                      Node {node.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+          {!supportsGraph(selectedAlgorithm, isDirected) && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {algorithms[selectedAlgorithm]} is not designed for {isDirected ? 'directed' : 'undirected'} graphs; results may be misleading.
             </div>
           )}
 
-          {needsEndNode && graphData.nodes.length > 0 && (
-            <div>
-              <label className="text-sm font-medium mb-2 block">End Node</label>
-              <Select value={endNode} onValueChange={setEndNode}>
+          {!supportsMultigraph(selectedAlgorithm) && needsMultigraph(graphData, isDirected) && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {algorithms[selectedAlgorithm]} does not handle self-loops or parallel edges; results may be misleading.
+            </div>
+          )}
+
+          {weightIssue && (
+            <div className={`text-sm p-3 rounded-md ${weightIssue.severity === 'error' ? 'text-destructive bg-destructive/10' : 'text-muted-foreground bg-muted/30 border border-destructive/30'}`}>
+              {weightIssue.message}
+            </div>
+          )}
+
+          {graphData.nodes.length > 0 && algorithmInputs.map(input => (
+            <div key={input}>
+              <label className="text-sm font-medium mb-2 block">{algorithmInputLabels[input]}</label>
+              <Select
+                value={runParams[input] ?? ''}
+                onValueChange={value => setRunParams(prev => ({ ...prev, [input]: value }))}
+              >
                 <SelectTrigger>
-                  <SelectValue placeholder="Select end node" />
+                  <SelectValue placeholder={`Select ${algorithmInputLabels[input].toLowerCase()}`} />
                 </SelectTrigger>
                 <SelectContent>
                   {graphData.nodes.map(node => (
@@ -385,6 +409,28 @@ export const AlgorithmControls = ({
                 </SelectContent>
               </Select>
             </div>
+          ))}
+
+          {graphData.nodes.length > 0 && (
+            <AlgorithmOptionFields
+              definition={algorithmRegistry[selectedAlgorithm]}
+              graphData={graphData}
+              params={runParams}
+              setParams={setRunParams}
+            />
+          )}
+
+          {heuristicReport && !heuristicReport.admissible && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              This heuristic overestimates on the current graph, so A* may return a longer path than the shortest one.
+              <div className="text-xs mt-1">{heuristicReport.violations[0]}</div>
+            </div>
+          )}
+          {heuristicReport && heuristicReport.admissible && !heuristicReport.consistent && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              This heuristic is admissible but not consistent on the current graph, so A* may expand nodes more than once.
+              <div className="text-xs mt-1">{heuristicReport.violations[0]}</div>
+            </div>
           )}
         </CardContent>
       </Card>
@@ -410,6 +456,23 @@ export const AlgorithmControls = ({
                 />
               </button>
             </div>
+            {selectedAlgorithm === 'ford-fulkerson' && (
+              <div className="flex items-center gap-3 mb-1">
+                <span className="font-medium text-xs">Residual graph</span>
+                <button
+                  type="button"
+                  className={`relative w-10 h-6 rounded-full transition-colors duration-200 focus:outline-none ${showResidual ? 'bg-primary' : 'bg-muted'}`}
+                  onClick={() => setShowResidual(v => !v)}
+                  aria-pressed={showResidual}
+                  tabIndex={0}
+                >
+                  <span
+                    className={`absolute left-1 top-1 w-4 h-4 rounded-full bg-background shadow transition-transform duration-200 ${showResidual ? 'translate-x-4' : ''}`}
+                    style={{ boxShadow: '0 1px 4px rgba(0,0,0,0.15)' }}
+                  />
+                </button>
+              </div>
+            )}
             <div className="flex gap-2 items-center">
               {stepMode ? (
                 <>
@@ -419,33 +482,14 @@ export const AlgorithmControls = ({
                       size="sm"
                       onClick={async () => {
                         // Generate steps as in handlePlay, but don't auto-play
-                        if (!selectedAlgorithm || graphData.nodes.length === 0) return;
-                        resetGraphState();
-                        const runner = new AlgorithmRunner(graphData);
-                        let execution;
+                        if (!selectedAlgorithm || graphData.nodes.length === 0 || blockedByWeights()) return;
+                        clearGraphState();
                         try {
-                          if (selectedAlgorithm === 'bfs') {
-                            const start = startNode || graphData.nodes[0].id;
-                            execution = await runner.runBFS(start);
-                          } else if (selectedAlgorithm === 'dijkstra') {
-                            const start = startNode || graphData.nodes[0].id;
-                            execution = await runner.runDijkstra(start);
-                          } else if (selectedAlgorithm === 'prim') {
-                            const start = startNode || graphData.nodes[0].id;
-                            execution = await runner.runPrims(start);
-                          } else if (selectedAlgorithm === 'kruskal') {
-                            execution = await runner.runKruskals();
-                          } else if (selectedAlgorithm === 'bellman-ford') {
-                            const start = startNode || graphData.nodes[0].id;
-                            execution = await runner.runBellmanFord(start);
-                          } else {
-                            toast({ title: "Algorithm Not Implemented", description: `${algorithms[selectedAlgorithm]} is coming soon!`, variant: "destructive" });
-                            return;
-                          }
+                          const execution = await runSelectedAlgorithm();
                           setAlgorithmSteps(execution.steps);
                           setTotalSteps(execution.steps.length);
                           setCurrentStep(0);
-                          if (execution.steps.length > 0) applyStep(execution.steps[0]);
+                          seekToStep(execution.steps, 0);
                           if (typeof setAlgorithmExecution === 'function') setAlgorithmExecution(execution);
                         } catch (error) {
                           toast({ title: "Algorithm Error", description: "Failed to run algorithm", variant: "destructive" });
@@ -463,7 +507,7 @@ export const AlgorithmControls = ({
                         size="sm"
                         onClick={() => {
                           setCurrentStep(0);
-                          if (algorithmSteps.length > 0) applyStep(algorithmSteps[0]);
+                          seekToStep(algorithmSteps, 0);
                         }}
                         disabled={currentStep === 0}
                         title="Go to First Step"
@@ -476,7 +520,7 @@ export const AlgorithmControls = ({
                         onClick={() => {
                           if (currentStep > 0) {
                             setCurrentStep(currentStep - 1);
-                            applyStep(algorithmSteps[currentStep - 1]);
+                            seekToStep(algorithmSteps, currentStep - 1);
                           }
                         }}
                         disabled={currentStep === 0}
@@ -490,7 +534,7 @@ export const AlgorithmControls = ({
                         onClick={() => {
                           if (currentStep < algorithmSteps.length - 1) {
                             setCurrentStep(currentStep + 1);
-                            applyStep(algorithmSteps[currentStep + 1]);
+                            seekToStep(algorithmSteps, currentStep + 1);
                           }
                         }}
                         disabled={currentStep >= algorithmSteps.length - 1}
@@ -503,7 +547,7 @@ export const AlgorithmControls = ({
                         size="sm"
                         onClick={() => {
                           setCurrentStep(algorithmSteps.length - 1);
-                          if (algorithmSteps.length > 0) applyStep(algorithmSteps[algorithmSteps.length - 1]);
+                          seekToStep(algorithmSteps, algorithmSteps.length - 1);
                         }}
                         disabled={currentStep === algorithmSteps.length - 1}
                         title="Go to Last Step"
@@ -551,10 +595,10 @@ export const AlgorithmControls = ({
             </div>
 
             <div>
-              <label className="text-sm font-medium mb-2 block">Speed: {speed[0]}%</label>
+              <label className="text-sm font-medium mb-2 block">Speed: {speed}%</label>
               <Slider
-                value={speed}
-                onValueChange={setSpeed}
+                value={[speed]}
+                onValueChange={value => setSpeed(value[0])}
                 max={100}
                 min={1}
                 step={1}
@@ -622,6 +666,22 @@ export const AlgorithmControls = ({
             <div className="w-8 h-0.5 bg-edge-active" />
             <span className="text-sm">Active Edge</span>
           </div>
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-1 bg-node-path" />
+            <span className="text-sm">Path Edge</span>
+          </div>
+          {selectedAlgorithm === 'ford-fulkerson' && (
+            <>
+              <div className="flex items-center gap-3">
+                <div className="w-8 h-1 bg-destructive" />
+                <span className="text-sm">Min-Cut Edge</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="w-4 h-4 rounded-full" style={{ background: 'hsl(var(--node-path) / 0.3)' }} />
+                <span className="text-sm">Source Side of Cut</span>
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
 
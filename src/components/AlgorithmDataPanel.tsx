@@ -1,4 +1,5 @@
 import React from "react";
+import { formatMatrixValue } from "@/lib/matrix-format";
 
 
 interface AlgorithmDataPanelProps {
@@ -31,11 +32,7 @@ const MatrixTable = ({ matrix, nodeLabelMap }: MatrixTableProps) => {
               <th className="border border-border px-1 py-0.5 bg-muted/30">{nodeLabelMap[row] || row}</th>
               {colKeys.map(col => (
                 <td key={col} className="border border-border px-1 py-0.5 text-center">
-                  {matrix[row][col] === Infinity
-                    ? '∞'
-                    : matrix[row][col] === null || matrix[row][col] === undefined
-                    ? ''
-                    : matrix[row][col]}
+                  {formatMatrixValue(matrix[row][col])}
                 </td>
               ))}
             </tr>
@@ -0,0 +1,85 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GraphData } from "@/lib/graph-types";
+import { AlgorithmDefinition, AlgorithmRunParams } from "@/lib/algorithm-registry";
+
+interface AlgorithmOptionFieldsProps {
+  definition: AlgorithmDefinition;
+  graphData: GraphData;
+  params: AlgorithmRunParams;
+  setParams: React.Dispatch<React.SetStateAction<AlgorithmRunParams>>;
+}
+
+// Renders the non-node settings an algorithm declares in the registry.
+export const AlgorithmOptionFields = ({ definition, graphData, params, setParams }: AlgorithmOptionFieldsProps) => {
+  const visibleOptions = (definition.options ?? []).filter(option => !option.visible || option.visible(params));
+
+  return (
+    <>
+      {visibleOptions.map(option => {
+        switch (option.type) {
+          case 'boolean':
+            return (
+              <label key={option.key} className="flex items-center gap-2 cursor-pointer select-none text-sm">
+                <input
+                  type="checkbox"
+                  checked={Boolean(params[option.key])}
+                  onChange={e => setParams(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                  className="accent-primary"
+                />
+                {option.label}
+              </label>
+            );
+          case 'select':
+            return (
+              <div key={option.key}>
+                <label className="text-sm font-medium mb-2 block">{option.label}</label>
+                <Select
+                  value={String(params[option.key] ?? option.default)}
+                  onValueChange={value => setParams(prev => ({ ...prev, [option.key]: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {option.choices.map(choice => (
+                      <SelectItem key={choice.value} value={choice.value}>
+                        {choice.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          case 'node-values': {
+            const values = (params[option.key] as Record<string, number> | undefined) ?? {};
+            return (
+              <div key={option.key}>
+                <label className="text-sm font-medium mb-2 block">{option.label}</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {graphData.nodes.map(node => (
+                    <label key={node.id} className="flex items-center gap-2 text-xs">
+                      <span className="w-6 shrink-0 font-mono">{node.label}</span>
+                      <Input
+                        type="number"
+                        className="h-8"
+                        value={values[node.id] ?? ''}
+                        placeholder="0"
+                        onChange={e => {
+                          const next = { ...values };
+                          if (e.target.value === '' || Number.isNaN(Number(e.target.value))) delete next[node.id];
+                          else next[node.id] = Number(e.target.value);
+                          setParams(prev => ({ ...prev, [option.key]: next }));
+                        }}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          }
+        }
+      })}
+    </>
+  );
+};
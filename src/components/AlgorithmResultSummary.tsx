@@ -0,0 +1,127 @@
+import { Badge } from "@/components/ui/badge";
+import { AlgorithmResult, GraphData } from "@/lib/graph-types";
+
+interface AlgorithmResultSummaryProps {
+  result: AlgorithmResult;
+  graphData: GraphData;
+}
+
+const formatDistance = (value: number) => (value === Infinity ? '∞' : String(value));
+
+export const AlgorithmResultSummary = ({ result, graphData }: AlgorithmResultSummaryProps) => {
+  const label = (id: string) => graphData.nodes.find(n => n.id === id)?.label || id;
+  const edgeLabel = (id: string) => {
+    const edge = graphData.edges.find(e => e.id === id);
+    return edge ? `${label(edge.source)}–${label(edge.target)}` : id;
+  };
+
+  const renderBody = () => {
+    switch (result.kind) {
+      case 'traversal':
+        return (
+          <>
+            <div>
+              <span className="font-semibold">Visit order:</span>{" "}
+              <span className="font-mono">{result.visitOrder.map(label).join(' → ')}</span>
+            </div>
+            <div className="text-muted-foreground">
+              Reached {result.visitOrder.length} of {graphData.nodes.length} nodes from {label(result.start)}.
+            </div>
+          </>
+        );
+      case 'shortest-path':
+        return (
+          <>
+            {result.negativeCycle && (
+              <div className="text-destructive">Negative weight cycle reachable from {label(result.source)}; distances are not well defined.</div>
+            )}
+            {result.target && !result.negativeCycle && (
+              <div>
+                <span className="font-semibold">Path to {label(result.target)}:</span>{" "}
+                {result.pathFound
+                  ? <span className="font-mono">{result.path.map(label).join(' → ')} (cost {result.totalDistance})</span>
+                  : <span className="text-muted-foreground">unreachable</span>}
+              </div>
+            )}
+            <table className="border border-border text-xs mt-2">
+              <thead>
+                <tr>
+                  <th className="border border-border px-1 py-0.5 bg-muted/30">Node</th>
+                  <th className="border border-border px-1 py-0.5 bg-muted/30">Distance</th>
+                  <th className="border border-border px-1 py-0.5 bg-muted/30">Via</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(result.distances).map(([id, distance]) => (
+                  <tr key={id}>
+                    <th className="border border-border px-1 py-0.5 bg-muted/30">{label(id)}</th>
+                    <td className="border border-border px-1 py-0.5 text-center">{formatDistance(distance)}</td>
+                    <td className="border border-border px-1 py-0.5 text-center">{result.predecessors[id] ? label(result.predecessors[id]) : ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        );
+      case 'all-pairs': {
+        const values = Object.values(result.distances).flatMap(row => Object.values(row));
+        const finite = values.filter(v => v !== Infinity);
+        return (
+          <>
+            <div>
+              <span className="font-semibold">Pairs computed:</span> {values.length}
+              {" "}({values.length - finite.length} unreachable)
+            </div>
+            <div>
+              <span className="font-semibold">Longest shortest path:</span> {finite.length > 0 ? Math.max(...finite) : '–'}
+            </div>
+          </>
+        );
+      }
+      case 'mst':
+        return (
+          <>
+            <div>
+              <span className="font-semibold">Total weight:</span> {result.mstWeight}
+              {!result.isSpanning && <Badge variant="outline" className="ml-2">forest (graph is disconnected)</Badge>}
+            </div>
+            <div>
+              <span className="font-semibold">Edges:</span>{" "}
+              <span className="font-mono">{result.edges.map(edgeLabel).join(', ') || '–'}</span>
+            </div>
+          </>
+        );
+      case 'max-flow':
+        return (
+          <>
+            <div>
+              <span className="font-semibold">Max flow {label(result.source)} → {label(result.sink)}:</span> {result.maxFlow}
+            </div>
+            <div>
+              <span className="font-semibold">Edge flows:</span>{" "}
+              <span className="font-mono">
+                {Object.entries(result.flows)
+                  .filter(([, flow]) => flow !== 0)
+                  .map(([id, flow]) => `${edgeLabel(id)}: ${flow}`)
+                  .join(', ') || '–'}
+              </span>
+            </div>
+            <div>
+              <span className="font-semibold">Minimum cut:</span>{" "}
+              <span className="font-mono">
+                {'{'}{result.minCut.sourceSide.map(label).join(', ')}{'}'} — {result.minCut.edges.map(edgeLabel).join(', ') || '–'}
+              </span>{" "}
+              (capacity {result.minCut.capacity})
+            </div>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-card/60 border border-border rounded-lg p-4 mt-4">
+      <h3 className="font-bold mb-2 text-lg">Result</h3>
+      <div className="space-y-2 text-sm">{renderBody()}</div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Film } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AlgorithmStep, GraphData } from "@/lib/graph-types";
+import { Algorithm, getAlgorithmCode } from "@/lib/algorithm-registry";
+import { AnimationFormat, renderAnimation, supportsWebm } from "@/lib/animation-export";
+import { downloadFile, toFileName } from "@/lib/download";
+
+interface ExportAnimationDialogProps {
+  graphData: GraphData;
+  isDirected: boolean;
+  showResidual: boolean;
+  algorithm: Algorithm;
+  steps: AlgorithmStep[];
+  name?: string;
+}
+
+const SCALES = [0.5, 0.75, 1];
+
+export const ExportAnimationDialog = ({ graphData, isDirected, showResidual, algorithm, steps, name }: ExportAnimationDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [range, setRange] = useState<[number, number]>([0, 0]);
+  const [frameDuration, setFrameDuration] = useState(800);
+  const [scale, setScale] = useState(0.5);
+  const [includeDescription, setIncludeDescription] = useState(true);
+  const [includeCode, setIncludeCode] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+  const webm = supportsWebm();
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: range[1] - range[0] + 1 });
+    try {
+      const blob = await renderAnimation(format, graphData, steps, {
+        from: range[0],
+        to: range[1],
+        frameDuration,
+        scale,
+        isDirected,
+        showResidual,
+        includeDescription,
+        codeLines: includeCode ? getAlgorithmCode(algorithm) : undefined,
+      }, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      downloadFile(`${toFileName(name ?? algorithm)}-steps-${range[0] + 1}-${range[1] + 1}.${format}`, blob, blob.type);
+      setOpen(false);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        toast({ title: "Export Failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const frames = range[1] - range[0] + 1;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={next => {
+        if (!next) abortRef.current?.abort();
+        if (next) setRange([0, Math.max(steps.length - 1, 0)]);
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={steps.length === 0} title={steps.length === 0 ? 'Run an algorithm first' : undefined}>
+          <Film className="h-4 w-4 mr-2" />
+          Animation
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Animation</DialogTitle>
+          <DialogDescription>Render the run step by step as an animated GIF{webm ? ' or a WebM video' : ''}.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Label className="w-28">Format</Label>
+            <Select value={format} onValueChange={value => setFormat(value as AnimationFormat)} disabled={progress !== null}>
+              <SelectTrigger className="flex-1 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="gif">Animated GIF</SelectItem>
+                <SelectItem value="webm" disabled={!webm}>WebM video{webm ? '' : ' (not supported by this browser)'}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Steps {range[0] + 1}–{range[1] + 1} of {steps.length} ({frames} frame{frames === 1 ? '' : 's'})</Label>
+            <Slider
+              value={range}
+              min={0}
+              max={Math.max(steps.length - 1, 0)}
+              step={1}
+              minStepsBetweenThumbs={0}
+              disabled={progress !== null}
+              onValueChange={([from, to]) => setRange([from, to])}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Frame duration: {frameDuration} ms ({((frames * frameDuration) / 1000).toFixed(1)} s total)</Label>
+            <Slider value={[frameDuration]} min={100} max={3000} step={100} disabled={progress !== null} onValueChange={([value]) => setFrameDuration(value)} />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label className="w-28">Size</Label>
+            <Select value={String(scale)} onValueChange={value => setScale(Number(value))} disabled={progress !== null}>
+              <SelectTrigger className="flex-1 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCALES.map(value => <SelectItem key={value} value={String(value)}>{value * 100}%</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Checkbox id="animation-description" checked={includeDescription} onCheckedChange={checked => setIncludeDescription(checked === true)} />
+              <Label htmlFor="animation-description">Step description</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="animation-code" checked={includeCode} onCheckedChange={checked => setIncludeCode(checked === true)} />
+              <Label htmlFor="animation-code">Code line</Label>
+            </div>
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={(progress.done / progress.total) * 100} />
+              <div className="text-xs text-muted-foreground">
+                Rendering frame {progress.done} of {progress.total}
+                {format === 'webm' && ' (WebM records in real time)'}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {progress ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>Cancel</Button>
+          ) : (
+            <Button onClick={handleExport}>Export {format === 'gif' ? 'GIF' : 'WebM'}</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,108 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Image as ImageIcon } from "lucide-react";
+import { AlgorithmStep, GraphData } from "@/lib/graph-types";
+import { buildScene } from "@/lib/graph-scene";
+import { CANVAS_SIZE } from "@/lib/graph-layout";
+import { renderScenePng, sceneToSvg } from "@/lib/scene-render";
+import { graphStateAtStep, restoreGraphState } from "@/lib/step-timeline";
+import { downloadFile, toFileName } from "@/lib/download";
+
+interface ExportImageDialogProps {
+  graphData: GraphData;
+  isDirected: boolean;
+  showResidual: boolean;
+  steps: AlgorithmStep[];
+  currentStep: number;
+  name?: string;
+}
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+export const ExportImageDialog = ({ graphData, isDirected, showResidual, steps, currentStep, name }: ExportImageDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState(currentStep);
+  const [showGrid, setShowGrid] = useState(true);
+  const [scale, setScale] = useState(2);
+
+  // The graph as it looked after `step`, with the editor's current layout. Only built while open,
+  // since playback changes the graph on every step.
+  const scene = useMemo(() => {
+    if (!open) return null;
+    const state = steps.length > 0 ? restoreGraphState(graphData, graphStateAtStep(steps, step)) : graphData;
+    return buildScene(state, { isDirected, showGrid, showResidual });
+  }, [open, graphData, steps, step, isDirected, showGrid, showResidual]);
+  const svg = useMemo(() => (scene ? sceneToSvg(scene) : ''), [scene]);
+  // The page, or more when the graph reaches past it.
+  const size = scene ?? CANVAS_SIZE;
+
+  const baseName = `${toFileName(name ?? 'graph')}${steps.length > 0 ? `-step-${step + 1}` : ''}`;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={next => {
+        if (next) setStep(Math.min(currentStep, Math.max(steps.length - 1, 0)));
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={graphData.nodes.length === 0}>
+          <ImageIcon className="h-4 w-4 mr-2" />
+          Image
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Export Image</DialogTitle>
+          <DialogDescription>Save the canvas as a vector SVG or a PNG, at any step of the current run.</DialogDescription>
+        </DialogHeader>
+
+        {scene && (
+          <img
+            src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+            alt="Export preview"
+            className="w-full rounded border border-border"
+          />
+        )}
+
+        {steps.length > 0 && (
+          <div className="space-y-2">
+            <Label>Step {step + 1} of {steps.length}: {steps[step]?.description}</Label>
+            <Slider value={[step]} min={0} max={steps.length - 1} step={1} onValueChange={([value]) => setStep(value)} />
+          </div>
+        )}
+
+        <div className="flex items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Switch id="export-grid" checked={showGrid} onCheckedChange={setShowGrid} />
+            <Label htmlFor="export-grid">Grid</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label>PNG scale</Label>
+            <Select value={String(scale)} onValueChange={value => setScale(Number(value))}>
+              <SelectTrigger className="w-40 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PNG_SCALES.map(value => (
+                  <SelectItem key={value} value={String(value)}>{value}× ({Math.round(size.width * value)}×{Math.round(size.height * value)})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => downloadFile(`${baseName}.svg`, svg, 'image/svg+xml')}>Export SVG</Button>
+          <Button onClick={async () => scene && downloadFile(`${baseName}.png`, await renderScenePng(scene, scale), 'image/png')}>Export PNG</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,144 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Sigma } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { GraphData } from "@/lib/graph-types";
+import { AlgorithmExecution } from "@/lib/algorithms";
+import { CANVAS_SIZE } from "@/lib/graph-layout";
+import { parseStepSelection, toTikz, toTikzSnapshots } from "@/lib/tikz";
+import { downloadFile, toFileName } from "@/lib/download";
+
+interface ExportTikzDialogProps {
+  graphData: GraphData;
+  isDirected: boolean;
+  execution: AlgorithmExecution | null;
+  currentStep: number;
+  name?: string;
+}
+
+type TikzMode = 'graph' | 'snapshots';
+
+const WIDTHS_CM = [8, 12, 16];
+
+export const ExportTikzDialog = ({ graphData, isDirected, execution, currentStep, name }: ExportTikzDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<TikzMode>('graph');
+  const [stepText, setStepText] = useState('');
+  const [width, setWidth] = useState(12);
+  const [showWeights, setShowWeights] = useState(true);
+  const [includeTables, setIncludeTables] = useState(true);
+  const [fullDocument, setFullDocument] = useState(true);
+  const { toast } = useToast();
+  const stepCount = execution?.steps.length ?? 0;
+
+  const stepIndices = useMemo(() => parseStepSelection(stepText, stepCount), [stepText, stepCount]);
+  // Only built while open, since playback changes the graph on every step.
+  const latex = useMemo(() => {
+    if (!open) return '';
+    const options = { isDirected, scale: width / CANVAS_SIZE.width, showWeights, document: fullDocument };
+    if (mode === 'snapshots' && execution) {
+      return stepIndices && stepIndices.length > 0 ? toTikzSnapshots(graphData, execution, stepIndices, { ...options, includeTables }) : '';
+    }
+    return toTikz(graphData, options);
+  }, [open, mode, graphData, execution, stepIndices, isDirected, width, showWeights, includeTables, fullDocument]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(latex);
+    } catch {
+      // Refused permission or an insecure page; the source is still selectable in the preview.
+      toast({ title: "Could Not Copy", description: "Clipboard access was refused. Select the LaTeX source below and copy it yourself.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Copied", description: "The LaTeX source is on the clipboard." });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={next => {
+        if (next) {
+          setMode(stepCount > 0 ? 'snapshots' : 'graph');
+          // A sensible starting selection: the first step, the one on screen and the last.
+          setStepText([...new Set([1, currentStep + 1, stepCount])].filter(step => step >= 1).join(', '));
+        }
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={graphData.nodes.length === 0}>
+          <Sigma className="h-4 w-4 mr-2" />
+          LaTeX
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Export TikZ</DialogTitle>
+          <DialogDescription>A TikZ picture of the graph, or one figure per chosen step of the current run.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={value => setMode(value as TikzMode)}>
+          <TabsList>
+            <TabsTrigger value="graph">Current graph</TabsTrigger>
+            <TabsTrigger value="snapshots" disabled={stepCount === 0}>Run snapshots</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {mode === 'snapshots' && (
+          <div className="space-y-1">
+            <Label htmlFor="tikz-steps">Steps (1–{stepCount}), e.g. 1, 4-6, {stepCount}</Label>
+            <Input id="tikz-steps" value={stepText} onChange={event => setStepText(event.target.value)} className="font-mono" />
+            {!stepIndices && <div className="text-xs text-destructive">Use step numbers and ranges between 1 and {stepCount}, separated by commas.</div>}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Label>Width</Label>
+            <Select value={String(width)} onValueChange={value => setWidth(Number(value))}>
+              <SelectTrigger className="w-24 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WIDTHS_CM.map(value => <SelectItem key={value} value={String(value)}>{value} cm</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="tikz-weights" checked={showWeights} onCheckedChange={setShowWeights} />
+            <Label htmlFor="tikz-weights">Weights</Label>
+          </div>
+          {mode === 'snapshots' && (
+            <div className="flex items-center gap-2">
+              <Switch id="tikz-tables" checked={includeTables} onCheckedChange={setIncludeTables} />
+              <Label htmlFor="tikz-tables">Data tables</Label>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch id="tikz-document" checked={fullDocument} onCheckedChange={setFullDocument} />
+            <Label htmlFor="tikz-document">Full document</Label>
+          </div>
+        </div>
+
+        <Textarea value={latex} readOnly rows={14} className="font-mono text-xs" />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={copy} disabled={!latex}>Copy</Button>
+          <Button
+            onClick={() => downloadFile(`${toFileName(name ?? 'graph')}${mode === 'snapshots' ? '-steps' : ''}.tex`, latex, 'application/x-tex')}
+            disabled={!latex}
+          >
+            Download .tex
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
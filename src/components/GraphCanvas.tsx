@@ -2,180 +2,302 @@ import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { MousePointer2, Plus, Minus, ArrowRightLeft } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuSeparator, ContextMenuShortcut, ContextMenuTrigger } from "@/components/ui/context-menu";
+import { MousePointer2, Plus, Minus, ArrowRightLeft, Undo2, Redo2, ZoomIn, ZoomOut, Maximize2, Network } from "lucide-react";
 import { GraphNode, GraphEdge, GraphData } from "@/lib/graph-types";
 import { useToast } from "@/hooks/use-toast";
+import { moveNodes } from "@/lib/graph-layout";
+import { NODE_RADIUS, SCENE_COLORS, Scene, buildScene, edgeLabel, weightBoxSize } from "@/lib/graph-scene";
+import { drawScene } from "@/lib/scene-render";
+import { LayoutError, LayoutKind, Point, computeLayout, interpolatePositions, layoutLabels, positionNodes } from "@/lib/auto-layout";
+import { Camera, PAGE_RECT, containsRect, fitCamera, graphBounds, screenToWorld, unionRect, visibleRect, wheelZoomFactor, zoomAt } from "@/lib/viewport";
+import { WeightPolicy, checkNodeLabel, deleteEdges, deleteNodes, findEdgeAt, hasEdge, needsMultigraph, newEdgeWeight, nextNodeLabel, nodesInRect, parseWeightInput, renameNode, reverseEdge, setEdgeWeight, weightPolicyLabels } from "@/lib/graph-edit";
+import { PASTE_OFFSET, extractSubgraph, firstClipboardGraph, pasteSubgraph, toClipboardText } from "@/lib/graph-clipboard";
+import { routeEdges } from "@/lib/edge-routes";
 
 type Tool = 'select' | 'add-node' | 'add-edge';
 
+// A press that travels less than this is still a click.
+const DRAG_THRESHOLD = 3;
+const ZOOM_STEP = 1.25;
+const MINIMAP_WIDTH = 180;
+const LAYOUT_ANIMATION_MS = 500;
+
+interface NodeDrag {
+  ids: Set<string>;
+  start: { x: number; y: number };
+  dx: number;
+  dy: number;
+  moved: boolean;
+}
+
+interface LayoutAnimation {
+  from: Map<string, Point>;
+  to: Map<string, Point>;
+}
+
+/** A rubber-band selection in world coordinates; Shift adds to the existing selection. */
+interface Marquee {
+  start: Point;
+  end: Point;
+  additive: boolean;
+  moved: boolean;
+}
+
+interface Pan {
+  start: { x: number; y: number };
+  camera: Camera;
+  button: number;
+}
+
+type MenuTarget = { kind: 'node'; id: string } | { kind: 'edge'; id: string } | { kind: 'canvas'; at: Point };
+
+// The last copied selection, for when the page may not read the system clipboard.
+let localClipboard: string | null = null;
+
 interface GraphCanvasProps {
   graphData: GraphData;
   setGraphData: React.Dispatch<React.SetStateAction<GraphData>>;
   isDirected: boolean;
   setIsDirected: React.Dispatch<React.SetStateAction<boolean>>;
+  /** Whether Add Edge may draw self-loops and parallel edges. */
+  isMultigraph?: boolean;
+  setAllowMultigraph?: (allow: boolean) => void;
+  /** Overlays residual capacities (forward and back-edges) once edges carry a max-flow value. */
+  showResidual?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
 }
 
-export const GraphCanvas = ({ graphData, setGraphData, isDirected, setIsDirected }: GraphCanvasProps) => {
+export const GraphCanvas = ({ graphData, setGraphData, isDirected, setIsDirected, isMultigraph = false, setAllowMultigraph, showResidual = false, onUndo, onRedo, canUndo = false, canRedo = false }: GraphCanvasProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
+  const [camera, setCamera] = useState<Camera>({ zoom: 1, x: 0, y: 0 });
+  const [pan, setPan] = useState<Pan | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+  // Repeated pastes of one copy step further away, so they do not stack exactly.
+  const pasteCount = useRef(0);
+  const [layoutAnimation, setLayoutAnimation] = useState<LayoutAnimation | null>(null);
+  const [layoutProgress, setLayoutProgress] = useState(0);
+  // Each force-directed run gets the next seed, so applying it again shows a different arrangement.
+  const layoutSeed = useRef(1);
+  // Until the user zooms or pans, the whole page is refitted whenever the editor is resized.
+  const autoFit = useRef(true);
   const [tool, setTool] = useState<Tool>('select');
-  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const [selectedNodes, setSelectedNodes] = useState<string[]>([]);
+  const [selectedEdge, setSelectedEdge] = useState<string | null>(null);
+  const [drag, setDrag] = useState<NodeDrag | null>(null);
+  const [menuTarget, setMenuTarget] = useState<MenuTarget>({ kind: 'canvas', at: { x: 0, y: 0 } });
+  const [renamingNode, setRenamingNode] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  // The click event that follows a drag's release must not select, deselect or open the weight editor.
+  const suppressClick = useRef(false);
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
   const [isDrawingEdge, setIsDrawingEdge] = useState(false);
   const [edgeStart, setEdgeStart] = useState<string | null>(null);
   const [editingEdge, setEditingEdge] = useState<string | null>(null);
   const [editWeight, setEditWeight] = useState('');
+  const [weightPolicy, setWeightPolicy] = useState<WeightPolicy>('random');
   const { toast } = useToast();
 
-  const canvasWidth = 1200;
-  const canvasHeight = 800;
-  const nodeRadius = 25;
+  const nodeRadius = NODE_RADIUS;
+  // Backing stores are sized in device pixels so the graph stays sharp on HiDPI screens.
+  const pixelRatio = window.devicePixelRatio || 1;
+  // The world the minimap shows: the page, plus any nodes imported outside it.
+  const worldRect = unionRect(PAGE_RECT, graphBounds(graphData.nodes, nodeRadius) ?? PAGE_RECT);
+  const hasLoopsOrParallels = needsMultigraph(graphData, isDirected);
+  const showMinimap = viewSize.width > 0 && !containsRect(visibleRect(camera, viewSize.width, viewSize.height), worldRect);
+  const minimapScale = MINIMAP_WIDTH / worldRect.width;
 
   useEffect(() => {
-    drawGraph();
-  }, [graphData, selectedNode, hoveredNode]);
+    const observer = new ResizeObserver(([entry]) => {
+      setViewSize({ width: Math.round(entry.contentRect.width), height: Math.round(entry.contentRect.height) });
+    });
+    if (containerRef.current) observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
 
-  const drawGraph = () => {
+  useEffect(() => {
+    if (autoFit.current && viewSize.width > 0) setCamera(fitCamera(PAGE_RECT, viewSize.width, viewSize.height));
+  }, [viewSize]);
+
+  // Wheel zoom around the cursor. Attached natively, since React's wheel listener is passive and cannot stop page scrolling.
+  useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      autoFit.current = false;
+      setCamera(current => zoomAt(current, wheelZoomFactor(e.deltaY, e.deltaMode), e.clientX - rect.left, e.clientY - rect.top));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Clear canvas
-    ctx.fillStyle = 'hsl(222 84% 4%)';
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  // Holding Space turns the next drag into a pan, while the canvas or nothing in particular has focus.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || (e.target !== canvasRef.current && e.target !== document.body)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const release = () => setSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+    };
+  }, []);
 
-    // Draw grid
-    ctx.strokeStyle = 'hsl(217 32% 12%)';
-    ctx.lineWidth = 1;
-    const gridSize = 40;
-    
-    for (let x = 0; x <= canvasWidth; x += gridSize) {
-      ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, canvasHeight);
-      ctx.stroke();
-    }
-    
-    for (let y = 0; y <= canvasHeight; y += gridSize) {
-      ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(canvasWidth, y);
-      ctx.stroke();
-    }
+  // Layout changes glide from the old positions to the new ones and reach the graph, and the undo history, once at the end.
+  useEffect(() => {
+    if (!layoutAnimation) return;
+    let frame: number;
+    const start = performance.now();
+    const tick = (now: number) => {
+      const progress = Math.min(1, (now - start) / LAYOUT_ANIMATION_MS);
+      if (progress < 1) {
+        setLayoutProgress(progress);
+        frame = requestAnimationFrame(tick);
+      } else {
+        setGraphData(prev => ({ ...prev, nodes: positionNodes(prev.nodes, layoutAnimation.to) }));
+        setLayoutAnimation(null);
+      }
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [layoutAnimation, setGraphData]);
 
-    // Draw edges
-    graphData.edges.forEach(edge => {
-      const sourceNode = graphData.nodes.find(n => n.id === edge.source);
-      const targetNode = graphData.nodes.find(n => n.id === edge.target);
-      
-      if (sourceNode && targetNode) {
-        ctx.strokeStyle = edge.isActive ? 'hsl(48 96% 60%)' : 'hsl(210 40% 50%)';
-        ctx.lineWidth = edge.isActive ? 3 : 2;
-        ctx.beginPath();
-        ctx.moveTo(sourceNode.x, sourceNode.y);
-        ctx.lineTo(targetNode.x, targetNode.y);
-        ctx.stroke();
-
-        // Draw arrow for directed graphs
-        if (isDirected) {
-          // Arrowhead size and angle
-          const arrowLength = 18;
-          const arrowWidth = 7;
-          const dx = targetNode.x - sourceNode.x;
-          const dy = targetNode.y - sourceNode.y;
-          const angle = Math.atan2(dy, dx);
-          // Arrow tip position (move back by node radius)
-          const tipX = targetNode.x - Math.cos(angle) * nodeRadius;
-          const tipY = targetNode.y - Math.sin(angle) * nodeRadius;
-          // Arrow base points
-          const leftX = tipX - arrowLength * Math.cos(angle) + arrowWidth * Math.sin(angle);
-          const leftY = tipY - arrowLength * Math.sin(angle) - arrowWidth * Math.cos(angle);
-          const rightX = tipX - arrowLength * Math.cos(angle) - arrowWidth * Math.sin(angle);
-          const rightY = tipY - arrowLength * Math.sin(angle) + arrowWidth * Math.cos(angle);
-          ctx.fillStyle = edge.isActive ? 'hsl(48 96% 60%)' : 'hsl(210 40% 50%)';
-          ctx.beginPath();
-          ctx.moveTo(tipX, tipY);
-          ctx.lineTo(leftX, leftY);
-          ctx.lineTo(rightX, rightY);
-          ctx.closePath();
-          ctx.fill();
-        }
+  useEffect(() => {
+    drawGraph();
+  }, [graphData, selectedNodes, selectedEdge, hoveredNode, showResidual, drag, camera, viewSize, showMinimap, layoutAnimation, layoutProgress, marquee]);
 
-        // Draw weight if exists
-        if (edge.weight !== undefined) {
-          const midX = (sourceNode.x + targetNode.x) / 2;
-          const midY = (sourceNode.y + targetNode.y) / 2;
-          
-          // Highlight if being edited
-          const isEditing = editingEdge === edge.id;
-          
-          ctx.fillStyle = isEditing ? 'hsl(48 96% 60%)' : 'hsl(210 40% 98%)';
-          ctx.fillRect(midX - 15, midY - 10, 30, 20);
-          ctx.strokeStyle = isEditing ? 'hsl(48 96% 60%)' : 'hsl(217 32% 17%)';
-          ctx.strokeRect(midX - 15, midY - 10, 30, 20);
-          
-          ctx.fillStyle = 'hsl(222 84% 5%)';
-          ctx.font = isEditing ? 'bold 12px monospace' : '12px monospace';
-          ctx.textAlign = 'center';
-          ctx.fillText(edge.weight.toString(), midX, midY + 4);
-        }
-      }
+  const drawGraph = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!ctx) return;
+    // A drag in progress is drawn from an offset and only written to the graph on release.
+    const nodes = layoutAnimation
+      ? positionNodes(graphData.nodes, interpolatePositions(layoutAnimation.from, layoutAnimation.to, layoutProgress))
+      : drag?.moved ? moveNodes(graphData.nodes, drag.ids, drag.dx, drag.dy, nodeRadius) : graphData.nodes;
+    const scene = buildScene({ ...graphData, nodes }, {
+      isDirected,
+      showResidual,
+      selectedNodes: marquee?.moved ? marqueeSelection(marquee) : selectedNodes,
+      selectedEdge,
+      hoveredNode: tool === 'select' ? hoveredNode : null,
+      editingEdge,
     });
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(pixelRatio * camera.zoom, 0, 0, pixelRatio * camera.zoom, pixelRatio * camera.x, pixelRatio * camera.y);
+    // Scenes start at their origin, which moves up and left once the graph reaches past the page.
+    ctx.translate(scene.origin.x, scene.origin.y);
+    drawScene(ctx, scene);
+    ctx.translate(-scene.origin.x, -scene.origin.y);
+    if (marquee?.moved) {
+      const { start, end } = marquee;
+      ctx.fillStyle = SCENE_COLORS.selection;
+      ctx.globalAlpha = 0.1;
+      ctx.fillRect(start.x, start.y, end.x - start.x, end.y - start.y);
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = SCENE_COLORS.selection;
+      ctx.lineWidth = 1 / camera.zoom;
+      ctx.setLineDash([4 / camera.zoom, 4 / camera.zoom]);
+      ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+      ctx.setLineDash([]);
+    }
+    drawMinimap(scene);
+  };
 
-    // Draw nodes
-    graphData.nodes.forEach(node => {
-      let fillColor = 'hsl(198 93% 60%)'; // default
-      
-      if (node.state === 'visited') fillColor = 'hsl(142 76% 60%)';
-      else if (node.state === 'current') fillColor = 'hsl(48 96% 60%)';
-      else if (node.state === 'error') fillColor = 'hsl(0 80% 60%)';
-      
-      if (node.id === selectedNode) {
-        // Draw selection ring
-        ctx.strokeStyle = 'hsl(251 91% 70%)';
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-        ctx.arc(node.x, node.y, nodeRadius + 5, 0, 2 * Math.PI);
-        ctx.stroke();
-      }
-      
-      if (node.id === hoveredNode && tool === 'select') {
-        // Draw hover effect
-        ctx.strokeStyle = 'hsl(251 91% 60%)';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.arc(node.x, node.y, nodeRadius + 3, 0, 2 * Math.PI);
-        ctx.stroke();
-      }
+  const marqueeSelection = ({ start, end, additive }: Marquee) => {
+    const inside = nodesInRect(graphData, start, end);
+    return additive ? [...new Set([...selectedNodes, ...inside])] : inside;
+  };
 
-      // Draw node
-      ctx.fillStyle = fillColor;
-      ctx.beginPath();
-      ctx.arc(node.x, node.y, nodeRadius, 0, 2 * Math.PI);
-      ctx.fill();
-      
-      ctx.strokeStyle = 'hsl(222 84% 5%)';
-      ctx.lineWidth = 2;
-      ctx.stroke();
-
-      // Draw label
-      ctx.fillStyle = 'hsl(222 84% 5%)';
-      ctx.font = 'bold 14px sans-serif';
-      ctx.textAlign = 'center';
-      ctx.fillText(node.label, node.x, node.y + 5);
-    });
+  const drawMinimap = (scene: Scene) => {
+    const minimap = minimapRef.current;
+    const ctx = minimap?.getContext('2d');
+    if (!ctx) return;
+    const scale = pixelRatio * minimapScale;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, minimap.width, minimap.height);
+    ctx.setTransform(scale, 0, 0, scale, -worldRect.x * scale, -worldRect.y * scale);
+    ctx.translate(scene.origin.x, scene.origin.y);
+    drawScene(ctx, scene);
+    ctx.translate(-scene.origin.x, -scene.origin.y);
+    const visible = visibleRect(camera, viewSize.width, viewSize.height);
+    ctx.strokeStyle = SCENE_COLORS.selection;
+    ctx.lineWidth = 2 / scale * pixelRatio;
+    ctx.strokeRect(visible.x, visible.y, visible.width, visible.height);
   };
 
+  /** The pointer's position in world coordinates, which is what nodes and edges are stored in. */
   const getMousePos = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     
     const rect = canvas.getBoundingClientRect();
-    return {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top
-    };
+    return screenToWorld(camera, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const applyLayout = (kind: LayoutKind) => {
+    if (graphData.nodes.length === 0 || layoutAnimation) return;
+    let to: Map<string, Point>;
+    try {
+      to = computeLayout(kind, graphData, { isDirected, seed: layoutSeed.current++, root: selectedNodes.length === 1 ? selectedNodes[0] : undefined });
+    } catch (error) {
+      if (!(error instanceof LayoutError)) throw error;
+      toast({ title: "Cannot Apply Layout", description: error.message, variant: "destructive" });
+      return;
+    }
+    // Large layouts reach past the page rather than crowding their nodes; bring all of it into view.
+    const laidOut = graphBounds(positionNodes(graphData.nodes, to), nodeRadius);
+    if (laidOut && !containsRect(visibleRect(camera, viewSize.width, viewSize.height), laidOut)) {
+      autoFit.current = false;
+      setCamera(fitCamera(unionRect(PAGE_RECT, laidOut), viewSize.width, viewSize.height));
+    }
+    if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+      setGraphData(prev => ({ ...prev, nodes: positionNodes(prev.nodes, to) }));
+      return;
+    }
+    setLayoutProgress(0);
+    setLayoutAnimation({ from: new Map(graphData.nodes.map(node => [node.id, { x: node.x, y: node.y }])), to });
+  };
+
+  const zoomBy = (factor: number) => {
+    autoFit.current = false;
+    setCamera(current => zoomAt(current, factor, viewSize.width / 2, viewSize.height / 2));
+  };
+
+  const fitToView = () => {
+    autoFit.current = false;
+    setCamera(fitCamera(graphBounds(graphData.nodes, nodeRadius) ?? PAGE_RECT, viewSize.width, viewSize.height));
+  };
+
+  // Pressing or dragging on the minimap centres the view on that point.
+  const handleMinimapPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.buttons !== 1) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = worldRect.x + (e.clientX - rect.left) / minimapScale;
+    const y = worldRect.y + (e.clientY - rect.top) / minimapScale;
+    autoFit.current = false;
+    setCamera(current => ({ ...current, x: viewSize.width / 2 - x * current.zoom, y: viewSize.height / 2 - y * current.zoom }));
   };
 
   const findNodeAt = (x: number, y: number): GraphNode | null => {
@@ -186,41 +308,40 @@ export const GraphCanvas = ({ graphData, setGraphData, isDirected, setIsDirected
     }) || null;
   };
 
+  // The weight boxes sit at the middle of each drawn route, so curved edges are matched where their box is,
+  // and each box is as wide as its text, so long flow labels and decimals are hit across their whole width.
   const findEdgeWeightAt = (x: number, y: number): GraphEdge | null => {
-    for (const edge of graphData.edges) {
-      if (edge.weight === undefined) continue;
-      
-      const sourceNode = graphData.nodes.find(n => n.id === edge.source);
-      const targetNode = graphData.nodes.find(n => n.id === edge.target);
-      
-      if (sourceNode && targetNode) {
-        const midX = (sourceNode.x + targetNode.x) / 2;
-        const midY = (sourceNode.y + targetNode.y) / 2;
-        
-        if (x >= midX - 15 && x <= midX + 15 && y >= midY - 10 && y <= midY + 10) {
-          return edge;
-        }
-      }
-    }
-    return null;
+    const route = routeEdges(graphData, nodeRadius).find(({ edge, label }) => {
+      const text = edgeLabel(edge);
+      if (text === undefined) return false;
+      const { width, height } = weightBoxSize(text, edge.id === editingEdge);
+      return Math.abs(x - label.x) <= width / 2 && Math.abs(y - label.y) <= height / 2;
+    });
+    return route?.edge ?? null;
   };
 
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      return;
+    }
     const pos = getMousePos(e);
     const clickedNode = findNodeAt(pos.x, pos.y);
     const clickedEdge = findEdgeWeightAt(pos.x, pos.y);
+    // Clicking anywhere on the canvas closes an open editor.
+    setEditingEdge(null);
+    setRenamingNode(null);
 
     // Handle edge weight editing
     if (tool === 'select' && clickedEdge && !clickedNode) {
-      setEditingEdge(clickedEdge.id);
-      setEditWeight(clickedEdge.weight?.toString() || '');
+      startWeightEdit(clickedEdge);
       return;
     }
 
     if (tool === 'add-node' && !clickedNode && !clickedEdge) {
       const newNode: GraphNode = {
         id: `node-${Date.now()}`,
-        label: String.fromCharCode(65 + graphData.nodes.length),
+        label: nextNodeLabel(graphData),
         x: pos.x,
         y: pos.y,
         state: 'default'
@@ -239,20 +360,21 @@ export const GraphCanvas = ({ graphData, setGraphData, isDirected, setIsDirected
       if (!isDrawingEdge) {
         setEdgeStart(clickedNode.id);
         setIsDrawingEdge(true);
-        setSelectedNode(clickedNode.id);
-      } else if (edgeStart && clickedNode.id !== edgeStart) {
-        // For directed, only check source->target; for undirected, check both directions
-        const edgeExists = graphData.edges.some(edge =>
-          isDirected
-            ? (edge.source === edgeStart && edge.target === clickedNode.id)
-            : ((edge.source === edgeStart && edge.target === clickedNode.id) || (edge.source === clickedNode.id && edge.target === edgeStart))
-        );
-        if (!edgeExists) {
+        setSelectedNodes([clickedNode.id]);
+      } else if (edgeStart && (clickedNode.id !== edgeStart || isMultigraph)) {
+        // Clicking the start node again draws a self-loop, which only a multigraph may have.
+        const startNode = graphData.nodes.find(n => n.id === edgeStart);
+        if (startNode && !isMultigraph && hasEdge(graphData, edgeStart, clickedNode.id, isDirected)) {
+          toast({
+            title: "Edge Already Exists",
+            description: "Turn on Multigraph to add parallel edges between the same nodes.",
+          });
+        } else if (startNode) {
           const newEdge: GraphEdge = {
             id: `edge-${Date.now()}`,
             source: edgeStart,
             target: clickedNode.id,
-            weight: Math.floor(Math.random() * 10) + 1,
+            weight: newEdgeWeight(weightPolicy, startNode, clickedNode),
             isActive: false
           };
           setGraphData(prev => ({
@@ -261,56 +383,296 @@ export const GraphCanvas = ({ graphData, setGraphData, isDirected, setIsDirected
           }));
           toast({
             title: "Edge Added",
-            description: isDirected
-              ? `Directed edge from ${edgeStart} to ${clickedNode.id} (weight ${newEdge.weight})`
-              : `Edge between ${edgeStart} and ${clickedNode.id} (weight ${newEdge.weight})`,
+            description: clickedNode.id === edgeStart
+              ? `Self-loop on ${clickedNode.label} (weight ${newEdge.weight})`
+              : isDirected
+                ? `Directed edge from ${edgeStart} to ${clickedNode.id} (weight ${newEdge.weight})`
+                : `Edge between ${edgeStart} and ${clickedNode.id} (weight ${newEdge.weight})`,
           });
         }
         setIsDrawingEdge(false);
         setEdgeStart(null);
-        setSelectedNode(null);
+        setSelectedNodes([]);
       }
-    } else if (tool === 'select') {
-      setSelectedNode(clickedNode?.id || null);
+    } else if (tool === 'select' && !e.shiftKey) {
+      // Presses already selected the node; a plain click on one member of a group narrows to it.
+      const lineEdge = clickedNode ? null : findEdgeAt(graphData, pos.x, pos.y);
+      setSelectedNodes(clickedNode ? [clickedNode.id] : []);
+      setSelectedEdge(lineEdge?.id ?? null);
     }
   };
 
+  const startWeightEdit = (edge: GraphEdge) => {
+    setEditingEdge(edge.id);
+    setEditWeight(edge.weight?.toString() ?? '');
+  };
+
+  const startRename = (nodeId: string) => {
+    const node = graphData.nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    setRenamingNode(node.id);
+    setRenameText(node.label);
+  };
+
+  const deleteSelection = () => {
+    if (selectedNodes.length > 0) {
+      const ids = new Set(selectedNodes);
+      const edgeCount = graphData.edges.filter(edge => ids.has(edge.source) || ids.has(edge.target)).length;
+      setGraphData(prev => deleteNodes(prev, ids));
+      setSelectedNodes([]);
+      toast({
+        title: ids.size === 1 ? "Node Deleted" : "Nodes Deleted",
+        description: `Removed ${ids.size} node${ids.size === 1 ? '' : 's'} and ${edgeCount} edge${edgeCount === 1 ? '' : 's'}`,
+      });
+    } else if (selectedEdge) {
+      setGraphData(prev => deleteEdges(prev, new Set([selectedEdge])));
+      setSelectedEdge(null);
+      toast({ title: "Edge Deleted", description: "Removed 1 edge" });
+    }
+  };
+
+  const handleReverse = (edgeId: string) => {
+    const edge = graphData.edges.find(e => e.id === edgeId);
+    if (!edge) return;
+    if (!isMultigraph && hasEdge(graphData, edge.target, edge.source, true, edge.id)) {
+      toast({ title: "Cannot Reverse Edge", description: "An edge in the opposite direction already exists", variant: "destructive" });
+      return;
+    }
+    setGraphData(prev => reverseEdge(prev, edgeId));
+  };
+
+  const handleRenameSubmit = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && renamingNode) {
+      const problem = checkNodeLabel(graphData, renamingNode, renameText);
+      if (problem) {
+        toast({ title: "Cannot Rename Node", description: problem, variant: "destructive" });
+        return;
+      }
+      setGraphData(prev => renameNode(prev, renamingNode, renameText));
+      setRenamingNode(null);
+    }
+    if (e.key === 'Escape') setRenamingNode(null);
+  };
+
+  const selectAll = () => {
+    setSelectedNodes(graphData.nodes.map(n => n.id));
+    setSelectedEdge(null);
+  };
+
+  const copySelection = async (cut: boolean) => {
+    if (selectedNodes.length === 0) return;
+    const ids = new Set(selectedNodes);
+    const subgraph = extractSubgraph(graphData, ids);
+    const text = toClipboardText(subgraph, isDirected);
+    localClipboard = text;
+    pasteCount.current = 0;
+    if (cut) {
+      setGraphData(prev => deleteNodes(prev, ids));
+      setSelectedNodes([]);
+    }
+    let shared = true;
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch {
+      // Without clipboard access the copy still pastes within this tab.
+      shared = false;
+    }
+    const summary = `${ids.size} node${ids.size === 1 ? '' : 's'} and ${subgraph.edges.length} edge${subgraph.edges.length === 1 ? '' : 's'}`;
+    toast({
+      title: cut ? "Cut" : "Copied",
+      description: shared ? summary : `${summary}, copied within this tab only: clipboard access was refused, so other tabs and apps cannot paste them.`,
+    });
+  };
+
+  // Pastes from the system clipboard, so nodes copied in another tab arrive too. With a position,
+  // the copy is centred there; otherwise each paste lands a little further from the original.
+  const pasteClipboard = async (at?: Point) => {
+    let systemText: string | undefined;
+    try {
+      systemText = await navigator.clipboard.readText();
+    } catch {
+      // Reading may be refused; the last copy made in this tab still pastes.
+    }
+    if (!systemText && !localClipboard) return;
+    // The system clipboard may hold unrelated text when this tab's copy could not be written there.
+    const clip = firstClipboardGraph([systemText, localClipboard]);
+    if (!clip) {
+      toast({ title: "Nothing to Paste", description: "The clipboard does not hold copied nodes", variant: "destructive" });
+      return;
+    }
+    if (clip.nodes.length === 0) return;
+    let dx: number;
+    let dy: number;
+    if (at) {
+      const xs = clip.nodes.map(n => n.x);
+      const ys = clip.nodes.map(n => n.y);
+      dx = at.x - (Math.min(...xs) + Math.max(...xs)) / 2;
+      dy = at.y - (Math.min(...ys) + Math.max(...ys)) / 2;
+    } else {
+      pasteCount.current += 1;
+      dx = dy = PASTE_OFFSET * pasteCount.current;
+    }
+    const pasted = pasteSubgraph(graphData, clip, dx, dy);
+    setGraphData(pasted.graphData);
+    setSelectedNodes(pasted.pastedIds);
+    setSelectedEdge(null);
+  };
+
+  const duplicateSelection = () => {
+    if (selectedNodes.length === 0) return;
+    const pasted = pasteSubgraph(graphData, extractSubgraph(graphData, new Set(selectedNodes)), PASTE_OFFSET, PASTE_OFFSET);
+    setGraphData(pasted.graphData);
+    setSelectedNodes(pasted.pastedIds);
+  };
+
+  const handleCanvasKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey) {
+      const key = e.key.toLowerCase();
+      const action = { a: selectAll, c: () => copySelection(false), x: () => copySelection(true), v: () => pasteClipboard(), d: duplicateSelection }[key];
+      if (action) {
+        e.preventDefault();
+        action();
+      }
+      return;
+    }
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      deleteSelection();
+    } else if (e.key === 'F2' && selectedNodes.length === 1) {
+      e.preventDefault();
+      startRename(selectedNodes[0]);
+    } else if (e.key === 'Escape') {
+      setSelectedNodes([]);
+      setSelectedEdge(null);
+      setIsDrawingEdge(false);
+      setEdgeStart(null);
+    }
+  };
+
+  // Right-clicking a node or edge selects it first, so the menu always acts on what is highlighted.
+  const handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const pos = getMousePos(e);
+    const node = findNodeAt(pos.x, pos.y);
+    const edge = node ? null : findEdgeWeightAt(pos.x, pos.y) ?? findEdgeAt(graphData, pos.x, pos.y);
+    if (node) {
+      if (!selectedNodes.includes(node.id)) setSelectedNodes([node.id]);
+      setSelectedEdge(null);
+      setMenuTarget({ kind: 'node', id: node.id });
+    } else if (edge) {
+      setSelectedNodes([]);
+      setSelectedEdge(edge.id);
+      setMenuTarget({ kind: 'edge', id: edge.id });
+    } else {
+      setMenuTarget({ kind: 'canvas', at: pos });
+    }
+  };
+
+  // Select tool: pressing a node selects it (Shift toggles it in the selection) and starts a drag
+  // that carries the whole selection along.
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    // Middle-drag, or Space and drag, pans in every tool.
+    if (e.button === 1 || (e.button === 0 && spaceHeld)) {
+      e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setPan({ start: { x: e.clientX, y: e.clientY }, camera, button: e.button });
+      return;
+    }
+    if (tool !== 'select' || e.button !== 0) return;
+    const pos = getMousePos(e);
+    const pressedNode = findNodeAt(pos.x, pos.y);
+    if (!pressedNode) {
+      // Pressing empty space starts a marquee; if the pointer does not travel, it stays a click.
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setMarquee({ start: pos, end: pos, additive: e.shiftKey, moved: false });
+      return;
+    }
+    setSelectedEdge(null);
+    let selection = selectedNodes;
+    if (e.shiftKey) {
+      selection = selection.includes(pressedNode.id) ? selection.filter(id => id !== pressedNode.id) : [...selection, pressedNode.id];
+      setSelectedNodes(selection);
+      if (!selection.includes(pressedNode.id)) return;
+    } else if (!selection.includes(pressedNode.id)) {
+      selection = [pressedNode.id];
+      setSelectedNodes(selection);
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ ids: new Set(selection), start: pos, dx: 0, dy: 0, moved: false });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (pan) {
+      autoFit.current = false;
+      setCamera({ ...pan.camera, x: pan.camera.x + e.clientX - pan.start.x, y: pan.camera.y + e.clientY - pan.start.y });
+      return;
+    }
+    if (marquee) {
+      const end = getMousePos(e);
+      const moved = marquee.moved || Math.hypot(end.x - marquee.start.x, end.y - marquee.start.y) * camera.zoom > DRAG_THRESHOLD;
+      setMarquee({ ...marquee, end, moved });
+      return;
+    }
+    if (!drag) return;
+    const pos = getMousePos(e);
+    const dx = pos.x - drag.start.x;
+    const dy = pos.y - drag.start.y;
+    const moved = drag.moved || Math.hypot(dx, dy) > DRAG_THRESHOLD;
+    setDrag({ ...drag, dx, dy, moved });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (pan) {
+      // A Space-drag ends in a click, which must not add a node or change the selection.
+      if (pan.button === 0) suppressClick.current = true;
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+      setPan(null);
+      return;
+    }
+    if (marquee) {
+      if (marquee.moved) {
+        setSelectedNodes(marqueeSelection(marquee));
+        setSelectedEdge(null);
+        suppressClick.current = true;
+      }
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+      setMarquee(null);
+      return;
+    }
+    if (!drag) return;
+    if (drag.moved) {
+      setGraphData(prev => ({ ...prev, nodes: moveNodes(prev.nodes, drag.ids, drag.dx, drag.dy, nodeRadius) }));
+      suppressClick.current = true;
+    }
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    setDrag(null);
+  };
+
   const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (tool === 'select') {
       const pos = getMousePos(e);
       const hoveredNode = findNodeAt(pos.x, pos.y);
       setHoveredNode(hoveredNode?.id || null);
     }
-    
-    // Clear editing state when clicking elsewhere
-    if (editingEdge) {
-      setEditingEdge(null);
-    }
   };
 
   const handleWeightSubmit = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && editingEdge) {
-      const weight = parseInt(editWeight);
-      if (!isNaN(weight) && weight > 0) {
-        setGraphData(prev => ({
-          ...prev,
-          edges: prev.edges.map(edge => 
-            edge.id === editingEdge 
-              ? { ...edge, weight }
-              : edge
-          )
-        }));
-        
-        toast({
-          title: "Weight Updated",
-          description: `Edge weight set to ${weight}`,
-        });
+      const parsed = parseWeightInput(editWeight);
+      if ('error' in parsed) {
+        // Keep the box open so the value can be corrected.
+        toast({ title: "Invalid Weight", description: parsed.error, variant: "destructive" });
+        return;
       }
-      
+      setGraphData(prev => setEdgeWeight(prev, editingEdge, parsed.weight));
+      toast({
+        title: "Weight Updated",
+        description: parsed.weight === undefined ? "Edge is now unweighted" : `Edge weight set to ${parsed.weight}`,
+      });
+
       setEditingEdge(null);
       setEditWeight('');
     }
-    
+
     if (e.key === 'Escape') {
       setEditingEdge(null);
       setEditWeight('');
@@ -319,13 +681,14 @@ export const GraphCanvas = ({ graphData, setGraphData, isDirected, setIsDirected
 
   const clearGraph = () => {
     setGraphData({ nodes: [], edges: [] });
-    setSelectedNode(null);
+    setSelectedNodes([]);
+    setSelectedEdge(null);
     setIsDrawingEdge(false);
     setEdgeStart(null);
     setEditingEdge(null);
     toast({
       title: "Graph Cleared",
-      description: "All nodes and edges have been removed",
+      description: onUndo ? "All nodes and edges have been removed. Press Ctrl+Z to undo." : "All nodes and edges have been removed",
     });
   };
 
@@ -358,6 +721,17 @@ export const GraphCanvas = ({ graphData, setGraphData, isDirected, setIsDirected
               <Minus className="h-4 w-4 mr-2" />
               Add Edge
             </Button>
+            <Select value={weightPolicy} onValueChange={value => setWeightPolicy(value as WeightPolicy)}>
+              <SelectTrigger className="h-9 w-auto gap-1 text-xs" title="Weight given to edges drawn with Add Edge">
+                <span className="text-muted-foreground">New edges:</span>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(weightPolicyLabels) as WeightPolicy[]).map(policy => (
+                  <SelectItem key={policy} value={policy}>{weightPolicyLabels[policy]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             {/* Directed/Undirected Toggle */}
             <label className="flex items-center gap-1 ml-2 cursor-pointer select-none text-xs">
               <input
@@ -369,6 +743,38 @@ export const GraphCanvas = ({ graphData, setGraphData, isDirected, setIsDirected
               <ArrowRightLeft className="h-4 w-4" />
               {isDirected ? 'Directed' : 'Undirected'}
             </label>
+            {setAllowMultigraph && (
+              <label
+                className="flex items-center gap-1 ml-2 cursor-pointer select-none text-xs"
+                title={hasLoopsOrParallels ? 'The graph has self-loops or parallel edges' : 'Allow self-loops and parallel edges'}
+              >
+                <input
+                  type="checkbox"
+                  checked={isMultigraph}
+                  disabled={hasLoopsOrParallels}
+                  onChange={e => setAllowMultigraph(e.target.checked)}
+                  className="accent-primary"
+                />
+                Multigraph
+              </label>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="ml-2" disabled={graphData.nodes.length === 0}>
+                  <Network className="h-4 w-4 mr-2" />
+                  Layout
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                {(['force', 'layered', 'tree', 'radial'] as LayoutKind[]).map(kind => (
+                  <DropdownMenuItem key={kind} onSelect={() => applyLayout(kind)}>{layoutLabels[kind]}</DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                {(['circular', 'bipartite', 'grid'] as LayoutKind[]).map(kind => (
+                  <DropdownMenuItem key={kind} onSelect={() => applyLayout(kind)}>{layoutLabels[kind]}</DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
           
           <div className="flex items-center gap-4">
@@ -378,47 +784,189 @@ export const GraphCanvas = ({ graphData, setGraphData, isDirected, setIsDirected
             <Badge variant="outline">
               Edges: {graphData.edges.length}
             </Badge>
+            {onUndo && onRedo && (
+              <div className="flex items-center gap-1">
+                <Button variant="outline" size="icon" className="h-8 w-8" title="Undo (Ctrl+Z)" disabled={!canUndo} onClick={onUndo}>
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-8 w-8" title="Redo (Ctrl+Shift+Z)" disabled={!canRedo} onClick={onRedo}>
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
             <Button variant="outline" size="sm" onClick={clearGraph}>
               Clear
             </Button>
           </div>
         </div>
         
+        {tool === 'select' && selectedNodes.length > 1 && (
+          <div className="mt-2 text-sm text-muted-foreground">
+            {selectedNodes.length} nodes selected - drag any of them to move the group, Shift-click to add or remove, Ctrl+C to copy, Ctrl+D to duplicate
+          </div>
+        )}
+
+        {tool === 'select' && selectedEdge && !editingEdge && (
+          <div className="mt-2 text-sm text-muted-foreground">
+            Edge selected - press Delete to remove it, or right-click for more options
+          </div>
+        )}
+
         {isDrawingEdge && (
           <div className="mt-2 text-sm text-muted-foreground">
-            Click on another node to create an edge
+            Click on another node to create an edge{isMultigraph ? ', or on the same node for a self-loop' : ''} - Escape to cancel
           </div>
         )}
         
         {editingEdge && (
           <div className="mt-2 text-sm text-muted-foreground">
-            Editing edge weight - Press Enter to save, Escape to cancel
+            Editing edge weight - negative and decimal weights are allowed, leave blank for an unweighted edge. Press Enter to save, Escape to cancel
+          </div>
+        )}
+
+        {renamingNode && (
+          <div className="mt-2 text-sm text-muted-foreground">
+            Renaming node - Press Enter to save, Escape to cancel
           </div>
         )}
       </div>
       
-      <div className="flex-1 flex items-center justify-center bg-canvas-background relative">
-        <canvas
-          ref={canvasRef}
-          width={canvasWidth}
-          height={canvasHeight}
-          className="border border-border rounded-lg cursor-crosshair"
-          onClick={handleCanvasClick}
-          onMouseMove={handleCanvasMouseMove}
-        />
-        
+      <div ref={containerRef} className="relative h-[70vh] min-h-[320px] overflow-hidden bg-canvas-background">
+        <ContextMenu>
+          <ContextMenuTrigger asChild>
+            <canvas
+              ref={canvasRef}
+              width={Math.round(viewSize.width * pixelRatio)}
+              height={Math.round(viewSize.height * pixelRatio)}
+              tabIndex={0}
+              className={`absolute inset-0 h-full w-full outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring ${pan || drag?.moved ? 'cursor-grabbing' : spaceHeld || (tool === 'select' && hoveredNode) ? 'cursor-grab' : 'cursor-crosshair'}`}
+              onClick={handleCanvasClick}
+              onMouseMove={handleCanvasMouseMove}
+              onKeyDown={handleCanvasKeyDown}
+              onContextMenu={handleContextMenu}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => {
+                setDrag(null);
+                setPan(null);
+                setMarquee(null);
+              }}
+            />
+          </ContextMenuTrigger>
+          {/* Keep focus where the chosen item puts it, e.g. in the weight or rename box. */}
+          <ContextMenuContent className="w-52" onCloseAutoFocus={e => e.preventDefault()}>
+            {menuTarget.kind === 'canvas' && (
+              <>
+                <ContextMenuItem onSelect={() => pasteClipboard(menuTarget.at)}>
+                  Paste here
+                  <ContextMenuShortcut>Ctrl+V</ContextMenuShortcut>
+                </ContextMenuItem>
+                <ContextMenuItem disabled={graphData.nodes.length === 0} onSelect={selectAll}>
+                  Select all nodes
+                  <ContextMenuShortcut>Ctrl+A</ContextMenuShortcut>
+                </ContextMenuItem>
+              </>
+            )}
+            {menuTarget.kind === 'node' && (
+              <>
+                <ContextMenuItem disabled={selectedNodes.length !== 1} onSelect={() => startRename(menuTarget.id)}>
+                  Rename
+                  <ContextMenuShortcut>F2</ContextMenuShortcut>
+                </ContextMenuItem>
+                <ContextMenuSeparator />
+                <ContextMenuItem onSelect={() => copySelection(false)}>
+                  Copy
+                  <ContextMenuShortcut>Ctrl+C</ContextMenuShortcut>
+                </ContextMenuItem>
+                <ContextMenuItem onSelect={() => copySelection(true)}>
+                  Cut
+                  <ContextMenuShortcut>Ctrl+X</ContextMenuShortcut>
+                </ContextMenuItem>
+                <ContextMenuItem onSelect={duplicateSelection}>
+                  Duplicate
+                  <ContextMenuShortcut>Ctrl+D</ContextMenuShortcut>
+                </ContextMenuItem>
+                <ContextMenuSeparator />
+                <ContextMenuItem className="text-destructive" onSelect={deleteSelection}>
+                  {selectedNodes.length > 1 ? `Delete ${selectedNodes.length} nodes` : 'Delete node'}
+                  <ContextMenuShortcut>Del</ContextMenuShortcut>
+                </ContextMenuItem>
+              </>
+            )}
+            {menuTarget.kind === 'edge' && (
+              <>
+                <ContextMenuItem
+                  onSelect={() => {
+                    const edge = graphData.edges.find(e => e.id === menuTarget.id);
+                    if (edge) startWeightEdit(edge);
+                  }}
+                >
+                  Edit weight
+                </ContextMenuItem>
+                <ContextMenuItem disabled={!isDirected} onSelect={() => handleReverse(menuTarget.id)}>
+                  Reverse direction
+                </ContextMenuItem>
+                <ContextMenuSeparator />
+                <ContextMenuItem className="text-destructive" onSelect={deleteSelection}>
+                  Delete edge
+                  <ContextMenuShortcut>Del</ContextMenuShortcut>
+                </ContextMenuItem>
+              </>
+            )}
+          </ContextMenuContent>
+        </ContextMenu>
+
         {editingEdge && (
           <div className="absolute top-4 left-4 z-10">
             <Input
               value={editWeight}
               onChange={(e) => setEditWeight(e.target.value)}
               onKeyDown={handleWeightSubmit}
-              placeholder="Enter weight"
+              placeholder="Weight (blank = unweighted)"
+              className="w-32"
+              autoFocus
+            />
+          </div>
+        )}
+
+        {renamingNode && (
+          <div className="absolute top-4 left-4 z-10">
+            <Input
+              value={renameText}
+              onChange={(e) => setRenameText(e.target.value)}
+              onKeyDown={handleRenameSubmit}
+              placeholder="Node label"
               className="w-32"
               autoFocus
             />
           </div>
         )}
+
+        <div className="absolute bottom-3 left-3 z-10 flex items-center gap-1 rounded-md border border-border bg-card/90 p-1">
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Zoom out" onClick={() => zoomBy(1 / ZOOM_STEP)}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-12 text-center text-xs tabular-nums text-muted-foreground">{Math.round(camera.zoom * 100)}%</span>
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Zoom in" onClick={() => zoomBy(ZOOM_STEP)}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Fit graph to view" onClick={fitToView}>
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {showMinimap && (
+          <canvas
+            ref={minimapRef}
+            width={Math.round(MINIMAP_WIDTH * pixelRatio)}
+            height={Math.round(worldRect.height * minimapScale * pixelRatio)}
+            style={{ width: MINIMAP_WIDTH, height: worldRect.height * minimapScale }}
+            className="absolute bottom-3 right-3 z-10 cursor-pointer rounded-md border border-border shadow-md"
+            onPointerDown={handleMinimapPointer}
+            onPointerMove={handleMinimapPointer}
+          />
+        )}
       </div>
     </div>
   );
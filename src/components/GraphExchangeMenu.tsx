@@ -0,0 +1,158 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArrowLeftRight } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { GraphData } from "@/lib/graph-types";
+import { GraphImportError, ImportedGraph } from "@/lib/graph-import";
+import { parseGraphML, toGraphML } from "@/lib/graphml";
+import { parseDot, toDot } from "@/lib/dot";
+import { downloadFile, toFileName } from "@/lib/download";
+
+interface GraphFormat {
+  label: string;
+  extension: string;
+  accept: string;
+  mimeType: string;
+  /** Placeholder for the paste dialog. */
+  example?: string;
+  parse: (text: string) => ImportedGraph;
+  serialize: (graphData: GraphData, isDirected: boolean, name?: string) => string;
+}
+
+const FORMATS: GraphFormat[] = [
+  { label: 'GraphML', extension: '.graphml', accept: '.graphml,.xml', mimeType: 'application/graphml+xml', parse: parseGraphML, serialize: toGraphML },
+  { label: 'DOT', extension: '.dot', accept: '.dot,.gv', mimeType: 'text/vnd.graphviz', example: 'digraph { a -> b [weight=2] }', parse: parseDot, serialize: toDot },
+];
+
+interface GraphExchangeMenuProps {
+  graphData: GraphData;
+  isDirected: boolean;
+  name?: string;
+  onImport: (imported: ImportedGraph, name: string) => void;
+}
+
+export const GraphExchangeMenu = ({ graphData, isDirected, name, onImport }: GraphExchangeMenuProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFormat, setImportFormat] = useState<GraphFormat>(FORMATS[0]);
+  const [pasteFormat, setPasteFormat] = useState<GraphFormat | null>(null);
+  const [pastedText, setPastedText] = useState('');
+  const { toast } = useToast();
+
+  const chooseFile = (format: GraphFormat) => {
+    setImportFormat(format);
+    // The accept filter has to be in place before the picker opens.
+    if (fileInputRef.current) fileInputRef.current.accept = format.accept;
+    fileInputRef.current?.click();
+  };
+
+  // Returns whether the text was imported, so the paste dialog can stay open on errors.
+  const importText = (format: GraphFormat, text: string, graphName: string, source: string) => {
+    try {
+      const imported = format.parse(text);
+      onImport(imported, graphName);
+      toast({
+        title: `Imported ${format.label}`,
+        description: (
+          <div className="space-y-1">
+            <div>Loaded {imported.graphData.nodes.length} nodes and {imported.graphData.edges.length} edges.</div>
+            {imported.warnings.slice(0, 5).map(warning => <div key={warning} className="text-xs">{warning}</div>)}
+            {imported.warnings.length > 5 && <div className="text-xs">…and {imported.warnings.length - 5} more</div>}
+          </div>
+        ),
+      });
+      return true;
+    } catch (error) {
+      if (!(error instanceof GraphImportError)) throw error;
+      toast({ title: `Could Not Import ${source}`, description: error.message, variant: "destructive" });
+      return false;
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    importText(importFormat, await file.text(), file.name.replace(/\.[^.]+$/, ''), file.name);
+  };
+
+  const handlePaste = () => {
+    if (pasteFormat && importText(pasteFormat, pastedText, name ?? 'Pasted graph', `Pasted ${pasteFormat.label}`)) {
+      setPasteFormat(null);
+      setPastedText('');
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) handleFile(file);
+        }}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <ArrowLeftRight className="h-4 w-4 mr-2" />
+            Import / Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Import</DropdownMenuLabel>
+          {FORMATS.map(format => (
+            <DropdownMenuItem key={`import-${format.label}`} onSelect={() => chooseFile(format)}>
+              {format.label} ({format.extension})
+            </DropdownMenuItem>
+          ))}
+          {FORMATS.map(format => (
+            <DropdownMenuItem key={`paste-${format.label}`} onSelect={() => setPasteFormat(format)}>
+              Paste {format.label}…
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Export</DropdownMenuLabel>
+          {FORMATS.map(format => (
+            <DropdownMenuItem
+              key={`export-${format.label}`}
+              disabled={graphData.nodes.length === 0}
+              onSelect={() => downloadFile(`${toFileName(name ?? 'graph')}${format.extension}`, format.serialize(graphData, isDirected, name), format.mimeType)}
+            >
+              {format.label} ({format.extension})
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog open={pasteFormat !== null} onOpenChange={open => !open && setPasteFormat(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Paste {pasteFormat?.label}</DialogTitle>
+            <DialogDescription>The pasted graph replaces the one on the canvas.</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            className="font-mono text-xs min-h-[300px]"
+            value={pastedText}
+            autoFocus
+            spellCheck={false}
+            placeholder={pasteFormat?.example}
+            onChange={e => setPastedText(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPasteFormat(null)}>Cancel</Button>
+            <Button onClick={handlePaste} disabled={!pastedText.trim()}>Import</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
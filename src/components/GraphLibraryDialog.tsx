@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Copy, Library, Pencil, Search, Trash2 } from "lucide-react";
+import { LibraryEntry, parseTags, searchEntries } from "@/lib/graph-library";
+import { GraphLibraryApi } from "@/hooks/use-graph-library";
+
+interface GraphLibraryDialogProps {
+  library: GraphLibraryApi;
+  currentName?: string;
+  /** Saves the graph on the canvas under `name`. */
+  onSaveCurrent: (name: string, tags: string[]) => Promise<void>;
+  onOpen: (entry: LibraryEntry) => void;
+}
+
+export const GraphLibraryDialog = ({ library, currentName, onSaveCurrent, onOpen }: GraphLibraryDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+
+  const visibleEntries = searchEntries(library.entries, query);
+
+  const handleSave = async () => {
+    await onSaveCurrent(name.trim() || currentName || 'Untitled graph', parseTags(tags));
+    setName('');
+    setTags('');
+  };
+
+  const commitEdit = async () => {
+    if (!editing) return;
+    const entry = library.entries.find(e => e.id === editing.id);
+    if (entry && editing.name.trim() && editing.name.trim() !== entry.name) await library.rename(entry.id, editing.name.trim());
+    if (entry && parseTags(editing.tags).join(',') !== entry.tags.join(',')) await library.setTags(entry.id, parseTags(editing.tags));
+    setEditing(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Library className="h-4 w-4 mr-2" />
+          Library
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Graph Library</DialogTitle>
+          <DialogDescription>Graphs saved in this browser. The working graph is also autosaved.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input placeholder={currentName || 'Name'} value={name} onChange={e => setName(e.target.value)} />
+          <Input placeholder="Tags, comma separated" value={tags} onChange={e => setTags(e.target.value)} />
+          <Button onClick={handleSave}>Save Current</Button>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input className="pl-8" placeholder="Search by name or tag" value={query} onChange={e => setQuery(e.target.value)} />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-[50vh] overflow-y-auto">
+          {visibleEntries.length === 0 && (
+            <div className="col-span-full text-sm text-muted-foreground text-center py-6">
+              {library.entries.length === 0 ? 'No saved graphs yet.' : 'No graphs match your search.'}
+            </div>
+          )}
+          {visibleEntries.map(entry => (
+            <div key={entry.id} className="border border-border rounded-lg p-2 space-y-2 bg-card/60">
+              <button
+                type="button"
+                className="block w-full aspect-[3/2] bg-muted/30 rounded overflow-hidden"
+                onClick={() => {
+                  onOpen(entry);
+                  setOpen(false);
+                }}
+                title={`Open ${entry.name}`}
+              >
+                {entry.thumbnail && <img src={entry.thumbnail} alt={entry.name} className="w-full h-full object-contain" />}
+              </button>
+              {editing?.id === entry.id ? (
+                <div className="space-y-1">
+                  <Input
+                    className="h-8"
+                    value={editing.name}
+                    autoFocus
+                    onChange={e => setEditing({ ...editing, name: e.target.value })}
+                    onKeyDown={e => e.key === 'Enter' && commitEdit()}
+                  />
+                  <Input
+                    className="h-8"
+                    placeholder="Tags"
+                    value={editing.tags}
+                    onChange={e => setEditing({ ...editing, tags: e.target.value })}
+                    onKeyDown={e => e.key === 'Enter' && commitEdit()}
+                  />
+                  <div className="flex gap-1 justify-end">
+                    <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+                    <Button size="sm" onClick={commitEdit}>Done</Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="text-sm font-medium truncate" title={entry.name}>{entry.name}</div>
+                  <div className="flex flex-wrap gap-1 min-h-5">
+                    {entry.tags.map(tag => (
+                      <Badge key={tag} variant="outline" className="cursor-pointer" onClick={() => setQuery(tag)}>{tag}</Badge>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">{new Date(entry.updatedAt).toLocaleDateString()}</span>
+                    <div className="flex">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" title="Rename and tag"
+                        onClick={() => setEditing({ id: entry.id, name: entry.name, tags: entry.tags.join(', ') })}>
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" title="Duplicate" onClick={() => library.duplicate(entry.id)}>
+                        <Copy className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" title="Delete"
+                        onClick={() => window.confirm(`Delete "${entry.name}"?`) && library.remove(entry.id)}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertCircle, X } from "lucide-react";
+import { GraphData } from "@/lib/graph-types";
+import {
+  GraphTextError,
+  GraphTextFormat,
+  applyGraphDescription,
+  formatGraphText,
+  graphTextFormatLabels,
+  parseGraphText,
+} from "@/lib/graph-text";
+
+interface GraphTextEditorProps {
+  graphData: GraphData;
+  setGraphData: React.Dispatch<React.SetStateAction<GraphData>>;
+  isDirected: boolean;
+  /** Accept self-loops and repeated edges. */
+  multigraph?: boolean;
+  onClose: () => void;
+}
+
+const APPLY_DELAY = 300;
+
+const HELP: Record<GraphTextFormat, string> = {
+  'edge-list': 'One edge per line: "A B 4" (weight optional). A lone label adds a node; # starts a comment.',
+  'adjacency-matrix': 'Header row of labels, then one row per node. Use a number for a weight, x for an unweighted edge, . for none.',
+};
+
+export const GraphTextEditor = ({ graphData, setGraphData, isDirected, multigraph = false, onClose }: GraphTextEditorProps) => {
+  const [format, setFormat] = useState<GraphTextFormat>('edge-list');
+  const [text, setText] = useState(() => formatGraphText(graphData, 'edge-list', isDirected));
+  const [errors, setErrors] = useState<GraphTextError[]>([]);
+  // The text form of the graph the editor last showed or produced. Canvas edits change it and
+  // replace the text; edits that came from the text leave it alone, so the user's layout is kept.
+  const syncedText = useRef(text);
+
+  useEffect(() => {
+    const formatted = formatGraphText(graphData, format, isDirected);
+    if (formatted !== syncedText.current) {
+      syncedText.current = formatted;
+      setText(formatted);
+      setErrors([]);
+    }
+  }, [graphData, format, isDirected]);
+
+  useEffect(() => {
+    if (text === syncedText.current) return;
+    const timeout = setTimeout(() => {
+      const { description, errors } = parseGraphText(text, format, isDirected, multigraph);
+      setErrors(errors);
+      if (!description) return;
+      setGraphData(prev => {
+        const next = applyGraphDescription(prev, description, isDirected);
+        syncedText.current = formatGraphText(next, format, isDirected);
+        return next;
+      });
+    }, APPLY_DELAY);
+    return () => clearTimeout(timeout);
+  }, [text, format, isDirected, multigraph, setGraphData]);
+
+  const lineCount = Math.max(text.split('\n').length, 1);
+  const errorLines = new Set(errors.map(error => error.line));
+
+  return (
+    <div className="w-80 border-l border-border bg-card/50 flex flex-col h-full">
+      <div className="flex items-center justify-between p-3 border-b border-border">
+        <h3 className="font-semibold text-sm">Graph as Text</h3>
+        <Button size="icon" variant="ghost" className="h-7 w-7" title="Close text editor" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="p-3 space-y-2 flex-1 flex flex-col min-h-0">
+        <Tabs
+          value={format}
+          onValueChange={value => {
+            const next = value as GraphTextFormat;
+            const formatted = formatGraphText(graphData, next, isDirected);
+            syncedText.current = formatted;
+            setText(formatted);
+            setErrors([]);
+            setFormat(next);
+          }}
+        >
+          <TabsList className="w-full">
+            {(Object.keys(graphTextFormatLabels) as GraphTextFormat[]).map(key => (
+              <TabsTrigger key={key} value={key} className="flex-1 text-xs">{graphTextFormatLabels[key]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <p className="text-xs text-muted-foreground">{HELP[format]}</p>
+        <div className="flex flex-1 min-h-0 border border-border rounded-md overflow-auto bg-background font-mono text-xs">
+          <div className="select-none text-right py-2 px-2 text-muted-foreground/60 bg-muted/20" aria-hidden>
+            {Array.from({ length: lineCount }, (_, i) => (
+              <div key={i} className={`leading-5 ${errorLines.has(i + 1) ? 'text-destructive font-bold' : ''}`}>{i + 1}</div>
+            ))}
+          </div>
+          <Textarea
+            className="flex-1 min-h-full border-0 rounded-none resize-none font-mono text-xs leading-5 py-2 focus-visible:ring-0 whitespace-pre overflow-hidden"
+            rows={lineCount}
+            value={text}
+            spellCheck={false}
+            wrap="off"
+            placeholder={format === 'edge-list' ? 'A B 4\nB C 2' : '  A B\nA . 4\nB 4 .'}
+            onChange={e => setText(e.target.value)}
+          />
+        </div>
+        {errors.length > 0 && (
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {errors.map(error => (
+              <div key={`${error.line}-${error.message}`} className="flex items-start gap-1 text-xs text-destructive">
+                <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <span>Line {error.line}: {error.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
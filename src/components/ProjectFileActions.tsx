@@ -0,0 +1,66 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { FolderOpen, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { PROJECT_FILE_EXTENSION, ProjectFileError, ProjectState, parseProject, serializeProject } from "@/lib/project-file";
+import { downloadFile, toFileName } from "@/lib/download";
+
+interface ProjectFileActionsProps {
+  getProject: () => ProjectState;
+  onOpen: (project: ProjectState) => void;
+}
+
+export const ProjectFileActions = ({ getProject, onOpen }: ProjectFileActionsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleSave = () => {
+    const project = getProject();
+    downloadFile(`${toFileName(project.name ?? 'graph')}${PROJECT_FILE_EXTENSION}`, serializeProject(project), 'application/json');
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      onOpen({ ...project, name: project.name ?? file.name.replace(/(\.graph)?\.json$/i, '') });
+      toast({ title: "Project Opened", description: `Loaded ${project.graphData.nodes.length} nodes and ${project.graphData.edges.length} edges.` });
+    } catch (error) {
+      if (!(error instanceof ProjectFileError)) throw error;
+      toast({
+        title: `Could Not Open ${file.name}`,
+        description: (
+          <div className="space-y-1">
+            <div>{error.message}</div>
+            {error.issues.slice(0, 5).map(issue => <div key={issue} className="font-mono text-xs">{issue}</div>)}
+            {error.issues.length > 5 && <div className="text-xs">…and {error.issues.length - 5} more</div>}
+          </div>
+        ),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) handleFile(file);
+        }}
+      />
+      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+        <FolderOpen className="h-4 w-4 mr-2" />
+        Open File
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleSave}>
+        <Save className="h-4 w-4 mr-2" />
+        Save to File
+      </Button>
+    </>
+  );
+};
@@ -0,0 +1,35 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { SessionRecord } from "@/lib/graph-library";
+
+interface RestoreSessionDialogProps {
+  session: SessionRecord | null;
+  onRestore: (session: SessionRecord) => void;
+  onDiscard: () => void;
+}
+
+export const RestoreSessionDialog = ({ session, onRestore, onDiscard }: RestoreSessionDialogProps) => (
+  <AlertDialog open={session !== null} onOpenChange={open => !open && onDiscard()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Restore last session?</AlertDialogTitle>
+        <AlertDialogDescription>
+          {session && `Your graph was autosaved on ${new Date(session.savedAt).toLocaleString()}. `}
+          Starting fresh replaces the autosave as soon as you add to the new graph.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Start Fresh</AlertDialogCancel>
+        <AlertDialogAction onClick={() => session && onRestore(session)}>Restore</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Share2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ProjectState } from "@/lib/project-file";
+import { ShareLinkError, createShareUrl } from "@/lib/share-link";
+
+interface ShareLinkDialogProps {
+  getProject: () => ProjectState;
+  /** The step on screen, when a run is loaded. */
+  step?: number;
+}
+
+type LinkState = { status: 'pending' } | { status: 'ready'; url: string } | { status: 'error'; message: string };
+
+export const ShareLinkDialog = ({ getProject, step }: ShareLinkDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [includeStep, setIncludeStep] = useState(true);
+  const [link, setLink] = useState<LinkState>({ status: 'pending' });
+  const { toast } = useToast();
+
+  // Built when asked for rather than on every edit, since compressing is asynchronous.
+  const generate = async (withStep: boolean) => {
+    setLink({ status: 'pending' });
+    try {
+      const url = await createShareUrl({ project: getProject(), step: withStep ? step : undefined }, window.location.origin);
+      setLink({ status: 'ready', url });
+    } catch (error) {
+      // Anything else (compression or encoding failing in this browser) gets a general message.
+      const message = error instanceof ShareLinkError ? error.message : "This browser could not build the link.";
+      setLink({ status: 'error', message });
+    }
+  };
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // Refused permission or an insecure page; clicking the field selects the whole link.
+      toast({ title: "Could Not Copy", description: "Clipboard access was refused. Click the link above to select it and copy it yourself.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Link Copied", description: "Anyone opening it sees this graph and view." });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={next => {
+        if (next) void generate(includeStep);
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Share2 className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share Link</DialogTitle>
+          <DialogDescription>
+            The link carries the graph, the algorithm and its settings, so it opens the same view with no account or upload.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step !== undefined && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="share-step"
+              checked={includeStep}
+              onCheckedChange={checked => {
+                setIncludeStep(checked);
+                void generate(checked);
+              }}
+            />
+            <Label htmlFor="share-step">Open at step {step + 1} of the run</Label>
+          </div>
+        )}
+
+        {link.status === 'pending' && <div className="text-sm text-muted-foreground">Creating link…</div>}
+        {link.status === 'ready' && (
+          <div className="space-y-1">
+            <Input value={link.url} readOnly className="font-mono text-xs" onFocus={event => event.target.select()} />
+            <div className="text-xs text-muted-foreground">{link.url.length.toLocaleString('en-US')} characters</div>
+          </div>
+        )}
+        {link.status === 'error' && (
+          <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">{link.message}</div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => link.status === 'ready' && copy(link.url)} disabled={link.status !== 'ready'}>Copy Link</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { EditHistory, emptyHistory, recordEdit, redoEdit, undoEdit } from "@/lib/edit-history";
+
+// Shortcuts typed into a field belong to that field's own undo.
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA");
+
+/**
+ * Undo/redo for a document kept elsewhere. Call `record` right before each edit; `getSnapshot`
+ * reads the document as it is now and `restore` puts a snapshot back. Ctrl+Z, Ctrl+Shift+Z and
+ * Ctrl+Y work anywhere on the page outside text fields.
+ */
+export function useEditHistory<T>(getSnapshot: () => T, restore: (snapshot: T) => void) {
+  const history = useRef<EditHistory<T>>(emptyHistory());
+  const [, setVersion] = useState(0);
+  const latest = useRef({ getSnapshot, restore });
+  latest.current = { getSnapshot, restore };
+
+  const apply = useCallback((next: EditHistory<T>) => {
+    history.current = next;
+    setVersion(version => version + 1);
+  }, []);
+
+  const record = useCallback((key?: string) => {
+    apply(recordEdit(history.current, latest.current.getSnapshot(), key));
+  }, [apply]);
+
+  const step = useCallback((move: typeof undoEdit) => {
+    const result = move(history.current, latest.current.getSnapshot());
+    if (!result) return;
+    apply(result.history);
+    latest.current.restore(result.snapshot);
+  }, [apply]);
+
+  const undo = useCallback(() => step(undoEdit), [step]);
+  const redo = useCallback(() => step(redoEdit), [step]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: history.current.past.length > 0,
+    canRedo: history.current.future.length > 0,
+  };
+}
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  GraphLibrary,
+  LibraryEntry,
+  SessionRecord,
+  createIndexedDbStore,
+  createMemoryStore,
+} from "@/lib/graph-library";
+import { toast } from "@/hooks/use-toast";
+
+// One library per page; private browsing modes without IndexedDB fall back to memory.
+const library = new GraphLibrary(typeof indexedDB === "undefined" ? createMemoryStore() : createIndexedDbStore());
+
+const AUTOSAVE_DELAY = 1000;
+// Autosave retries on every change, so a failing store is reported once rather than every second.
+let autosaveFailureShown = false;
+// Every library view asks, but a store that only lives in memory is worth one warning per page.
+let memoryWarningShown = false;
+
+// Storage can still fail after opening, e.g. when the quota is full; say so instead of failing silently.
+const reportLibraryError = (title: string, error: unknown) =>
+  toast({ title, description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+const THUMBNAIL_WIDTH = 240;
+
+/** Downscales the canvas into a PNG data URL small enough to keep one per library entry. */
+export function captureThumbnail(canvas: HTMLCanvasElement | null): string | undefined {
+  if (!canvas || canvas.width === 0) return undefined;
+  const thumbnail = document.createElement("canvas");
+  thumbnail.width = THUMBNAIL_WIDTH;
+  thumbnail.height = Math.round((canvas.height / canvas.width) * THUMBNAIL_WIDTH);
+  thumbnail.getContext("2d")?.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+  return thumbnail.toDataURL("image/png");
+}
+
+export function useGraphLibrary() {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await library.list());
+    } catch (error) {
+      reportLibraryError("Could Not Read the Library", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    library.isPersistent().then(persistent => {
+      if (persistent || memoryWarningShown) return;
+      memoryWarningShown = true;
+      toast({
+        title: "Library Is Not Being Saved",
+        description: "This browser refused storage (private mode or a full disk), so saved graphs and the autosave last only until this page is closed.",
+      });
+    });
+  }, []);
+
+  // Every mutation re-reads the list so all views stay in sync. Failures are reported here and
+  // resolve to undefined, so callers only need to check the result.
+  const mutate = <Args extends unknown[], Result>(action: (...args: Args) => Promise<Result>) =>
+    async (...args: Args): Promise<Result | undefined> => {
+      try {
+        return await action(...args);
+      } catch (error) {
+        reportLibraryError("Library Update Failed", error);
+        return undefined;
+      } finally {
+        await refresh();
+      }
+    };
+
+  return {
+    entries,
+    save: mutate((fields: Parameters<GraphLibrary["save"]>[0]) => library.save(fields)),
+    update: mutate((id: string, changes: Parameters<GraphLibrary["update"]>[1]) => library.update(id, changes)),
+    rename: mutate((id: string, name: string) => library.rename(id, name)),
+    setTags: mutate((id: string, tags: string[]) => library.setTags(id, tags)),
+    duplicate: mutate((id: string) => library.duplicate(id)),
+    remove: mutate((id: string) => library.remove(id)),
+  };
+}
+
+export type GraphLibraryApi = ReturnType<typeof useGraphLibrary>;
+
+export function loadLastSession(): Promise<SessionRecord | undefined> {
+  return library.loadSession();
+}
+
+/** Saves `project` as the working session once it has stopped changing for a moment. */
+export function useAutosave(project: string, enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    const timeout = setTimeout(() => {
+      library.saveSession(project).then(
+        () => { autosaveFailureShown = false; },
+        error => {
+          if (autosaveFailureShown) return;
+          autosaveFailureShown = true;
+          reportLibraryError("Autosave Failed", error);
+        }
+      );
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [project, enabled]);
+}
@@ -0,0 +1,389 @@
+// src/lib/algorithm-registry.ts
+// Single source of truth for every algorithm the visualizer can run.
+// To add an algorithm, implement it on AlgorithmRunner and append one entry to `algorithmList`.
+import { AlgorithmRunner, AlgorithmExecution, AlgorithmRunnerOptions } from './algorithms';
+import { GraphData } from './graph-types';
+import { HeuristicKind, heuristicLabels } from './heuristics';
+
+export type AlgorithmInput = 'start' | 'end' | 'source' | 'sink';
+/** `multigraph`: correct with self-loops and parallel edges, e.g. by taking the lightest of the parallel edges. */
+export type GraphKind = 'directed' | 'undirected' | 'weighted' | 'multigraph';
+
+export interface AlgorithmRunParams {
+  start?: string;
+  end?: string;
+  source?: string;
+  sink?: string;
+  stopAtTarget?: boolean;
+  heuristic?: HeuristicKind;
+  /** Per-node estimates for the 'custom' heuristic. */
+  heuristicValues?: Record<string, number>;
+}
+
+interface AlgorithmOptionBase {
+  key: Exclude<keyof AlgorithmRunParams, AlgorithmInput>;
+  label: string;
+  /** Hides the option while it has no effect, e.g. until an end node is chosen. */
+  visible?: (params: AlgorithmRunParams) => boolean;
+}
+
+/** A problem with the edge weights for one algorithm. Errors block the run; warnings are only shown. */
+export interface WeightIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** An extra, non-node setting an algorithm exposes in the controls. */
+export type AlgorithmOption =
+  | (AlgorithmOptionBase & { type: 'boolean' })
+  | (AlgorithmOptionBase & { type: 'select'; choices: { value: string; label: string }[]; default: string })
+  | (AlgorithmOptionBase & { type: 'node-values' });
+
+export interface AlgorithmDefinition<Id extends string = string> {
+  id: Id;
+  name: string;
+  description: string;
+  code: string[];
+  /** Node inputs the algorithm reads. Required inputs fall back to a default node when left empty. */
+  inputs: Partial<Record<AlgorithmInput, 'required' | 'optional'>>;
+  supports: GraphKind[];
+  options?: AlgorithmOption[];
+  /** Checks the weights before a run; left out by algorithms that ignore weights or accept any. */
+  checkWeights?: (graphData: GraphData, isDirected: boolean) => WeightIssue | null;
+  run: (runner: AlgorithmRunner, params: AlgorithmRunParams) => Promise<AlgorithmExecution>;
+}
+
+const defineAlgorithm = <Id extends string>(definition: AlgorithmDefinition<Id>) => definition;
+
+const countNegative = (graphData: GraphData) => graphData.edges.filter(edge => (edge.weight ?? 1) < 0).length;
+
+const describeNegative = (count: number) => `${count} edge${count === 1 ? ' has a' : 's have'} negative weight${count === 1 ? '' : 's'}.`;
+
+const requireNonNegative = (reason: string) => (graphData: GraphData): WeightIssue | null => {
+  const count = countNegative(graphData);
+  return count > 0 ? { severity: 'error', message: `${describeNegative(count)} ${reason}` } : null;
+};
+
+// Negative weights that the algorithm handles correctly but that a reader may not expect to work.
+const noteNegative = (reason: string) => (graphData: GraphData): WeightIssue | null => {
+  const count = countNegative(graphData);
+  return count > 0 ? { severity: 'warning', message: `${describeNegative(count)} ${reason}` } : null;
+};
+
+const MST_NEGATIVE_NOTE = 'That is fine here: a spanning tree only compares weights, so the negative edges are simply the cheapest.';
+
+// Negative weights are what these algorithms are for, except that an undirected negative edge can be walked back and forth forever.
+const warnUndirectedNegative = (graphData: GraphData, isDirected: boolean): WeightIssue | null => {
+  const count = isDirected ? 0 : countNegative(graphData);
+  return count > 0
+    ? { severity: 'warning', message: `${describeNegative(count)} In an undirected graph each one is a negative cycle by itself, so shortest paths through it are undefined.` }
+    : null;
+};
+
+const algorithmList = [
+  defineAlgorithm({
+    id: 'bfs',
+    name: 'Breadth-First Search',
+    description: 'Explores nodes level by level, guaranteeing shortest path in unweighted graphs.',
+    code: [
+      'function BFS(graph, startNode):',
+      '    queue = [startNode]',
+      '    visited = new Set()',
+      '    while queue is not empty:',
+      '        current = queue.dequeue()',
+      '        if current in visited:',
+      '            continue',
+      '        visited.add(current)',
+      '        for neighbor in graph.neighbors(current):',
+      '            if neighbor not in visited:',
+      '                queue.enqueue(neighbor)',
+      '    return visited'
+    ],
+    inputs: { start: 'required' },
+    supports: ['directed', 'undirected', 'multigraph'],
+    run: (runner, params) => runner.runBFS(params.start)
+  }),
+  defineAlgorithm({
+    id: 'dfs',
+    name: 'Depth-First Search',
+    description: 'Explores as far as possible along each branch before backtracking.',
+    code: [
+      'function DFS(graph, startNode):',
+      '    stack = [startNode]',
+      '    visited = new Set()',
+      '    while stack is not empty:',
+      '        current = stack.pop()',
+      '        if current in visited:',
+      '            continue',
+      '        visited.add(current)',
+      '        for neighbor in graph.neighbors(current):',
+      '            if neighbor not in visited:',
+      '                stack.push(neighbor)',
+      '    return visited'
+    ],
+    inputs: { start: 'required' },
+    supports: ['directed', 'undirected', 'multigraph'],
+    run: (runner, params) => runner.runDFS(params.start)
+  }),
+  defineAlgorithm({
+    id: 'dijkstra',
+    name: 'Dijkstra\'s Algorithm',
+    description: 'Finds shortest paths from source to all vertices in weighted graphs with non-negative weights.',
+    code: [
+      'function Dijkstra(graph, startNode, endNode):',
+      '    distances = {startNode: 0}',
+      '    pq = PriorityQueue([(0, startNode)])',
+      '    visited = new Set()',
+      '    while pq is not empty:',
+      '        currentDist, current = pq.pop()',
+      '        if current in visited:',
+      '            continue',
+      '        visited.add(current)',
+      '        for neighbor, weight in graph.edges(current):',
+      '            newDist = currentDist + weight',
+      '            if newDist < distances.get(neighbor, ∞):',
+      '                distances[neighbor] = newDist; previous[neighbor] = current',
+      '                pq.push((newDist, neighbor))',
+      '    path = follow previous[] back from endNode',
+      '    return distances, path'
+    ],
+    inputs: { start: 'required', end: 'optional' },
+    supports: ['directed', 'undirected', 'weighted', 'multigraph'],
+    options: [{ key: 'stopAtTarget', label: 'Stop once the end node is settled', type: 'boolean', visible: params => Boolean(params.end) }],
+    checkWeights: requireNonNegative('Dijkstra finalises each node once, so a negative edge found later cannot correct it. Use Bellman-Ford instead.'),
+    run: (runner, params) => runner.runDijkstra(params.start, params.end, params.stopAtTarget)
+  }),
+  defineAlgorithm({
+    id: 'bellman-ford',
+    name: 'Bellman-Ford Algorithm',
+    description: 'Finds shortest paths and detects negative cycles in weighted graphs.',
+    code: [
+      'function BellmanFord(graph, start, end):',
+      '    distances = {node: ∞}; distances[start] = 0',
+      '    for i from 1 to |V| - 1:',
+      '        for each edge (u, v) with weight w:',
+      '            if distances[u] + w < distances[v]:',
+      '                distances[v] = distances[u] + w; previous[v] = u',
+      '    for each edge (u, v) with weight w:',
+      '        if distances[u] + w < distances[v]:',
+      '            return "Negative weight cycle detected"',
+      '    path = follow previous[] back from end',
+      '    return distances, path'
+    ],
+    inputs: { start: 'required', end: 'optional' },
+    supports: ['directed', 'undirected', 'weighted', 'multigraph'],
+    checkWeights: warnUndirectedNegative,
+    run: (runner, params) => runner.runBellmanFord(params.start, params.end)
+  }),
+  defineAlgorithm({
+    id: 'a-star',
+    name: 'A* Search',
+    description: 'Finds a shortest path to a goal node, guided by a heuristic estimate of the remaining distance.',
+    code: [
+      'function A_Star(graph, start, goal, h):',
+      '    openSet = PriorityQueue([start])',
+      '    gScore = {node: ∞}; gScore[start] = 0',
+      '    fScore = {node: ∞}; fScore[start] = h(start)',
+      '    while openSet is not empty:',
+      '        current = node in openSet with lowest fScore',
+      '        if current == goal:',
+      '            return reconstruct_path(cameFrom, current)',
+      '        openSet.remove(current)',
+      '        for neighbor, weight in graph.edges(current):',
+      '            tentative_gScore = gScore[current] + weight',
+      '            if tentative_gScore < gScore[neighbor]:',
+      '                cameFrom[neighbor] = current',
+      '                gScore[neighbor] = tentative_gScore',
+      '                fScore[neighbor] = gScore[neighbor] + h(neighbor)',
+      '                if neighbor not in openSet:',
+      '                    openSet.add(neighbor)',
+      '    return failure'
+    ],
+    inputs: { start: 'required', end: 'required' },
+    supports: ['directed', 'undirected', 'weighted', 'multigraph'],
+    options: [
+      {
+        key: 'heuristic',
+        label: 'Heuristic',
+        type: 'select',
+        choices: (Object.keys(heuristicLabels) as HeuristicKind[]).map(kind => ({ value: kind, label: heuristicLabels[kind] })),
+        default: 'scaled-euclidean'
+      },
+      { key: 'heuristicValues', label: 'h values', type: 'node-values', visible: params => params.heuristic === 'custom' }
+    ],
+    checkWeights: requireNonNegative('A* closes each node once, like Dijkstra, so it needs non-negative weights. Use Bellman-Ford instead.'),
+    run: (runner, params) => runner.runAStar(params.start, params.end, params.heuristic, params.heuristicValues)
+  }),
+  defineAlgorithm({
+    id: 'prim',
+    name: 'Prim\'s Algorithm (MST)',
+    description: 'Builds minimum spanning tree by adding minimum weight edges.',
+    code: [
+      'function Prims(graph, startNode):',
+      '    MST = []',
+      '    visited = new Set()',
+      '    pq = new PriorityQueue()',
+      '    visited.add(startNode)',
+      '    add_edges_to_pq(startNode, pq)',
+      '    while pq is not empty:',
+      '        edge = pq.extract_min()',
+      '        node = edge.unvisited_node()',
+      '        if node is visited:',
+      '            continue',
+      '        visited.add(node)',
+      '        MST.add(edge)',
+      '        add_edges_to_pq(node, pq)',
+      '    return MST'
+    ],
+    inputs: { start: 'required' },
+    supports: ['undirected', 'weighted', 'multigraph'],
+    checkWeights: noteNegative(MST_NEGATIVE_NOTE),
+    run: (runner, params) => runner.runPrims(params.start)
+  }),
+  defineAlgorithm({
+    id: 'kruskal',
+    name: 'Kruskal\'s Algorithm (MST)',
+    description: 'Builds minimum spanning tree by sorting edges and avoiding cycles.',
+    code: [
+      'function Kruskals(graph):',
+      '    MST = []',
+      '    edges = sort_edges_by_weight(graph.edges)',
+      '    dsu = new DisjointSetUnion(graph.nodes)',
+      '    for edge in edges:',
+      '        u, v = edge.nodes',
+      '        if dsu.find(u) != dsu.find(v):',
+      '            MST.add(edge)',
+      '            dsu.union(u, v)',
+      '    return MST'
+    ],
+    inputs: {},
+    supports: ['undirected', 'weighted', 'multigraph'],
+    checkWeights: noteNegative(MST_NEGATIVE_NOTE),
+    run: (runner) => runner.runKruskals()
+  }),
+  defineAlgorithm({
+    id: 'floyd-warshall',
+    name: 'Floyd-Warshall Algorithm (All-Pairs Shortest Path)',
+    description: 'Computes shortest distances between every pair of nodes by trying each node as an intermediate.',
+    code: [
+      'function FloydWarshall(graph):',
+      '    dist = matrix of size |V| x |V|, initialized to ∞',
+      '    for each node v:',
+      '        dist[v][v] = 0',
+      '    for each edge (u, v) with weight w:',
+      '        dist[u][v] = w',
+      '    for k in V:',
+      '        for i in V:',
+      '            for j in V:',
+      '                if dist[i][k] + dist[k][j] < dist[i][j]:',
+      '                    dist[i][j] = dist[i][k] + dist[k][j]',
+      '    return dist'
+    ],
+    inputs: {},
+    supports: ['directed', 'undirected', 'weighted', 'multigraph'],
+    checkWeights: warnUndirectedNegative,
+    run: (runner) => runner.runFloydWarshall()
+  }),
+  defineAlgorithm({
+    id: 'ford-fulkerson',
+    name: 'Ford-Fulkerson (Max Flow)',
+    description: 'Computes the maximum flow from source to sink by repeatedly augmenting along shortest residual paths (Edmonds-Karp).',
+    code: [
+      'function FordFulkerson(graph, source, sink):',
+      '    flow[e] = 0 for every edge; maxFlow = 0',
+      '    while BFS finds a path from source to sink in residual graph:',
+      '        bottleneck = minimum residual capacity along the path',
+      '        for each edge (u, v) in the path:',
+      '            residual[u][v] -= bottleneck',
+      '            residual[v][u] += bottleneck  // back-edge',
+      '        maxFlow += bottleneck',
+      '    S = nodes reachable from source in residual graph',
+      '    minCut = edges from S to the rest of the graph',
+      '    return maxFlow, minCut'
+    ],
+    inputs: { source: 'required', sink: 'required' },
+    supports: ['directed', 'weighted', 'multigraph'],
+    checkWeights: requireNonNegative('Weights are capacities here, and a capacity cannot be negative.'),
+    run: (runner, params) => runner.runFordFulkerson(params.source, params.sink)
+  }),
+];
+
+export type Algorithm = (typeof algorithmList)[number]['id'];
+
+export const algorithmRegistry = Object.fromEntries(
+  algorithmList.map(definition => [definition.id, definition])
+) as Record<Algorithm, AlgorithmDefinition<Algorithm>>;
+
+export const algorithmIds = algorithmList.map(definition => definition.id) as Algorithm[];
+
+export const algorithms = Object.fromEntries(
+  algorithmList.map(definition => [definition.id, definition.name])
+) as Record<Algorithm, string>;
+
+export const algorithmInputLabels: Record<AlgorithmInput, string> = {
+  start: 'Start Node',
+  end: 'End Node',
+  source: 'Source Node',
+  sink: 'Sink Node'
+};
+
+export const getAlgorithmDefinition = (algorithm: string): AlgorithmDefinition | undefined =>
+  algorithmRegistry[algorithm as Algorithm];
+
+export const getAlgorithmDescription = (algorithm: string): string =>
+  getAlgorithmDefinition(algorithm)?.description ?? '';
+
+export const getAlgorithmCode = (algorithm: string): string[] =>
+  getAlgorithmDefinition(algorithm)?.code ?? ['Algorithm not implemented'];
+
+export const needsInput = (algorithm: string, input: AlgorithmInput): boolean =>
+  Boolean(getAlgorithmDefinition(algorithm)?.inputs[input]);
+
+export const supportsGraph = (algorithm: string, isDirected: boolean): boolean => {
+  const supports = getAlgorithmDefinition(algorithm)?.supports ?? [];
+  return supports.includes(isDirected ? 'directed' : 'undirected');
+};
+
+export const supportsMultigraph = (algorithm: string): boolean =>
+  Boolean(getAlgorithmDefinition(algorithm)?.supports.includes('multigraph'));
+
+export const checkWeights = (algorithm: string, graphData: GraphData, isDirected: boolean): WeightIssue | null =>
+  getAlgorithmDefinition(algorithm)?.checkWeights?.(graphData, isDirected) ?? null;
+
+/**
+ * Fills required inputs the user left empty: start/source default to the first node,
+ * end/sink to the last one. Optional inputs are passed through untouched.
+ */
+export const resolveRunParams = (
+  definition: AlgorithmDefinition,
+  graphData: GraphData,
+  params: AlgorithmRunParams
+): AlgorithmRunParams => {
+  const first = graphData.nodes[0]?.id;
+  const last = graphData.nodes[graphData.nodes.length - 1]?.id;
+  const resolved: AlgorithmRunParams = {};
+  for (const [input, requirement] of Object.entries(definition.inputs) as [AlgorithmInput, 'required' | 'optional'][]) {
+    const value = params[input] && graphData.nodes.some(n => n.id === params[input]) ? params[input] : undefined;
+    if (value || requirement === 'optional') {
+      resolved[input] = value;
+    } else {
+      resolved[input] = input === 'start' || input === 'source' ? first : last;
+    }
+  }
+  for (const option of definition.options ?? []) {
+    const value = params[option.key] ?? (option.type === 'select' ? option.default : undefined);
+    if (value !== undefined) Object.assign(resolved, { [option.key]: value });
+  }
+  return resolved;
+};
+
+export const runAlgorithm = (
+  algorithm: Algorithm,
+  graphData: GraphData,
+  params: AlgorithmRunParams = {},
+  options: AlgorithmRunnerOptions = {}
+): Promise<AlgorithmExecution> => {
+  const definition = algorithmRegistry[algorithm];
+  const runner = new AlgorithmRunner(graphData, options);
+  return definition.run(runner, resolveRunParams(definition, graphData, params));
+};
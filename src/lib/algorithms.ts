@@ -1,175 +1,71 @@
-import { GraphData, GraphNode, GraphEdge, AlgorithmStep } from './graph-types';
+import { GraphData, GraphNode, GraphEdge, AlgorithmStep, AlgorithmResult, ShortestPathResult } from './graph-types';
+import { Arc, GraphAdjacency, edgeWeight } from './graph-adjacency';
+import { attachSnapshots, resetGraphState } from './step-timeline';
+import { EdgeIndex, resolveEdgeUpdates } from './edge-index';
+import { HeuristicKind, createHeuristic, heuristicLabels } from './heuristics';
 
 export interface AlgorithmExecution {
-  steps: AlgorithmStep[];
-  currentStep: number;
-  isComplete: boolean;
-  operationLog?: OperationLogEntry[];
+  steps: AlgorithmStep[];
+  currentStep: number;
+  isComplete: boolean;
+  result: AlgorithmResult;
+  operationLog?: OperationLogEntry[];
+  warnings?: string[]; // Problems found while recording steps, e.g. edge updates matching no edge
 }
 
 export interface OperationLogEntry {
-  iteration: number;
-  operation: string;
-  nodesVisited: string[];
-  queue?: string[];
-  stack?: string[];
-  result?: string[];
-  matrix?: Record<string, any>;
-  list?: string[];
-  array?: string[];
+  iteration: number;
+  operation: string;
+  nodesVisited: string[];
+  queue?: string[];
+  stack?: string[];
+  result?: string[];
+  matrix?: Record<string, any>;
+  list?: string[];
+  array?: string[];
 }
 
-export const getAlgorithmCode = (algorithm: string): string[] => {
-	const algorithms: Record<string, string[]> = {
-		'ford-fulkerson': [
-			'function FordFulkerson(graph, source, sink):',
-			'    maxFlow = 0',
-			'    while there is a path from source to sink in residual graph:',
-			'        find minimum residual capacity (bottleneck) along the path',
-			'        for each edge in the path:',
-			'            subtract bottleneck from forward edge',
-			'            add bottleneck to reverse edge',
-			'        maxFlow += bottleneck',
-			'    return maxFlow'
-		],
-		'floyd-warshall': [
-			'function FloydWarshall(graph):',
-			'    dist = matrix of size |V| x |V|, initialized to ∞',
-			'    for each node v:',
-			'        dist[v][v] = 0',
-			'    for each edge (u, v) with weight w:',
-			'        dist[u][v] = w',
-			'    for k in V:',
-			'        for i in V:',
-			'            for j in V:',
-			'                if dist[i][k] + dist[k][j] < dist[i][j]:',
-			'                    dist[i][j] = dist[i][k] + dist[k][j]',
-			'    return dist'
-		],
-    'bfs': [
-      'function BFS(graph, startNode):',
-      '    queue = [startNode]',
-      '    visited = new Set()',
-      '    while queue is not empty:',
-      '        current = queue.dequeue()',
-      '        if current in visited:',
-      '            continue',
-      '        visited.add(current)',
-      '        for neighbor in graph.neighbors(current):',
-      '            if neighbor not in visited:',
-      '                queue.enqueue(neighbor)',
-      '    return visited'
-    ],
-    'dfs': [
-      'function DFS(graph, startNode):',
-      '    stack = [startNode]',
-      '    visited = new Set()',
-      '    while stack is not empty:',
-      '        current = stack.pop()',
-      '        if current in visited:',
-      '            continue',
-      '        visited.add(current)',
-      '        for neighbor in graph.neighbors(current):',
-      '            if neighbor not in visited:',
-      '                stack.push(neighbor)',
-      '    return visited'
-    ],
-    'dijkstra': [
-      'function Dijkstra(graph, startNode):',
-      '    distances = {startNode: 0}',
-      '    pq = PriorityQueue([(0, startNode)])',
-      '    visited = new Set()',
-      '    while pq is not empty:',
-      '        currentDist, current = pq.pop()',
-      '        if current in visited:',
-      '            continue',
-      '        visited.add(current)',
-      '        for neighbor, weight in graph.edges(current):',
-      '            newDist = currentDist + weight',
-      '            if newDist < distances.get(neighbor, ∞):',
-      '                distances[neighbor] = newDist',
-      '                pq.push((newDist, neighbor))',
-      '    return distances'
-    ],
-    'a_star': [
-      'function A_Star(graph, start, goal, h):',
-      '    openSet = PriorityQueue([start])',
-      '    gScore = {node: ∞}; gScore[start] = 0',
-      '    fScore = {node: ∞}; fScore[start] = h(start)',
-      '    while openSet is not empty:',
-      '        current = node in openSet with lowest fScore',
-      '        if current == goal:',
-      '            return reconstruct_path(cameFrom, current)',
-      '        openSet.remove(current)',
-      '        for neighbor, weight in graph.edges(current):',
-      '            tentative_gScore = gScore[current] + weight',
-      '            if tentative_gScore < gScore[neighbor]:',
-      '                cameFrom[neighbor] = current',
-      '                gScore[neighbor] = tentative_gScore',
-      '                fScore[neighbor] = gScore[neighbor] + h(neighbor)',
-      '                if neighbor not in openSet:',
-      '                    openSet.add(neighbor)',
-      '    return failure'
-    ],
-    'bellman_ford': [
-      'function BellmanFord(graph, start):',
-      '    distances = {node: ∞}; distances[start] = 0',
-      '    for i from 1 to |V| - 1:',
-      '        for each edge (u, v) with weight w:',
-      '            if distances[u] + w < distances[v]:',
-      '                distances[v] = distances[u] + w',
-      '    for each edge (u, v) with weight w:',
-      '        if distances[u] + w < distances[v]:',
-      '            return "Negative weight cycle detected"',
-      '    return distances'
-    ],
-    'prims': [
-      'function Prims(graph, startNode):',
-      '    MST = []',
-      '    visited = new Set()',
-      '    pq = new PriorityQueue()',
-      '    visited.add(startNode)',
-      '    add_edges_to_pq(startNode, pq)',
-      '    while pq is not empty:',
-      '        edge = pq.extract_min()',
-      '        node = edge.unvisited_node()',
-      '        if node is visited:',
-      '            continue',
-      '        visited.add(node)',
-      '        MST.add(edge)',
-      '        add_edges_to_pq(node, pq)',
-      '    return MST'
-    ],
-    'kruskals': [
-      'function Kruskals(graph):',
-      '    MST = []',
-      '    edges = sort_edges_by_weight(graph.edges)',
-      '    dsu = new DisjointSetUnion(graph.nodes)',
-      '    for edge in edges:',
-      '        u, v = edge.nodes',
-      '        if dsu.find(u) != dsu.find(v):',
-      '            MST.add(edge)',
-      '            dsu.union(u, v)',
-      '    return MST'
-    ]
-  };
-  
-	// Add aliases for UI keys
-	if (algorithm === 'bellman-ford') return algorithms['bellman_ford'] || ['Algorithm not implemented'];
-	if (algorithm === 'prim') return algorithms['prims'] || ['Algorithm not implemented'];
-	if (algorithm === 'kruskal') return algorithms['kruskals'] || ['Algorithm not implemented'];
-	return algorithms[algorithm] || ['Algorithm not implemented'];
+// JSON round-tripping would turn Infinity into null, so matrices are copied row by row.
+const cloneMatrix = (matrix: Record<string, Record<string, number>>): Record<string, Record<string, number>> =>
+  Object.fromEntries(Object.entries(matrix).map(([row, cols]) => [row, { ...cols }]));
+
+/**
+ * Walks the predecessor tree back from `target`. Returns the path source → target,
+ * or an empty array when the target is unreachable (or the tree loops, as after a negative cycle).
+ */
+export const reconstructPath = (
+  predecessors: Record<string, string | null>,
+  source: string,
+  target: string
+): string[] => {
+  const path = [target];
+  const seen = new Set(path);
+  let current = target;
+  while (current !== source) {
+    const previous = predecessors[current];
+    if (!previous || seen.has(previous)) return [];
+    path.unshift(previous);
+    seen.add(previous);
+    current = previous;
+  }
+  return path;
 };
 
+export interface AlgorithmRunnerOptions {
+  /** Whether edges are one-way (source → target). Defaults to true. */
+  isDirected?: boolean;
+}
+
 export class AlgorithmRunner {
 
 	/**
 	 * Ford-Fulkerson (Edmonds-Karp) algorithm for maximum flow.
-	 * Returns the max flow value from source to sink.
+	 * Returns the max flow value, the flow on every edge and a minimum cut.
 	 */
 	async runFordFulkerson(sourceId: string, sinkId: string): Promise<AlgorithmExecution> {
 		this.steps = [];
 		this.operationLog = [];
+		this.warnings = [];
 		let stepId = 0;
 		// Build residual graph
 		const nodeIds = this.graphData.nodes.map(n => n.id);
@@ -181,15 +77,17 @@ export class AlgorithmRunner {
 				capacity[u][v] = 0;
 			}
 		}
-		for (const edge of this.graphData.edges) {
-			capacity[edge.source][edge.target] = edge.weight || 1;
+		for (const arc of this.adjacency.arcs()) {
+			capacity[arc.from][arc.to] += arc.weight;
 		}
+		const original = cloneMatrix(capacity);
 		let maxFlow = 0;
 		const parent: Record<string, string | null> = {};
+		let flows = this.splitFlows(original, capacity);
 
 		const bfs = (): boolean => {
 			// Find path from source to sink in residual graph
-			const visited = new Set<string>();
+			const visited = new Set<string>([sourceId]);
 			const queue: string[] = [sourceId];
 			parent[sourceId] = null;
 			while (queue.length > 0) {
@@ -206,110 +104,233 @@ export class AlgorithmRunner {
 			return false;
 		};
 
-		this.addStep(stepId++, 'Initialize Ford-Fulkerson', 1, {
+		this.addStep(stepId++, 'Initialize Ford-Fulkerson', 2, {
 			description: `Finding max flow from ${this.getNodeLabel(sourceId)} to ${this.getNodeLabel(sinkId)}`,
-			matrix: JSON.parse(JSON.stringify(capacity))
+			edgeUpdates: this.graphData.edges.map(edge => ({ id: edge.id, flow: 0 })),
+			matrix: cloneMatrix(capacity)
 		});
 
 		while (bfs()) {
+			const path = reconstructPath(parent, sourceId, sinkId);
+			// Spare room for pushing from `from` along `edge`: unused capacity going forward, or, on a
+			// directed edge traversed backwards, the flow that can be cancelled.
+			const spare = (edge: GraphEdge, from: string) => {
+				const towardOther = edge.source === from ? flows[edge.id] : -flows[edge.id];
+				return edge.source === from || !this.adjacency.isDirected ? edgeWeight(edge) - towardOther : flows[edge.id];
+			};
+			// A residual step u → v runs forward along an edge u → v, or cancels flow on an edge v → u;
+			// among parallel edges it is the first one that still has room.
+			const pathEdges = path.slice(1).map((v, i) => {
+				const u = path[i];
+				const candidates = this.adjacency.isDirected ? [...this.edgeIndex.between(u, v), ...this.edgeIndex.between(v, u)] : this.edgeIndex.between(u, v);
+				return candidates.find(edge => spare(edge, u) > 0);
+			}).filter(Boolean);
 			// Find bottleneck (min capacity) along the path
-			let pathFlow = Infinity;
-			let v = sinkId;
-			while (v !== sourceId) {
-				const u = parent[v]!;
-				pathFlow = Math.min(pathFlow, capacity[u][v]);
-				v = u;
-			}
+			const pathFlow = Math.min(...path.slice(1).map((v, i) => capacity[path[i]][v]));
+			this.addStep(stepId++, 'Find augmenting path', 4, {
+				description: `Augmenting path ${path.map(id => this.getNodeLabel(id)).join(' → ')} with bottleneck ${pathFlow}`,
+				nodeUpdates: path.map(id => ({ id, state: 'current' as const })),
+				edgeUpdates: pathEdges.map(edge => ({ id: edge.id, isActive: true, isPath: true })),
+				matrix: cloneMatrix(capacity),
+				list: path
+			});
 			// Update residual capacities
-			v = sinkId;
-			const path: string[] = [];
-			while (v !== sourceId) {
-				const u = parent[v]!;
-				capacity[u][v] -= pathFlow;
-				capacity[v][u] += pathFlow;
-				path.unshift(v);
-				v = u;
+			for (let i = 1; i < path.length; i++) {
+				capacity[path[i - 1]][path[i]] -= pathFlow;
+				capacity[path[i]][path[i - 1]] += pathFlow;
 			}
-			path.unshift(sourceId);
 			maxFlow += pathFlow;
-			this.addStep(stepId++, 'Augment path', 2, {
-				description: `Augmented path: ${path.map(id => this.getNodeLabel(id)).join(' → ')} (flow +${pathFlow})`,
-				matrix: JSON.parse(JSON.stringify(capacity)),
+			const previousFlows = flows;
+			flows = this.splitFlows(original, capacity);
+			this.addStep(stepId++, 'Augment path', 8, {
+				description: `Pushed ${pathFlow} along ${path.map(id => this.getNodeLabel(id)).join(' → ')}; total flow is now ${maxFlow}`,
+				nodeUpdates: path.map(id => ({ id, state: 'default' as const })),
+				edgeUpdates: [
+					...pathEdges.map(edge => ({ id: edge.id, isActive: false, isPath: false })),
+					...this.graphData.edges
+						.filter(edge => flows[edge.id] !== previousFlows[edge.id])
+						.map(edge => ({ id: edge.id, flow: flows[edge.id] }))
+				],
+				matrix: cloneMatrix(capacity),
 				list: path
 			});
 		}
-		this.addStep(stepId++, 'Ford-Fulkerson Complete', 3, {
-			description: `Algorithm finished. Max flow = ${maxFlow}`,
-			matrix: JSON.parse(JSON.stringify(capacity)),
+
+		// Whatever the source still reaches in the residual graph is the source side of a minimum cut.
+		const sourceSide = new Set([sourceId]);
+		const frontier = [sourceId];
+		while (frontier.length > 0) {
+			const u = frontier.shift()!;
+			for (const v of nodeIds) {
+				if (!sourceSide.has(v) && capacity[u][v] > 0) {
+					sourceSide.add(v);
+					frontier.push(v);
+				}
+			}
+		}
+		const crossesCut = (from: string, to: string) => sourceSide.has(from) && !sourceSide.has(to);
+		const cutEdges = this.graphData.edges.filter(edge =>
+			crossesCut(edge.source, edge.target) || (!this.adjacency.isDirected && crossesCut(edge.target, edge.source))
+		);
+		const minCut = {
+			sourceSide: nodeIds.filter(id => sourceSide.has(id)),
+			edges: cutEdges.map(edge => edge.id),
+			capacity: cutEdges.reduce((sum, edge) => sum + edgeWeight(edge), 0)
+		};
+		this.addStep(stepId++, 'Minimum cut', 10, {
+			description: `Minimum cut {${minCut.sourceSide.map(id => this.getNodeLabel(id)).join(', ')}} has capacity ${minCut.capacity}`,
+			nodeUpdates: minCut.sourceSide.map(id => ({ id, isSourceSide: true })),
+			edgeUpdates: minCut.edges.map(id => ({ id, isCut: true })),
+			matrix: cloneMatrix(capacity),
+			list: minCut.sourceSide
+		});
+		this.addStep(stepId++, 'Ford-Fulkerson Complete', 11, {
+			description: `Algorithm finished. Max flow = ${maxFlow} = capacity of the minimum cut`,
+			matrix: cloneMatrix(capacity),
 			result: [maxFlow.toString()]
 		});
-		return this.createDefaultExecution();
+		return this.createExecution({ kind: 'max-flow', source: sourceId, sink: sinkId, maxFlow, flows, minCut });
 	}
-  private operationLog: OperationLogEntry[] = [];
-  private graphData: GraphData;
-  private steps: AlgorithmStep[] = [];
-  private currentStep = 0;
-
-  constructor(graphData: GraphData) {
-    this.graphData = { ...graphData };
-  }
-
-  private addStep(id: number, description: string, codeLine: number, updates: Partial<AlgorithmStep>) {
-    this.steps.push({
-      id,
-      description,
-      codeLine,
-      nodeUpdates: updates.nodeUpdates || [],
-      edgeUpdates: updates.edgeUpdates || [],
-      ...updates
-    });
-    // Build operation log entry for this step, always using node labels
-    const nodesVisited = this.steps
-      .flatMap(s => s.nodeUpdates?.filter(nu => nu.state === 'visited').map(nu => this.getNodeLabel(nu.id)) || [])
-      .filter((v, i, arr) => arr.indexOf(v) === i);
-    const mapLabels = (arr?: string[]) => arr ? arr.map(id => this.getNodeLabel(id)) : undefined;
-    this.operationLog.push({
-      iteration: id,
-      operation: description,
-      nodesVisited,
-      queue: mapLabels(updates.queue),
-      stack: mapLabels(updates.stack),
-      result: mapLabels(updates.result),
-      matrix: updates.matrix,
-      list: mapLabels(updates.list),
-      array: mapLabels(updates.array),
-    });
-  }
-
-  private getNode(nodeId: string): GraphNode | undefined {
-    return this.graphData.nodes.find(n => n.id === nodeId);
-  }
-
-  private getNodeLabel(nodeId: string): string {
-    return this.getNode(nodeId)?.label || nodeId;
-  }
-
-  private getNeighbors(nodeId: string): string[] {
-    return this.graphData.edges
-      .filter(edge => edge.source === nodeId || edge.target === nodeId)
-      .map(edge => edge.source === nodeId ? edge.target : edge.source);
-  }
-
-  private createDefaultExecution(): AlgorithmExecution {
-    return {
-      steps: this.steps,
-      currentStep: 0,
-      isComplete: false,
-      operationLog: this.operationLog
-    };
-  }
-
-  // --- Traversal Algorithms ---
+
+	/** Splits the net flow between each node pair back onto the concrete (possibly parallel) edges. */
+	private splitFlows(
+		original: Record<string, Record<string, number>>,
+		residual: Record<string, Record<string, number>>
+	): Record<string, number> {
+		const net: Record<string, Record<string, number>> = {};
+		for (const u of Object.keys(original)) {
+			net[u] = {};
+			for (const v of Object.keys(original[u])) net[u][v] = original[u][v] - residual[u][v];
+		}
+		const flows: Record<string, number> = {};
+		for (const edge of this.graphData.edges) {
+			const cap = edgeWeight(edge);
+			const lowest = this.adjacency.isDirected ? 0 : -cap;
+			const flow = edge.source === edge.target ? 0 : Math.max(lowest, Math.min(cap, net[edge.source][edge.target]));
+			flows[edge.id] = flow;
+			if (flow !== 0) {
+				net[edge.source][edge.target] -= flow;
+				net[edge.target][edge.source] += flow;
+			}
+		}
+		return flows;
+	}
+  private operationLog: OperationLogEntry[] = [];
+  private graphData: GraphData;
+  private adjacency: GraphAdjacency;
+  private edgeIndex: EdgeIndex;
+  private warnings: string[] = [];
+  private steps: AlgorithmStep[] = [];
+  private currentStep = 0;
+
+  constructor(graphData: GraphData, options: AlgorithmRunnerOptions = {}) {
+    this.graphData = { ...graphData };
+    this.adjacency = new GraphAdjacency(this.graphData, options.isDirected ?? true);
+    this.edgeIndex = new EdgeIndex(this.graphData.edges, options.isDirected ?? true);
+  }
+
+  private addStep(id: number, description: string, codeLine: number, updates: Partial<AlgorithmStep>) {
+    const { resolved, unresolved } = resolveEdgeUpdates(updates.edgeUpdates || [], this.edgeIndex);
+    unresolved.forEach(u => this.warnings.push(
+      `Step ${id}: no edge ${u.id ?? `${this.getNodeLabel(u.source)} → ${this.getNodeLabel(u.target)}`} to update`
+    ));
+    this.steps.push({
+      id,
+      description,
+      codeLine,
+      nodeUpdates: updates.nodeUpdates || [],
+      ...updates,
+      edgeUpdates: resolved
+    });
+    // Build operation log entry for this step, always using node labels
+    const nodesVisited = this.steps
+      .flatMap(s => s.nodeUpdates?.filter(nu => nu.state === 'visited').map(nu => this.getNodeLabel(nu.id)) || [])
+      .filter((v, i, arr) => arr.indexOf(v) === i);
+    const mapLabels = (arr?: string[]) => arr ? arr.map(id => this.getNodeLabel(id)) : undefined;
+    this.operationLog.push({
+      iteration: id,
+      operation: description,
+      nodesVisited,
+      queue: mapLabels(updates.queue),
+      stack: mapLabels(updates.stack),
+      result: mapLabels(updates.result),
+      matrix: updates.matrix,
+      list: mapLabels(updates.list),
+      array: mapLabels(updates.array),
+    });
+  }
+
+  private getNode(nodeId: string): GraphNode | undefined {
+    return this.graphData.nodes.find(n => n.id === nodeId);
+  }
+
+  private getNodeLabel(nodeId: string): string {
+    return this.getNode(nodeId)?.label || nodeId;
+  }
+
+  private getNeighbors(nodeId: string): string[] {
+    return this.adjacency.neighbors(nodeId);
+  }
+
+  private shortestPathResult(
+    source: string,
+    distances: Record<string, number>,
+    predecessors: Record<string, string | null>,
+    target?: string
+  ): ShortestPathResult {
+    const result: ShortestPathResult = {
+      kind: 'shortest-path',
+      source,
+      distances: { ...distances },
+      predecessors: { ...predecessors }
+    };
+    if (!target) return result;
+    const path = reconstructPath(predecessors, source, target);
+    return {
+      ...result,
+      target,
+      path,
+      pathFound: path.length > 0,
+      totalDistance: path.length > 0 ? distances[target] : undefined
+    };
+  }
+
+  /**
+   * Final "trace path" phase shared by the shortest-path runners: lights up the route
+   * one hop at a time, from the source to the target. Returns the next free step id.
+   */
+  private addPathTrace(stepId: number, path: string[], codeLine: number, extra: Partial<AlgorithmStep> = {}): number {
+    path.forEach((nodeId, i) => {
+      this.addStep(stepId++, 'Trace path', codeLine, {
+        ...extra,
+        nodeUpdates: [{ id: nodeId, state: 'path' }],
+        edgeUpdates: i > 0 ? [{ source: path[i - 1], target: nodeId, isActive: true, isPath: true }] : [],
+        description: `Trace path: ${path.slice(0, i + 1).map(id => this.getNodeLabel(id)).join(' → ')}`,
+        result: path.slice(0, i + 1).map(id => this.getNodeLabel(id))
+      });
+    });
+    return stepId;
+  }
+
+  private createExecution(result: AlgorithmResult): AlgorithmExecution {
+    return {
+      steps: attachSnapshots(resetGraphState(this.graphData), this.steps),
+      currentStep: 0,
+      isComplete: false,
+      result,
+      operationLog: this.operationLog,
+      warnings: this.warnings
+    };
+  }
+
+  // --- Traversal Algorithms ---
 	async runDFS(startNodeId: string): Promise<AlgorithmExecution> {
 		this.steps = [];
 		this.operationLog = [];
+		this.warnings = [];
 		const visited = new Set<string>();
 		const stack: string[] = [startNodeId];
+		const visitOrder: string[] = [];
 		let stepId = 0;
 
 		this.addStep(stepId++, 'Initialize DFS', 1, {
@@ -330,6 +351,7 @@ export class AlgorithmRunner {
 			}
 
 			visited.add(currentId);
+			visitOrder.push(currentId);
 			this.addStep(stepId++, 'Visit node', 7, {
 				nodeUpdates: [{ id: currentId, state: 'visited' }],
 				description: `Visited node ${this.getNodeLabel(currentId)}`,
@@ -358,75 +380,76 @@ export class AlgorithmRunner {
 			stack: stack.map(id => this.getNodeLabel(id))
 		});
 
-		return this.createDefaultExecution();
+		return this.createExecution({ kind: 'traversal', start: startNodeId, visitOrder });
 	}
 
-  async runBFS(startNodeId: string): Promise<AlgorithmExecution> {
-    this.steps = [];
-    this.operationLog = [];
-    const visited = new Set<string>();
-    const queue: string[] = [startNodeId];
-    const visitOrder: string[] = [];
-    let stepId = 0;
-
-    this.addStep(stepId++, 'Initialize BFS', 1, {
-      nodeUpdates: [{ id: startNodeId, state: 'current' }],
-      description: `Starting BFS from node ${this.getNodeLabel(startNodeId)}`,
-      queue: queue.map(id => this.getNodeLabel(id)),
-      result: visitOrder.map(id => this.getNodeLabel(id))
-    });
-
-    while (queue.length > 0) {
-      const currentId = queue.shift()!;
-      
-      if (visited.has(currentId)) {
-        this.addStep(stepId++, 'Node already visited', 6, {
-          description: `Node ${this.getNodeLabel(currentId)} already visited, skipping.`,
-          queue: queue.map(id => this.getNodeLabel(id)),
-          result: visitOrder.map(id => this.getNodeLabel(id))
-        });
-        continue;
-      }
-
-      visited.add(currentId);
-      visitOrder.push(currentId);
-      this.addStep(stepId++, 'Visit node', 7, {
-        nodeUpdates: [{ id: currentId, state: 'visited' }],
-        description: `Visited node ${this.getNodeLabel(currentId)}`,
-        queue: queue.map(id => this.getNodeLabel(id)),
-        result: visitOrder.map(id => this.getNodeLabel(id))
-      });
-      
-      for (const neighborId of this.getNeighbors(currentId)) {
-        if (!visited.has(neighborId) && !queue.includes(neighborId)) {
-          queue.push(neighborId);
-          this.addStep(stepId++, 'Enqueue neighbor', 10, {
-            nodeUpdates: [{ id: neighborId, state: 'current' }],
-            edgeUpdates: [{ source: currentId, target: neighborId, isActive: true }],
-            description: `Added ${this.getNodeLabel(neighborId)} to queue`,
-            queue: queue.map(id => this.getNodeLabel(id)),
-            result: visitOrder.map(id => this.getNodeLabel(id))
-          });
-        }
-      }
-      // Always add a step to show the queue state after each iteration
-      this.addStep(stepId++, 'Queue State', 2, {
-        queue: queue.map(id => this.getNodeLabel(id)),
-        result: visitOrder.map(id => this.getNodeLabel(id))
-      });
-    }
-
-    this.addStep(stepId++, 'BFS Complete', 11, {
-      description: 'Algorithm finished: all reachable nodes visited.',
-      result: visitOrder.map(id => this.getNodeLabel(id))
-    });
-
-    return this.createDefaultExecution();
-  }
-
-
-
-  // --- Shortest Path Algorithms ---
+  async runBFS(startNodeId: string): Promise<AlgorithmExecution> {
+    this.steps = [];
+    this.operationLog = [];
+    this.warnings = [];
+    const visited = new Set<string>();
+    const queue: string[] = [startNodeId];
+    const visitOrder: string[] = [];
+    let stepId = 0;
+
+    this.addStep(stepId++, 'Initialize BFS', 1, {
+      nodeUpdates: [{ id: startNodeId, state: 'current' }],
+      description: `Starting BFS from node ${this.getNodeLabel(startNodeId)}`,
+      queue: queue.map(id => this.getNodeLabel(id)),
+      result: visitOrder.map(id => this.getNodeLabel(id))
+    });
+
+    while (queue.length > 0) {
+      const currentId = queue.shift()!;
+      
+      if (visited.has(currentId)) {
+        this.addStep(stepId++, 'Node already visited', 6, {
+          description: `Node ${this.getNodeLabel(currentId)} already visited, skipping.`,
+          queue: queue.map(id => this.getNodeLabel(id)),
+          result: visitOrder.map(id => this.getNodeLabel(id))
+        });
+        continue;
+      }
+
+      visited.add(currentId);
+      visitOrder.push(currentId);
+      this.addStep(stepId++, 'Visit node', 7, {
+        nodeUpdates: [{ id: currentId, state: 'visited' }],
+        description: `Visited node ${this.getNodeLabel(currentId)}`,
+        queue: queue.map(id => this.getNodeLabel(id)),
+        result: visitOrder.map(id => this.getNodeLabel(id))
+      });
+      
+      for (const neighborId of this.getNeighbors(currentId)) {
+        if (!visited.has(neighborId) && !queue.includes(neighborId)) {
+          queue.push(neighborId);
+          this.addStep(stepId++, 'Enqueue neighbor', 10, {
+            nodeUpdates: [{ id: neighborId, state: 'current' }],
+            edgeUpdates: [{ source: currentId, target: neighborId, isActive: true }],
+            description: `Added ${this.getNodeLabel(neighborId)} to queue`,
+            queue: queue.map(id => this.getNodeLabel(id)),
+            result: visitOrder.map(id => this.getNodeLabel(id))
+          });
+        }
+      }
+      // Always add a step to show the queue state after each iteration
+      this.addStep(stepId++, 'Queue State', 2, {
+        queue: queue.map(id => this.getNodeLabel(id)),
+        result: visitOrder.map(id => this.getNodeLabel(id))
+      });
+    }
+
+    this.addStep(stepId++, 'BFS Complete', 11, {
+      description: 'Algorithm finished: all reachable nodes visited.',
+      result: visitOrder.map(id => this.getNodeLabel(id))
+    });
+
+    return this.createExecution({ kind: 'traversal', start: startNodeId, visitOrder });
+  }
+
+
+
+  // --- Shortest Path Algorithms ---
 	/**
 	 * Floyd-Warshall algorithm for all-pairs shortest paths.
 	 * Returns a matrix of shortest distances between all pairs of nodes.
@@ -434,6 +457,7 @@ export class AlgorithmRunner {
 	async runFloydWarshall(): Promise<AlgorithmExecution> {
 		this.steps = [];
 		this.operationLog = [];
+		this.warnings = [];
 		let stepId = 0;
 		const nodeIds = this.graphData.nodes.map(n => n.id);
 		const dist: Record<string, Record<string, number>> = {};
@@ -441,16 +465,16 @@ export class AlgorithmRunner {
 		for (const u of nodeIds) {
 			dist[u] = {};
 			for (const v of nodeIds) {
-				if (u === v) {
-					dist[u][v] = 0;
-				} else {
-					const edge = this.graphData.edges.find(e => (e.source === u && e.target === v) || (e.target === u && e.source === v));
-					dist[u][v] = edge ? (edge.weight || 1) : Infinity;
-				}
+				dist[u][v] = u === v ? 0 : Infinity;
+			}
+		}
+		for (const arc of this.adjacency.arcs()) {
+			if (arc.from !== arc.to) {
+				dist[arc.from][arc.to] = Math.min(dist[arc.from][arc.to], arc.weight);
 			}
 		}
 		this.addStep(stepId++, 'Initialize distance matrix', 1, {
-			matrix: JSON.parse(JSON.stringify(dist)),
+			matrix: cloneMatrix(dist),
 			description: 'Initialized distance matrix for all node pairs.'
 		});
 		// Floyd-Warshall main loop
@@ -460,51 +484,58 @@ export class AlgorithmRunner {
 					if (dist[i][k] + dist[k][j] < dist[i][j]) {
 						dist[i][j] = dist[i][k] + dist[k][j];
 						this.addStep(stepId++, 'Update shortest path', 2, {
-							matrix: JSON.parse(JSON.stringify(dist)),
+							matrix: cloneMatrix(dist),
 							description: `Updated shortest path: ${this.getNodeLabel(i)} → ${this.getNodeLabel(j)} via ${this.getNodeLabel(k)}`
 						});
 					}
 				}
 			}
 			this.addStep(stepId++, 'Matrix State', 3, {
-				matrix: JSON.parse(JSON.stringify(dist)),
+				matrix: cloneMatrix(dist),
 				description: `Matrix after considering ${this.getNodeLabel(k)} as intermediate.`
 			});
 		}
 		this.addStep(stepId++, 'Floyd-Warshall Complete', 4, {
-			matrix: JSON.parse(JSON.stringify(dist)),
+			matrix: cloneMatrix(dist),
 			description: 'Algorithm finished. All-pairs shortest paths calculated.'
 		});
-		return this.createDefaultExecution();
+		return this.createExecution({ kind: 'all-pairs', distances: cloneMatrix(dist) });
 	}
 
-  async runDijkstra(startNodeId: string): Promise<AlgorithmExecution> {
-    this.steps = [];
-    this.operationLog = [];
-    const distances: Record<string, number> = {};
-    const visited = new Set<string>();
-    const pq: Array<{ distance: number; nodeId: string }> = [];
-    let stepId = 0;
-
-    this.graphData.nodes.forEach(node => {
-      distances[node.id] = node.id === startNodeId ? 0 : Infinity;
-    });
-
-    pq.push({ distance: 0, nodeId: startNodeId });
-
-    this.addStep(stepId++, 'Initialize Dijkstra', 1, {
-      nodeUpdates: this.graphData.nodes.map(n => ({
-        id: n.id,
-        distance: distances[n.id],
-        state: n.id === startNodeId ? 'current' : 'default'
-      })),
-      description: `Starting Dijkstra from ${this.getNodeLabel(startNodeId)}`,
-      queue: pq.map(item => this.getNodeLabel(item.nodeId))
-    });
-
-    while (pq.length > 0) {
-      pq.sort((a, b) => a.distance - b.distance);
-      const current = pq.shift()!;
+  /**
+   * Dijkstra's algorithm. With an `endNodeId` the shortest route to it is traced at the end;
+   * `stopAtTarget` additionally stops the search as soon as that node is settled.
+   */
+  async runDijkstra(startNodeId: string, endNodeId?: string, stopAtTarget = false): Promise<AlgorithmExecution> {
+    this.steps = [];
+    this.operationLog = [];
+    this.warnings = [];
+    const distances: Record<string, number> = {};
+    const predecessors: Record<string, string | null> = {};
+    const visited = new Set<string>();
+    const pq: Array<{ distance: number; nodeId: string }> = [];
+    let stepId = 0;
+
+    this.graphData.nodes.forEach(node => {
+      distances[node.id] = node.id === startNodeId ? 0 : Infinity;
+      predecessors[node.id] = null;
+    });
+
+    pq.push({ distance: 0, nodeId: startNodeId });
+
+    this.addStep(stepId++, 'Initialize Dijkstra', 1, {
+      nodeUpdates: this.graphData.nodes.map(n => ({
+        id: n.id,
+        distance: distances[n.id],
+        state: n.id === startNodeId ? 'current' : 'default'
+      })),
+      description: `Starting Dijkstra from ${this.getNodeLabel(startNodeId)}`,
+      queue: pq.map(item => this.getNodeLabel(item.nodeId))
+    });
+
+    while (pq.length > 0) {
+      pq.sort((a, b) => a.distance - b.distance);
+      const current = pq.shift()!;
 
 			if (visited.has(current.nodeId)) continue;
 			if (current.distance === Infinity) break;
@@ -517,22 +548,31 @@ export class AlgorithmRunner {
 				queue: pq.map(item => this.getNodeLabel(item.nodeId)),
 				matrix: { ...distances }
 			});
+
+			if (stopAtTarget && current.nodeId === endNodeId) {
+				this.addStep(stepId++, 'Target settled', 8, {
+					description: `${this.getNodeLabel(endNodeId)} is settled; its distance can no longer improve, stopping early.`,
+					queue: pq.map(item => this.getNodeLabel(item.nodeId)),
+					matrix: { ...distances }
+				});
+				break;
+			}
       
-			const edges = this.graphData.edges.filter(e => e.source === current.nodeId);
-			for (const edge of edges) {
-				const neighborId = edge.target;
+			for (const arc of this.adjacency.outArcs(current.nodeId)) {
+				const neighborId = arc.to;
 				if (visited.has(neighborId)) continue;
 
-				const weight = edge.weight || 1;
+				const weight = arc.weight;
 				const newDistance = distances[current.nodeId] + weight;
 
 				if (newDistance < distances[neighborId]) {
 					distances[neighborId] = newDistance;
+					predecessors[neighborId] = current.nodeId;
 					pq.push({ distance: newDistance, nodeId: neighborId });
 
 					this.addStep(stepId++, 'Update distance', 12, {
 						nodeUpdates: [{ id: neighborId, distance: newDistance, state: 'current' }],
-						edgeUpdates: [{ id: edge.id, isActive: true }],
+						edgeUpdates: [{ id: arc.edge.id, isActive: true }],
 						description: `Update distance to ${this.getNodeLabel(neighborId)}: ${newDistance}`,
 						queue: pq.map(item => this.getNodeLabel(item.nodeId)),
 						matrix: { ...distances }
@@ -544,40 +584,56 @@ export class AlgorithmRunner {
 				queue: pq.map(item => this.getNodeLabel(item.nodeId)),
 				matrix: { ...distances }
 			});
-    }
-
-		this.addStep(stepId++, 'Dijkstra Complete', 14, {
-			description: 'Shortest path algorithm finished.',
+    }
+
+    const result = this.shortestPathResult(startNodeId, distances, predecessors, endNodeId);
+    if (result.pathFound) {
+      stepId = this.addPathTrace(stepId, result.path, 15, { matrix: { ...distances } });
+    }
+
+		this.addStep(stepId++, 'Dijkstra Complete', 16, {
+			description: result.target
+				? result.pathFound
+					? `Shortest path algorithm finished. Path to ${this.getNodeLabel(result.target)} costs ${result.totalDistance}.`
+					: `Shortest path algorithm finished. ${this.getNodeLabel(result.target)} is unreachable.`
+				: 'Shortest path algorithm finished.',
 			queue: pq.map(item => this.getNodeLabel(item.nodeId)),
 			matrix: { ...distances }
 		});
 
-    return this.createDefaultExecution();
-  }
-
-  async runAStar(startNodeId: string, endNodeId: string): Promise<AlgorithmExecution> {
-    this.steps = [];
-    this.operationLog = [];
-    let stepId = 0;
-
-    const h = (nodeId: string) => {
-      const node = this.getNode(nodeId);
-      const endNode = this.getNode(endNodeId);
-      if (!node || !endNode || node.x === undefined || node.y === undefined || endNode.x === undefined || endNode.y === undefined) return 0;
-      return Math.sqrt(Math.pow(node.x - endNode.x, 2) + Math.pow(node.y - endNode.y, 2));
-    };
-
-    const openSet: string[] = [startNodeId];
-    const cameFrom: Record<string, string> = {};
-    const gScore: Record<string, number> = {};
-    const fScore: Record<string, number> = {};
-
-    this.graphData.nodes.forEach(node => {
-      gScore[node.id] = Infinity;
-      fScore[node.id] = Infinity;
-    });
-    gScore[startNodeId] = 0;
-    fScore[startNodeId] = h(startNodeId);
+    return this.createExecution(result);
+  }
+
+  async runAStar(
+    startNodeId: string,
+    endNodeId: string,
+    heuristic: HeuristicKind = 'euclidean',
+    heuristicValues: Record<string, number> = {}
+  ): Promise<AlgorithmExecution> {
+    this.steps = [];
+    this.operationLog = [];
+    this.warnings = [];
+    let stepId = 0;
+
+    const h = createHeuristic(heuristic, this.graphData, endNodeId, { values: heuristicValues });
+
+    const openSet: string[] = [startNodeId];
+    const cameFrom: Record<string, string | null> = {};
+    const gScore: Record<string, number> = {};
+    const fScore: Record<string, number> = {};
+
+    this.graphData.nodes.forEach(node => {
+      gScore[node.id] = Infinity;
+      fScore[node.id] = Infinity;
+      cameFrom[node.id] = null;
+    });
+    gScore[startNodeId] = 0;
+    fScore[startNodeId] = h(startNodeId);
+
+    // One row per node so the data panel shows g, h and f as labelled columns.
+    const scores = () => Object.fromEntries(
+      this.graphData.nodes.map(n => [n.id, { g: gScore[n.id], h: h(n.id), f: fScore[n.id] }])
+    );
 
 		this.addStep(stepId++, 'Initialize A*', 3, {
 			nodeUpdates: this.graphData.nodes.map(n => ({
@@ -585,9 +641,9 @@ export class AlgorithmRunner {
 				distance: gScore[n.id],
 				state: n.id === startNodeId ? 'current' : 'default'
 			})),
-			description: `Starting A* from ${this.getNodeLabel(startNodeId)} to ${this.getNodeLabel(endNodeId)}`,
+			description: `Starting A* from ${this.getNodeLabel(startNodeId)} to ${this.getNodeLabel(endNodeId)} (heuristic: ${heuristicLabels[heuristic]})`,
 			queue: openSet.map(id => this.getNodeLabel(id)),
-			matrix: { gScore: { ...gScore }, fScore: { ...fScore } }
+			matrix: scores()
 		});
 
 		while (openSet.length > 0) {
@@ -598,38 +654,32 @@ export class AlgorithmRunner {
 				nodeUpdates: [{ id: currentId, state: 'current' }],
 				description: `Selecting ${this.getNodeLabel(currentId)} (fScore: ${fScore[currentId].toFixed(2)})`,
 				queue: openSet.map(id => this.getNodeLabel(id)),
-				matrix: { gScore: { ...gScore }, fScore: { ...fScore } }
+				matrix: scores()
 			});
 			// Always add a step to show the queue state and matrix after each iteration
 			this.addStep(stepId++, 'Queue State', 2, {
 				queue: openSet.map(id => this.getNodeLabel(id)),
-				matrix: { gScore: { ...gScore }, fScore: { ...fScore } }
+				matrix: scores()
 			});
 
 			if (currentId === endNodeId) {
-				let path = [currentId];
-				let current = currentId;
-				while (cameFrom[current]) {
-					current = cameFrom[current];
-					path.unshift(current);
-				}
+				const path = reconstructPath(cameFrom, startNodeId, endNodeId);
+				stepId = this.addPathTrace(stepId, path, 8, { matrix: scores() });
 				this.addStep(stepId++, 'Path found', 8, {
-					nodeUpdates: path.map(id => ({ id, state: 'visited' })),
-					edgeUpdates: path.slice(0, -1).map((id, i) => ({ source: id, target: path[i+1], isActive: true })),
 					description: `Path found with total cost ${gScore[endNodeId].toFixed(2)}`,
 					result: path.map(id => this.getNodeLabel(id)),
-					matrix: { gScore: { ...gScore }, fScore: { ...fScore } }
+					matrix: scores()
 				});
-				return this.createDefaultExecution();
+				return this.createExecution(this.shortestPathResult(startNodeId, gScore, cameFrom, endNodeId));
 			}
 
-			for (const edge of this.graphData.edges.filter(e => e.source === currentId)) {
-				const neighborId = edge.target;
-				const tentative_gScore = gScore[currentId] + (edge.weight || 1);
+			for (const arc of this.adjacency.outArcs(currentId)) {
+				const neighborId = arc.to;
+				const tentative_gScore = gScore[currentId] + arc.weight;
 				this.addStep(stepId++, 'Check neighbor', 11, {
-						edgeUpdates: [{ id: edge.id, isActive: true }],
+						edgeUpdates: [{ id: arc.edge.id, isActive: true }],
 						description: `Checking neighbor ${this.getNodeLabel(neighborId)}`,
-						matrix: { gScore: { ...gScore }, fScore: { ...fScore } }
+						matrix: scores()
 				});
 
 				if (tentative_gScore < gScore[neighborId]) {
@@ -642,30 +692,33 @@ export class AlgorithmRunner {
 					this.addStep(stepId++, 'Update neighbor scores', 15, {
 						nodeUpdates: [{ id: neighborId, distance: gScore[neighborId], state: 'current' }],
 						description: `Updating ${this.getNodeLabel(neighborId)}: gScore=${gScore[neighborId].toFixed(2)}, fScore=${fScore[neighborId].toFixed(2)}`,
-						matrix: { gScore: { ...gScore }, fScore: { ...fScore } }
+						matrix: scores()
 					});
 				}
 			}
-    }
+    }
 
 		this.addStep(stepId++, 'A* Complete - No Path', 18, {
 			description: 'Algorithm finished: no path found to the destination.',
 			queue: openSet.map(id => this.getNodeLabel(id)),
-			matrix: { gScore: { ...gScore }, fScore: { ...fScore } }
+			matrix: scores()
 		});
-    return this.createDefaultExecution();
-  }
-
-  async runBellmanFord(startNodeId: string): Promise<AlgorithmExecution> {
-    this.steps = [];
-    this.operationLog = [];
-    let stepId = 0;
-    const distances: Record<string, number> = {};
-
-    this.graphData.nodes.forEach(node => {
-      distances[node.id] = Infinity;
-    });
-    distances[startNodeId] = 0;
+    return this.createExecution(this.shortestPathResult(startNodeId, gScore, cameFrom, endNodeId));
+  }
+
+  async runBellmanFord(startNodeId: string, endNodeId?: string): Promise<AlgorithmExecution> {
+    this.steps = [];
+    this.operationLog = [];
+    this.warnings = [];
+    let stepId = 0;
+    const distances: Record<string, number> = {};
+    const predecessors: Record<string, string | null> = {};
+
+    this.graphData.nodes.forEach(node => {
+      distances[node.id] = Infinity;
+      predecessors[node.id] = null;
+    });
+    distances[startNodeId] = 0;
 
 		this.addStep(stepId++, 'Initialize Bellman-Ford', 2, {
 			nodeUpdates: this.graphData.nodes.map(n => ({
@@ -678,17 +731,18 @@ export class AlgorithmRunner {
 
 		for (let i = 0; i < this.graphData.nodes.length - 1; i++) {
 			let updated = false;
-			for (const edge of this.graphData.edges) {
-				const u = edge.source;
-				const v = edge.target;
-				const w = edge.weight || 1;
+			for (const arc of this.adjacency.arcs()) {
+				const u = arc.from;
+				const v = arc.to;
+				const w = arc.weight;
 				this.addStep(stepId++, `Relaxing edge`, 4, {
-					edgeUpdates: [{ id: edge.id, isActive: true }],
+					edgeUpdates: [{ id: arc.edge.id, isActive: true }],
 					description: `Iteration ${i+1}: Checking edge ${this.getNodeLabel(u)} -> ${this.getNodeLabel(v)}`,
 					matrix: { ...distances }
 				});
 				if (distances[u] !== Infinity && distances[u] + w < distances[v]) {
 					distances[v] = distances[u] + w;
+					predecessors[v] = u;
 					updated = true;
 					this.addStep(stepId++, 'Distance updated', 6, {
 						nodeUpdates: [{ id: v, distance: distances[v] }],
@@ -703,95 +757,107 @@ export class AlgorithmRunner {
 			});
 			if (!updated) break;
 		}
-    // Remove or fix this line, as stack is not defined in Bellman-Ford
-    // this.addStep(stepId++, 'Stack State', 2, {
-    //   stack: [...stack]
-    // });
-
-		for (const edge of this.graphData.edges) {
-			const u = edge.source;
-			const v = edge.target;
-			const w = edge.weight || 1;
+    // Remove or fix this line, as stack is not defined in Bellman-Ford
+    // this.addStep(stepId++, 'Stack State', 2, {
+    //   stack: [...stack]
+    // });
+
+		for (const arc of this.adjacency.arcs()) {
+			const u = arc.from;
+			const v = arc.to;
+			const w = arc.weight;
 			if (distances[u] !== Infinity && distances[u] + w < distances[v]) {
 				this.addStep(stepId++, 'Negative cycle detected', 9, {
 					nodeUpdates: [{ id: v, state: 'error' }, {id: u, state: 'error'}],
-					edgeUpdates: [{id: edge.id, isError: true}],
+					edgeUpdates: [{id: arc.edge.id, isError: true}],
 					description: 'Negative weight cycle detected! Algorithm cannot find shortest paths.',
 					matrix: { ...distances }
 				});
-				return this.createDefaultExecution();
+				const result = this.shortestPathResult(startNodeId, distances, predecessors);
+				return this.createExecution({
+					...result,
+					negativeCycle: true,
+					...(endNodeId ? { target: endNodeId, path: [], pathFound: false } : {})
+				});
 			}
 		}
 
-		this.addStep(stepId++, 'Bellman-Ford Complete', 10, {
-			description: 'Algorithm finished. Final distances calculated.',
+    const result = this.shortestPathResult(startNodeId, distances, predecessors, endNodeId);
+    if (result.pathFound) {
+      stepId = this.addPathTrace(stepId, result.path, 10, { matrix: { ...distances } });
+    }
+
+		this.addStep(stepId++, 'Bellman-Ford Complete', 11, {
+			description: result.target
+				? result.pathFound
+					? `Algorithm finished. Final distances calculated; path to ${this.getNodeLabel(result.target)} costs ${result.totalDistance}.`
+					: `Algorithm finished. Final distances calculated; ${this.getNodeLabel(result.target)} is unreachable.`
+				: 'Algorithm finished. Final distances calculated.',
 			matrix: { ...distances }
 		});
-    return this.createDefaultExecution();
-  }
-
-  // --- Minimum Spanning Tree (MST) Algorithms ---
-
-  async runPrims(startNodeId: string): Promise<AlgorithmExecution> {
-            // stack: [...stack] (remove, not relevant for Prim's)
-    this.steps = [];
-    this.operationLog = [];
-    let stepId = 0;
-    const mstEdges: GraphEdge[] = [];
-    const visited = new Set<string>();
-    const pq: GraphEdge[] = [];
-
-    visited.add(startNodeId);
+    return this.createExecution(result);
+  }
+
+  // --- Minimum Spanning Tree (MST) Algorithms ---
+
+  async runPrims(startNodeId: string): Promise<AlgorithmExecution> {
+    this.steps = [];
+    this.operationLog = [];
+    this.warnings = [];
+    let stepId = 0;
+    const mstEdges: Arc[] = [];
+    const visited = new Set<string>();
+    const pq: Arc[] = [];
+    // A spanning tree ignores edge direction, so Prim's always works on the undirected view.
+    const adjacency = this.adjacency.asUndirected();
+    const formatArc = (arc: Arc) => `${this.getNodeLabel(arc.from)}-${this.getNodeLabel(arc.to)}(${arc.weight})`;
+
+    visited.add(startNodeId);
 		this.addStep(stepId++, 'Initialize Prim\'s', 5, {
 			nodeUpdates: [{ id: startNodeId, state: 'visited' }],
 			description: `Starting Prim's algorithm from node ${this.getNodeLabel(startNodeId)}`,
 			list: [this.getNodeLabel(startNodeId)]
 		});
 
-    const addEdges = (nodeId: string) => {
-      this.graphData.edges
-        .filter(e => e.source === nodeId || e.target === nodeId)
-        .forEach(edge => pq.push(edge));
-    };
-    
-    addEdges(startNodeId);
+    const addEdges = (nodeId: string) => {
+      adjacency.outArcs(nodeId).forEach(arc => pq.push(arc));
+    };
+    
+    addEdges(startNodeId);
 		this.addStep(stepId++, 'Add initial edges to PQ', 6, {
 			description: `Adding edges from ${this.getNodeLabel(startNodeId)} to the priority queue.`,
-			array: pq.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`)
+			array: pq.map(formatArc)
 		});
 
 		while (pq.length > 0 && mstEdges.length < this.graphData.nodes.length - 1) {
-			pq.sort((a, b) => (a.weight || 1) - (b.weight || 1));
-			const edge = pq.shift()!;
+			pq.sort((a, b) => a.weight - b.weight);
+			const arc = pq.shift()!;
 
 			this.addStep(stepId++, 'Select minimum edge', 8, {
-				edgeUpdates: [{ id: edge.id, isActive: true }],
-				description: `Selecting edge (${this.getNodeLabel(edge.source)}-${this.getNodeLabel(edge.target)}) with weight ${edge.weight || 1}`,
-				array: pq.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`),
+				edgeUpdates: [{ id: arc.edge.id, isActive: true }],
+				description: `Selecting edge (${this.getNodeLabel(arc.from)}-${this.getNodeLabel(arc.to)}) with weight ${arc.weight}`,
+				array: pq.map(formatArc),
 				list: Array.from(visited).map(id => this.getNodeLabel(id))
 			});
 
-			const isSourceVisited = visited.has(edge.source);
-			const isTargetVisited = visited.has(edge.target);
-
-			if (isSourceVisited && isTargetVisited) {
+			if (visited.has(arc.to)) {
 				this.addStep(stepId++, 'Skip edge (creates cycle)', 11, {
-					edgeUpdates: [{ id: edge.id, isActive: false, isError: true }],
+					edgeUpdates: [{ id: arc.edge.id, isActive: false, isError: true }],
 					description: 'Both nodes already in MST, skipping edge.',
-					array: pq.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`),
+					array: pq.map(formatArc),
 					list: Array.from(visited).map(id => this.getNodeLabel(id))
 				});
 				continue;
 			}
 
-			const newNodeId = isSourceVisited ? edge.target : edge.source;
+			const newNodeId = arc.to;
 			visited.add(newNodeId);
-			mstEdges.push(edge);
+			mstEdges.push(arc);
 			this.addStep(stepId++, 'Add edge to MST', 13, {
 				nodeUpdates: [{ id: newNodeId, state: 'visited' }],
-				edgeUpdates: [{ id: edge.id, inTree: true }],
+				edgeUpdates: [{ id: arc.edge.id, inTree: true }],
 				description: `Adding edge to MST and visiting node ${this.getNodeLabel(newNodeId)}`,
-				array: pq.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`),
+				array: pq.map(formatArc),
 				list: Array.from(visited).map(id => this.getNodeLabel(id))
 			});
 
@@ -800,43 +866,49 @@ export class AlgorithmRunner {
 
 		this.addStep(stepId++, 'Prim\'s Complete', 15, {
 			description: 'Minimum Spanning Tree construction complete.',
-			array: pq.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`),
+			array: pq.map(formatArc),
 			list: Array.from(visited).map(id => this.getNodeLabel(id))
 		});
-    return this.createDefaultExecution();
-  }
-  
-  async runKruskals(): Promise<AlgorithmExecution> {
-    this.steps = [];
-    this.operationLog = [];
-    let stepId = 0;
-    const mstEdges: GraphEdge[] = [];
-    const sortedEdges = [...this.graphData.edges].sort((a, b) => (a.weight || 1) - (b.weight || 1));
-    
-    const parent: Record<string, string> = {};
-    this.graphData.nodes.forEach(node => parent[node.id] = node.id);
-
-    const find = (i: string): string => {
-      if (parent[i] === i) return i;
-      return find(parent[i]);
-    };
-    const union = (i: string, j: string) => {
-      const rootI = find(i);
-      const rootJ = find(j);
-      if(rootI !== rootJ) parent[rootJ] = rootI;
-    };
-    
+    return this.createExecution({
+      kind: 'mst',
+      edges: mstEdges.map(arc => arc.edge.id),
+      mstWeight: mstEdges.reduce((sum, arc) => sum + arc.weight, 0),
+      isSpanning: mstEdges.length === this.graphData.nodes.length - 1
+    });
+  }
+  
+  async runKruskals(): Promise<AlgorithmExecution> {
+    this.steps = [];
+    this.operationLog = [];
+    this.warnings = [];
+    let stepId = 0;
+    const mstEdges: GraphEdge[] = [];
+    const sortedEdges = [...this.graphData.edges].sort((a, b) => edgeWeight(a) - edgeWeight(b));
+    
+    const parent: Record<string, string> = {};
+    this.graphData.nodes.forEach(node => parent[node.id] = node.id);
+
+    const find = (i: string): string => {
+      if (parent[i] === i) return i;
+      return find(parent[i]);
+    };
+    const union = (i: string, j: string) => {
+      const rootI = find(i);
+      const rootJ = find(j);
+      if(rootI !== rootJ) parent[rootJ] = rootI;
+    };
+    
 		this.addStep(stepId++, 'Initialize Kruskal\'s', 3, {
 			description: 'Sorting all edges by weight.',
-			array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`),
+			array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${edgeWeight(e)})`),
 			list: this.graphData.nodes.map(n => this.getNodeLabel(n.id))
 		});
-    
+    
 		for(const edge of sortedEdges) {
 			this.addStep(stepId++, 'Consider next edge', 5, {
 				edgeUpdates: [{ id: edge.id, isActive: true }],
-				description: `Considering edge (${this.getNodeLabel(edge.source)}-${this.getNodeLabel(edge.target)}) with weight ${edge.weight || 1}`,
-				array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`),
+				description: `Considering edge (${this.getNodeLabel(edge.source)}-${this.getNodeLabel(edge.target)}) with weight ${edgeWeight(edge)}`,
+				array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${edgeWeight(e)})`),
 				list: this.graphData.nodes.map(n => this.getNodeLabel(n.id))
 			});
 
@@ -850,14 +922,14 @@ export class AlgorithmRunner {
 					nodeUpdates: [{id: edge.source, state: 'visited'}, {id: edge.target, state: 'visited'}],
 					edgeUpdates: [{ id: edge.id, inTree: true }],
 					description: `Nodes are in different sets. Adding edge to MST.`,
-					array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`),
+					array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${edgeWeight(e)})`),
 					list: this.graphData.nodes.map(n => this.getNodeLabel(n.id))
 				});
 			} else {
 				this.addStep(stepId++, 'Skip edge (creates cycle)', 7, {
 					edgeUpdates: [{ id: edge.id, isError: true, isActive: false }],
 					description: `Nodes are in the same set. Skipping to avoid a cycle.`,
-					array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`),
+					array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${edgeWeight(e)})`),
 					list: this.graphData.nodes.map(n => this.getNodeLabel(n.id))
 				});
 			}
@@ -867,9 +939,14 @@ export class AlgorithmRunner {
     
 		this.addStep(stepId++, 'Kruskal\'s Complete', 10, {
 			description: 'Minimum Spanning Tree construction complete.',
-			array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${e.weight || 1})`),
+			array: sortedEdges.map(e => `${this.getNodeLabel(e.source)}-${this.getNodeLabel(e.target)}(${edgeWeight(e)})`),
 			list: this.graphData.nodes.map(n => this.getNodeLabel(n.id))
 		});
-    return this.createDefaultExecution();
-  }
+    return this.createExecution({
+      kind: 'mst',
+      edges: mstEdges.map(edge => edge.id),
+      mstWeight: mstEdges.reduce((sum, edge) => sum + edgeWeight(edge), 0),
+      isSpanning: mstEdges.length === this.graphData.nodes.length - 1
+    });
+  }
 }
\ No newline at end of file
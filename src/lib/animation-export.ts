@@ -0,0 +1,125 @@
+// src/lib/animation-export.ts
+// Renders a recorded run offscreen, one frame per step, as an animated GIF or a WebM video.
+// Frames are rebuilt from the step timeline, so exporting never touches on-screen playback.
+import { AlgorithmStep, GraphData } from './graph-types';
+import { Scene, buildScene, withCaption } from './graph-scene';
+import { renderSceneToCanvas } from './scene-render';
+import { graphStateAtStep, restoreGraphState } from './step-timeline';
+import { createGifEncoder } from './gif-encoder';
+
+export type AnimationFormat = 'gif' | 'webm';
+
+export interface AnimationOptions {
+  /** First and last step index, inclusive. */
+  from: number;
+  to: number;
+  /** How long each step stays on screen, in milliseconds. */
+  frameDuration: number;
+  scale: number;
+  isDirected: boolean;
+  showResidual?: boolean;
+  showGrid?: boolean;
+  includeDescription: boolean;
+  /** Pseudo-code of the algorithm; the step's current line is captioned when given. */
+  codeLines?: string[];
+}
+
+export interface AnimationProgress {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+const WEBM_TYPE = 'video/webm';
+
+export const supportsWebm = () =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(WEBM_TYPE) && 'captureStream' in HTMLCanvasElement.prototype;
+
+/**
+ * The scene for one step, with the optional description and code captions below it. The caption
+ * band is sized from the options, not the step, so every frame of an export has the same height
+ * even when a step has no code line.
+ */
+export const stepScene = (graphData: GraphData, steps: AlgorithmStep[], index: number, options: AnimationOptions): Scene => {
+  const step = steps[index];
+  const state = restoreGraphState(graphData, graphStateAtStep(steps, index));
+  const scene = buildScene(state, { isDirected: options.isDirected, showResidual: options.showResidual, showGrid: options.showGrid });
+  const codeLine = step.codeLine ? options.codeLines?.[step.codeLine - 1] : undefined;
+  const rows = (options.includeDescription ? 1 : 0) + (options.codeLines ? 1 : 0);
+  return withCaption(scene, [
+    ...(options.includeDescription ? [{ text: `${index + 1}/${steps.length}  ${step.description}` }] : []),
+    ...(codeLine !== undefined ? [{ text: `${String(step.codeLine).padStart(2, '0')}  ${codeLine.trim()}`, muted: true, monospace: true }] : []),
+  ], rows);
+};
+
+// Gives the browser a chance to paint progress and deliver a cancel click between frames.
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+};
+
+const stepIndices = ({ from, to }: AnimationOptions) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+export const renderGif = async (
+  graphData: GraphData,
+  steps: AlgorithmStep[],
+  options: AnimationOptions,
+  { onProgress, signal }: AnimationProgress = {}
+): Promise<Blob> => {
+  const indices = stepIndices(options);
+  let encoder: ReturnType<typeof createGifEncoder> | null = null;
+  for (const [done, index] of indices.entries()) {
+    throwIfAborted(signal);
+    const canvas = renderSceneToCanvas(stepScene(graphData, steps, index, options), options.scale);
+    encoder ??= createGifEncoder(canvas.width, canvas.height);
+    encoder.addFrame(canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height).data, options.frameDuration);
+    onProgress?.(done + 1, indices.length);
+    await nextTask();
+  }
+  return new Blob([encoder.finish()], { type: 'image/gif' });
+};
+
+/**
+ * Records the frames through MediaRecorder. Recording happens in real time, so this takes as long
+ * as the animation itself.
+ */
+export const renderWebm = async (
+  graphData: GraphData,
+  steps: AlgorithmStep[],
+  options: AnimationOptions,
+  { onProgress, signal }: AnimationProgress = {}
+): Promise<Blob> => {
+  const indices = stepIndices(options);
+  const first = renderSceneToCanvas(stepScene(graphData, steps, indices[0], options), options.scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = first.width;
+  canvas.height = first.height;
+  const ctx = canvas.getContext('2d');
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType: WEBM_TYPE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => event.data.size > 0 && chunks.push(event.data);
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  try {
+    for (const [done, index] of indices.entries()) {
+      throwIfAborted(signal);
+      const frame = done === 0 ? first : renderSceneToCanvas(stepScene(graphData, steps, index, options), options.scale);
+      ctx.drawImage(frame, 0, 0);
+      track.requestFrame();
+      onProgress?.(done + 1, indices.length);
+      await wait(options.frameDuration);
+    }
+  } finally {
+    recorder.stop();
+    track.stop();
+    await stopped;
+  }
+  return new Blob(chunks, { type: WEBM_TYPE });
+};
+
+export const renderAnimation = (format: AnimationFormat, ...args: Parameters<typeof renderGif>) =>
+  format === 'gif' ? renderGif(...args) : renderWebm(...args);
@@ -0,0 +1,479 @@
+// src/lib/auto-layout.ts
+// Automatic layouts for the editor's Layout menu. Each one is a pure function of the graph (plus a
+// seed for the force-directed layout), so the same input always gives the same coordinates. Layouts
+// work at a natural spacing and are then shrunk, never stretched, to fit the page, though never so
+// far that nodes crowd each other; a layout too big for the page spills past it instead.
+import { CANVAS_CENTER, CANVAS_SIZE } from './graph-layout';
+import { NODE_RADIUS } from './graph-scene';
+import { GraphAdjacency } from './graph-adjacency';
+import { GraphData, GraphNode } from './graph-types';
+
+export type LayoutKind = 'force' | 'layered' | 'tree' | 'radial' | 'circular' | 'bipartite' | 'grid';
+
+export const layoutLabels: Record<LayoutKind, string> = {
+  force: 'Force-directed',
+  layered: 'Layered (DAG)',
+  tree: 'Tree',
+  radial: 'Radial tree',
+  circular: 'Circular',
+  bipartite: 'Bipartite columns',
+  grid: 'Grid',
+};
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutOptions {
+  isDirected: boolean;
+  /** Seeds the starting positions of the force-directed layout. */
+  seed?: number;
+  /** Root of the tree layouts; defaults to the first node without incoming edges. */
+  root?: string;
+}
+
+/** A layout that does not apply to the graph, e.g. the bipartite layout on an odd cycle. */
+export class LayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutError';
+  }
+}
+
+/** Distance between neighbouring nodes, layers and grid cells before fitting to the page. */
+export const LAYOUT_SPACING = 120;
+const PAGE_MARGIN = 60;
+/** Fitting to the page stops shrinking once the closest two nodes are this far apart, centre to centre. */
+export const MIN_LAYOUT_SPACING = 2.5 * NODE_RADIUS;
+const FORCE_ITERATIONS = 300;
+const FORCE_GRAVITY = 0.05;
+const CROSSING_SWEEPS = 24;
+const BIPARTITE_SWEEPS = 4;
+
+// mulberry32: tiny, fast and good enough to scatter starting positions.
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// The distance between the closest two points that are not on top of each other.
+const closestDistance = (list: Point[]): number => {
+  let closest = Infinity;
+  for (let i = 0; i < list.length; i++) {
+    for (let j = i + 1; j < list.length; j++) {
+      const distance = Math.hypot(list[i].x - list[j].x, list[i].y - list[j].y);
+      if (distance > 0) closest = Math.min(closest, distance);
+    }
+  }
+  return closest;
+};
+
+/**
+ * Centres the points on the page, shrinking them uniformly if they do not fit inside the margin.
+ * Shrinking stops at MIN_LAYOUT_SPACING, so a large layout keeps its nodes apart and reaches past
+ * the page.
+ */
+const fitToPage = (points: Map<string, Point>): Map<string, Point> => {
+  const list = [...points.values()];
+  if (list.length === 0) return points;
+  const xs = list.map(p => p.x);
+  const ys = list.map(p => p.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const scale = Math.min(1, Math.max(
+    Math.min(
+      (CANVAS_SIZE.width - 2 * PAGE_MARGIN) / Math.max(maxX - minX, 1),
+      (CANVAS_SIZE.height - 2 * PAGE_MARGIN) / Math.max(maxY - minY, 1)
+    ),
+    MIN_LAYOUT_SPACING / closestDistance(list)
+  ));
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+  return new Map([...points].map(([id, p]) => [id, {
+    x: Math.round(CANVAS_CENTER.x + (p.x - centerX) * scale),
+    y: Math.round(CANVAS_CENTER.y + (p.y - centerY) * scale),
+  }]));
+};
+
+/** Edges between distinct, existing nodes, as index pairs with duplicates (either way round) removed. */
+const simpleLinks = (graphData: GraphData, index: Map<string, number>): [number, number][] => {
+  const seen = new Set<string>();
+  const links: [number, number][] = [];
+  for (const edge of graphData.edges) {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b) continue;
+    const key = a < b ? `${a} ${b}` : `${b} ${a}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    links.push([a, b]);
+  }
+  return links;
+};
+
+/** Fruchterman–Reingold: nodes repel, edges pull, and the step size cools to zero. */
+const forceLayout = (graphData: GraphData, seed: number): Map<string, Point> => {
+  const ids = graphData.nodes.map(node => node.id);
+  const links = simpleLinks(graphData, new Map(ids.map((id, i) => [id, i])));
+  const random = seededRandom(seed);
+  const k = LAYOUT_SPACING;
+  const side = k * Math.sqrt(ids.length);
+  const pos = ids.map(() => ({ x: random() * side, y: random() * side }));
+  let temperature = side / 10;
+  const cooling = temperature / FORCE_ITERATIONS;
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const disp = ids.map(() => ({ x: 0, y: 0 }));
+    for (let i = 0; i < pos.length; i++) {
+      for (let j = i + 1; j < pos.length; j++) {
+        const dx = pos[i].x - pos[j].x;
+        const dy = pos[i].y - pos[j].y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (k * k) / distance;
+        disp[i].x += (dx / distance) * force;
+        disp[i].y += (dy / distance) * force;
+        disp[j].x -= (dx / distance) * force;
+        disp[j].y -= (dy / distance) * force;
+      }
+    }
+    for (const [a, b] of links) {
+      const dx = pos[a].x - pos[b].x;
+      const dy = pos[a].y - pos[b].y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / k;
+      disp[a].x -= (dx / distance) * force;
+      disp[a].y -= (dy / distance) * force;
+      disp[b].x += (dx / distance) * force;
+      disp[b].y += (dy / distance) * force;
+    }
+    // A weak pull to the middle keeps disconnected pieces from drifting apart.
+    const centerX = pos.reduce((sum, p) => sum + p.x, 0) / pos.length;
+    const centerY = pos.reduce((sum, p) => sum + p.y, 0) / pos.length;
+    pos.forEach((p, i) => {
+      const dx = disp[i].x - (p.x - centerX) * FORCE_GRAVITY * k;
+      const dy = disp[i].y - (p.y - centerY) * FORCE_GRAVITY * k;
+      const length = Math.hypot(dx, dy);
+      if (length === 0) return;
+      const step = Math.min(length, temperature);
+      p.x += (dx / length) * step;
+      p.y += (dy / length) * step;
+    });
+    temperature -= cooling;
+  }
+  return new Map(ids.map((id, i) => [id, pos[i]]));
+};
+
+/** Edges pointing between consecutive layers, as index lists per vertex. */
+interface LayeredGraph {
+  layers: number[][];
+  up: number[][];
+  down: number[][];
+}
+
+const countCrossings = (graph: LayeredGraph, order: number[][]): number => {
+  let crossings = 0;
+  for (let l = 0; l + 1 < order.length; l++) {
+    const position = new Map(order[l + 1].map((v, i) => [v, i]));
+    const links: [number, number][] = [];
+    order[l].forEach((v, i) => graph.down[v].forEach(w => links.push([i, position.get(w)])));
+    for (let a = 0; a < links.length; a++) {
+      for (let b = a + 1; b < links.length; b++) {
+        if ((links[a][0] - links[b][0]) * (links[a][1] - links[b][1]) < 0) crossings++;
+      }
+    }
+  }
+  return crossings;
+};
+
+/**
+ * Sugiyama-style layers: back edges found by a DFS are reversed to break cycles, nodes go on the
+ * layer after their longest path from a source, long edges get dummy vertices, and barycentre
+ * sweeps reorder each layer to reduce crossings. Undirected edges point the way they were drawn.
+ */
+const layeredLayout = (graphData: GraphData): Map<string, Point> => {
+  const ids = graphData.nodes.map(node => node.id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const out: number[][] = ids.map(() => []);
+  const seen = new Set<string>();
+  for (const edge of graphData.edges) {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b || seen.has(`${a} ${b}`)) continue;
+    seen.add(`${a} ${b}`);
+    out[a].push(b);
+  }
+
+  // 1. Break cycles: reverse every edge that leads back into the DFS stack.
+  const arcs: [number, number][] = [];
+  const state = ids.map(() => 0); // 0 unvisited, 1 on the stack, 2 done
+  for (let start = 0; start < ids.length; start++) {
+    if (state[start] !== 0) continue;
+    const stack: [number, number][] = [[start, 0]];
+    state[start] = 1;
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const [v, next] = top;
+      if (next === out[v].length) {
+        state[v] = 2;
+        stack.pop();
+        continue;
+      }
+      top[1]++;
+      const w = out[v][next];
+      if (state[w] === 1) arcs.push([w, v]);
+      else arcs.push([v, w]);
+      if (state[w] === 0) {
+        state[w] = 1;
+        stack.push([w, 0]);
+      }
+    }
+  }
+
+  // 2. Longest-path layering, in topological order.
+  const succ: number[][] = ids.map(() => []);
+  const indegree = ids.map(() => 0);
+  for (const [a, b] of arcs) {
+    if (succ[a].includes(b)) continue;
+    succ[a].push(b);
+    indegree[b]++;
+  }
+  const layerOf = ids.map(() => 0);
+  const queue = ids.map((_, i) => i).filter(i => indegree[i] === 0);
+  for (let head = 0; head < queue.length; head++) {
+    const v = queue[head];
+    for (const w of succ[v]) {
+      layerOf[w] = Math.max(layerOf[w], layerOf[v] + 1);
+      if (--indegree[w] === 0) queue.push(w);
+    }
+  }
+
+  // 3. Dummy vertices split edges spanning several layers, so every link joins adjacent layers.
+  const graph: LayeredGraph = { layers: [], up: ids.map(() => []), down: ids.map(() => []) };
+  const addVertex = (layer: number) => {
+    layerOf.push(layer);
+    graph.up.push([]);
+    graph.down.push([]);
+    return layerOf.length - 1;
+  };
+  succ.forEach((targets, a) => targets.forEach(b => {
+    let previous = a;
+    for (let layer = layerOf[a] + 1; layer < layerOf[b]; layer++) {
+      const dummy = addVertex(layer);
+      graph.down[previous].push(dummy);
+      graph.up[dummy].push(previous);
+      previous = dummy;
+    }
+    graph.down[previous].push(b);
+    graph.up[b].push(previous);
+  }));
+  layerOf.forEach((layer, v) => (graph.layers[layer] ??= []).push(v));
+
+  // 4. Barycentre sweeps, down then up, keeping the ordering with the fewest crossings.
+  let order = graph.layers.map(layer => [...layer]);
+  let best = order.map(layer => [...layer]);
+  let bestCrossings = countCrossings(graph, order);
+  for (let sweep = 0; sweep < CROSSING_SWEEPS && bestCrossings > 0; sweep++) {
+    const downward = sweep % 2 === 0;
+    const layerIndices = order.map((_, l) => l);
+    if (!downward) layerIndices.reverse();
+    for (const l of layerIndices.slice(1)) {
+      const fixed = order[downward ? l - 1 : l + 1];
+      const position = new Map(fixed.map((v, i) => [v, i]));
+      const current = new Map(order[l].map((v, i) => [v, i]));
+      const barycentre = (v: number) => {
+        const neighbours = downward ? graph.up[v] : graph.down[v];
+        if (neighbours.length === 0) return current.get(v);
+        return neighbours.reduce((sum, w) => sum + position.get(w), 0) / neighbours.length;
+      };
+      order[l] = [...order[l]].sort((a, b) => barycentre(a) - barycentre(b));
+    }
+    const crossings = countCrossings(graph, order);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = order.map(layer => [...layer]);
+    }
+  }
+  order = best;
+
+  // 5. Layers run top to bottom, each centred; dummies keep their slot so long edges stay clear.
+  const points = new Map<string, Point>();
+  order.forEach((layer, l) => layer.forEach((v, i) => {
+    if (v < ids.length) points.set(ids[v], { x: (i - (layer.length - 1) / 2) * LAYOUT_SPACING, y: l * LAYOUT_SPACING });
+  }));
+  return points;
+};
+
+/**
+ * Breadth-first spanning forest, ignoring direction. The first tree grows from `root`; the others
+ * from the first unreached node, preferring nodes without incoming edges in directed graphs.
+ */
+const spanningForest = (graphData: GraphData, options: LayoutOptions) => {
+  const adjacency = new GraphAdjacency(graphData, false);
+  const hasIncoming = new Set(graphData.edges.filter(edge => edge.source !== edge.target).map(edge => edge.target));
+  const candidates = graphData.nodes
+    .map(node => node.id)
+    .sort((a, b) => Number(options.isDirected && hasIncoming.has(a)) - Number(options.isDirected && hasIncoming.has(b)));
+  if (options.root && candidates.includes(options.root)) candidates.unshift(options.root);
+
+  const roots: string[] = [];
+  const children = new Map<string, string[]>();
+  const depth = new Map<string, number>();
+  for (const candidate of candidates) {
+    if (depth.has(candidate)) continue;
+    roots.push(candidate);
+    depth.set(candidate, 0);
+    const queue = [candidate];
+    for (let head = 0; head < queue.length; head++) {
+      const id = queue[head];
+      children.set(id, []);
+      for (const next of adjacency.neighbors(id)) {
+        if (depth.has(next)) continue;
+        depth.set(next, depth.get(id) + 1);
+        children.get(id).push(next);
+        queue.push(next);
+      }
+    }
+  }
+  return { roots, children, depth };
+};
+
+/**
+ * Visits the forest depth first, numbering leaves left to right. Returns each node's leaf range,
+ * which is all both tree layouts need: a parent sits over the middle of its children.
+ */
+const leafSpans = (roots: string[], children: Map<string, string[]>) => {
+  const spans = new Map<string, { first: number; last: number }>();
+  let nextLeaf = 0;
+  for (const root of roots) {
+    const stack: { id: string; visited: boolean }[] = [{ id: root, visited: false }];
+    while (stack.length > 0) {
+      const entry = stack.pop();
+      const kids = children.get(entry.id);
+      if (kids.length === 0) {
+        spans.set(entry.id, { first: nextLeaf, last: nextLeaf });
+        nextLeaf++;
+      } else if (!entry.visited) {
+        stack.push({ id: entry.id, visited: true }, ...[...kids].reverse().map(id => ({ id, visited: false })));
+      } else {
+        spans.set(entry.id, { first: spans.get(kids[0]).first, last: spans.get(kids[kids.length - 1]).last });
+      }
+    }
+  }
+  return { spans, leafCount: nextLeaf };
+};
+
+/** Layered tree: leaves evenly spaced, each parent centred over its children. */
+const treeLayout = (graphData: GraphData, options: LayoutOptions): Map<string, Point> => {
+  const { roots, children, depth } = spanningForest(graphData, options);
+  const { spans } = leafSpans(roots, children);
+  return new Map([...spans].map(([id, { first, last }]) => [id, {
+    x: ((first + last) / 2) * LAYOUT_SPACING,
+    y: depth.get(id) * LAYOUT_SPACING,
+  }]));
+};
+
+/** Radial tree: the root in the middle, each depth on a ring, each subtree in its own wedge. */
+const radialLayout = (graphData: GraphData, options: LayoutOptions): Map<string, Point> => {
+  const { roots, children, depth } = spanningForest(graphData, options);
+  const { spans, leafCount } = leafSpans(roots, children);
+  // A forest hangs its trees off an imaginary centre, one ring out.
+  const ringOffset = roots.length > 1 ? 1 : 0;
+  const maxRing = Math.max(...[...depth.values()].map(d => d + ringOffset), 1);
+  // Rings far enough apart that neighbouring leaves on the outer ring are a spacing apart.
+  const ring = Math.max(LAYOUT_SPACING, (leafCount * LAYOUT_SPACING) / (2 * Math.PI * maxRing));
+  return new Map([...spans].map(([id, { first, last }]) => {
+    const radius = (depth.get(id) + ringOffset) * ring;
+    const angle = (((first + last) / 2 + 0.5) / leafCount) * 2 * Math.PI - Math.PI / 2;
+    return [id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) }];
+  }));
+};
+
+/** Nodes in their current order around a circle, starting at the top. */
+const circularLayout = (graphData: GraphData): Map<string, Point> => {
+  const count = graphData.nodes.length;
+  const radius = count < 2 ? 0 : Math.max(LAYOUT_SPACING, (count * LAYOUT_SPACING) / (2 * Math.PI));
+  return new Map(graphData.nodes.map((node, i) => {
+    const angle = (2 * Math.PI * i) / count - Math.PI / 2;
+    return [node.id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) }];
+  }));
+};
+
+/** The two sides of a bipartite graph in two columns, ordered to reduce crossings. Throws LayoutError otherwise. */
+const bipartiteLayout = (graphData: GraphData): Map<string, Point> => {
+  const adjacency = new GraphAdjacency(graphData, false);
+  const labels = new Map(graphData.nodes.map(node => [node.id, node.label]));
+  const side = new Map<string, number>();
+  for (const node of graphData.nodes) {
+    if (side.has(node.id)) continue;
+    side.set(node.id, 0);
+    const queue = [node.id];
+    for (let head = 0; head < queue.length; head++) {
+      const id = queue[head];
+      for (const next of adjacency.neighbors(id)) {
+        if (!side.has(next)) {
+          side.set(next, 1 - side.get(id));
+          queue.push(next);
+        } else if (side.get(next) === side.get(id)) {
+          throw new LayoutError(`The graph is not bipartite: ${labels.get(id)} and ${labels.get(next)} are joined but would have to be on the same side.`);
+        }
+      }
+    }
+  }
+
+  const columns = [0, 1].map(s => graphData.nodes.filter(node => side.get(node.id) === s).map(node => node.id));
+  for (let sweep = 0; sweep < BIPARTITE_SWEEPS; sweep++) {
+    const fixed = columns[sweep % 2];
+    const position = new Map(fixed.map((id, i) => [id, i]));
+    const moving = columns[1 - (sweep % 2)];
+    const current = new Map(moving.map((id, i) => [id, i]));
+    const barycentre = (id: string) => {
+      const neighbours = adjacency.neighbors(id).filter(n => position.has(n));
+      if (neighbours.length === 0) return current.get(id);
+      return neighbours.reduce((sum, n) => sum + position.get(n), 0) / neighbours.length;
+    };
+    columns[1 - (sweep % 2)] = [...moving].sort((a, b) => barycentre(a) - barycentre(b));
+  }
+
+  const points = new Map<string, Point>();
+  columns.forEach((column, c) => column.forEach((id, i) => {
+    points.set(id, { x: c * 3 * LAYOUT_SPACING, y: (i - (column.length - 1) / 2) * LAYOUT_SPACING });
+  }));
+  return points;
+};
+
+/** Nodes in their current order, row by row, in a roughly square grid. */
+const gridLayout = (graphData: GraphData): Map<string, Point> => {
+  const columns = Math.ceil(Math.sqrt(graphData.nodes.length));
+  return new Map(graphData.nodes.map((node, i) => [node.id, {
+    x: (i % columns) * LAYOUT_SPACING,
+    y: Math.floor(i / columns) * LAYOUT_SPACING,
+  }]));
+};
+
+/** New positions for every node, fitted to the page and rounded to whole pixels. */
+export const computeLayout = (kind: LayoutKind, graphData: GraphData, options: LayoutOptions): Map<string, Point> => {
+  switch (kind) {
+    case 'force': return fitToPage(forceLayout(graphData, options.seed ?? 1));
+    case 'layered': return fitToPage(layeredLayout(graphData));
+    case 'tree': return fitToPage(treeLayout(graphData, options));
+    case 'radial': return fitToPage(radialLayout(graphData, options));
+    case 'circular': return fitToPage(circularLayout(graphData));
+    case 'bipartite': return fitToPage(bipartiteLayout(graphData));
+    case 'grid': return fitToPage(gridLayout(graphData));
+  }
+};
+
+/** Moves nodes to their positions in `positions`; nodes without one stay where they are. */
+export const positionNodes = <T extends GraphNode>(nodes: T[], positions: Map<string, Point>): T[] =>
+  nodes.map(node => (positions.has(node.id) ? { ...node, ...positions.get(node.id) } : node));
+
+/** Positions a fraction `t` of the way from `from` to `to`, eased in and out, for animating a layout change. */
+export const interpolatePositions = (from: Map<string, Point>, to: Map<string, Point>, t: number): Map<string, Point> => {
+  const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+  return new Map([...to].map(([id, end]) => {
+    const start = from.get(id) ?? end;
+    return [id, { x: start.x + (end.x - start.x) * eased, y: start.y + (end.y - start.y) * eased }];
+  }));
+};
@@ -0,0 +1,361 @@
+// src/lib/dot.ts
+// Graphviz DOT import and export. Import understands the full statement grammar (subgraphs, default
+// attributes, edge chains) and flattens it into GraphData; export writes the current algorithm state
+// as colours so `dot -Kneato -n -Tsvg` reproduces the figure.
+import { GraphData, GraphEdge, GraphNode } from './graph-types';
+import { GraphImportError, ImportedGraph } from './graph-import';
+import { withCircularLayout } from './graph-layout';
+
+type Attributes = Record<string, string>;
+
+type Token =
+  | { kind: 'id'; value: string; quoted: boolean; line: number }
+  | { kind: 'punct'; value: string; line: number }
+  | { kind: 'eof'; value: ''; line: number };
+
+// Attributes Graphviz writes as layout output; positions are converted, the rest is recomputed on export.
+const LAYOUT_OUTPUT: Record<'graph' | 'node' | 'edge', string[]> = {
+  graph: ['bb', 'lp', 'lheight', 'lwidth'],
+  node: ['pos'],
+  edge: ['pos', 'lp', 'head_lp', 'tail_lp'],
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  const fail = (message: string) => { throw new GraphImportError(`Line ${line}: ${message}`); };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (text.startsWith('//', i) || (char === '#' && (i === 0 || text[i - 1] === '\n'))) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      if (end < 0) fail('unterminated comment');
+      line += text.slice(i, end).split('\n').length - 1;
+      i = end + 2;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && text[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (text[i] === '\\' && text[i + 1] === '\n') {
+          line++;
+          i += 2;
+        } else {
+          if (text[i] === '\n') line++;
+          value += text[i++];
+        }
+      }
+      if (i >= text.length) fail('unterminated string');
+      i++;
+      // "a" + "b" concatenates quoted strings.
+      const previous = tokens[tokens.length - 1];
+      const concatenating = tokens.length >= 2 && previous.kind === 'punct' && previous.value === '+';
+      if (concatenating) {
+        tokens.pop();
+        const head = tokens[tokens.length - 1];
+        if (head.kind !== 'id' || !head.quoted) fail('"+" must join two quoted strings');
+        head.value += value;
+      } else {
+        tokens.push({ kind: 'id', value, quoted: true, line });
+      }
+    } else if (char === '<') {
+      // HTML-like label: balanced angle brackets.
+      let depth = 0;
+      const start = i;
+      do {
+        if (text[i] === '<') depth++;
+        else if (text[i] === '>') depth--;
+        else if (text[i] === '\n') line++;
+        i++;
+      } while (i < text.length && depth > 0);
+      if (depth > 0) fail('unterminated HTML string');
+      tokens.push({ kind: 'id', value: text.slice(start + 1, i - 1), quoted: true, line });
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ kind: 'punct', value: text.slice(i, i + 2), line });
+      i += 2;
+    } else if ('{}[]=;,:+'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char, line });
+      i++;
+    } else {
+      const match = /^(-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(text.slice(i));
+      if (!match) fail(`unexpected character "${char}"`);
+      tokens.push({ kind: 'id', value: match[0], quoted: false, line });
+      i += match[0].length;
+    }
+  }
+  tokens.push({ kind: 'eof', value: '', line });
+  return tokens;
+};
+
+interface Scope {
+  node: Attributes;
+  edge: Attributes;
+}
+
+const parseNumbers = (value: string | undefined, count: number): number[] | undefined => {
+  const numbers = value?.replace(/!$/, '').split(',').map(Number);
+  return numbers && numbers.length === count && numbers.every(Number.isFinite) ? numbers : undefined;
+};
+
+const parseWeight = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const omit = (attributes: Attributes, names: string[]): Attributes =>
+  Object.fromEntries(Object.entries(attributes).filter(([name]) => !names.includes(name)));
+
+export const parseDot = (text: string): ImportedGraph => {
+  const tokens = tokenize(text);
+  const warnings: string[] = [];
+  let position = 0;
+
+  const peek = (offset = 0) => tokens[Math.min(position + offset, tokens.length - 1)];
+  const next = () => tokens[position++];
+  const isPunct = (value: string, token = peek()) => token.kind === 'punct' && token.value === value;
+  const isKeyword = (keyword: string, token = peek()) => token.kind === 'id' && !token.quoted && token.value.toLowerCase() === keyword;
+  const describe = (token: Token) => (token.kind === 'eof' ? 'end of input' : `"${token.value}"`);
+  const expect = (value: string) => {
+    const token = next();
+    if (token.kind !== 'punct' || token.value !== value) {
+      throw new GraphImportError(`Line ${token.line}: expected "${value}" but found ${describe(token)}`);
+    }
+  };
+  const expectId = () => {
+    const token = next();
+    if (token.kind !== 'id') throw new GraphImportError(`Line ${token.line}: expected an identifier but found ${describe(token)}`);
+    return token.value;
+  };
+
+  const strict = isKeyword('strict');
+  if (strict) next();
+  if (!isKeyword('graph') && !isKeyword('digraph')) {
+    throw new GraphImportError('This is not a DOT file: it must start with "graph" or "digraph".');
+  }
+  const isDirected = next().value.toLowerCase() === 'digraph';
+  const edgeOp = isDirected ? '->' : '--';
+  if (peek().kind === 'id') next();
+
+  const nodes = new Map<string, Attributes>();
+  const edges: { source: string; target: string; attributes: Attributes }[] = [];
+  const graphAttributes: Attributes = {};
+  let portWarning = false;
+
+  const ensureNode = (id: string, scope: Scope) => {
+    if (!nodes.has(id)) nodes.set(id, { ...scope.node });
+    return id;
+  };
+  const parseAttributeLists = (): Attributes => {
+    const attributes: Attributes = {};
+    while (isPunct('[')) {
+      next();
+      while (!isPunct(']')) {
+        const name = expectId();
+        expect('=');
+        attributes[name] = expectId();
+        if (isPunct(',') || isPunct(';')) next();
+      }
+      next();
+    }
+    return attributes;
+  };
+  const parseNodeId = (scope: Scope) => {
+    const id = ensureNode(expectId(), scope);
+    if (isPunct(':')) {
+      // node:port[:compass]
+      next();
+      expectId();
+      if (isPunct(':')) {
+        next();
+        expectId();
+      }
+      if (!portWarning) warnings.push('Ports were ignored; edges connect to the nodes themselves.');
+      portWarning = true;
+    }
+    return id;
+  };
+  const parseSubgraph = (scope: Scope): string[] => {
+    if (isKeyword('subgraph')) {
+      next();
+      if (peek().kind === 'id') next();
+    }
+    expect('{');
+    return parseStatements({ node: { ...scope.node }, edge: { ...scope.edge } }, false);
+  };
+  const parseOperand = (scope: Scope): string[] =>
+    isKeyword('subgraph') || isPunct('{') ? parseSubgraph(scope) : [parseNodeId(scope)];
+
+  // Parses statements up to the closing brace and returns every node they mention.
+  function parseStatements(scope: Scope, isRoot: boolean): string[] {
+    const mentioned = new Set<string>();
+    while (!isPunct('}')) {
+      if (peek().kind === 'eof') throw new GraphImportError(`Line ${peek().line}: expected "}" but found end of input`);
+      if ((isKeyword('graph') || isKeyword('node') || isKeyword('edge')) && isPunct('[', peek(1))) {
+        const target = next().value.toLowerCase() as 'graph' | 'node' | 'edge';
+        const attributes = parseAttributeLists();
+        if (target === 'graph') {
+          if (isRoot) Object.assign(graphAttributes, attributes);
+        } else {
+          Object.assign(scope[target], attributes);
+        }
+      } else if (peek().kind === 'id' && isPunct('=', peek(1)) && !isKeyword('subgraph')) {
+        const name = expectId();
+        next();
+        const value = expectId();
+        if (isRoot) graphAttributes[name] = value;
+      } else {
+        const isNodeStatement = !isKeyword('subgraph') && !isPunct('{');
+        const operands = [parseOperand(scope)];
+        while (isPunct('->') || isPunct('--')) {
+          const op = next();
+          if (op.value !== edgeOp) {
+            throw new GraphImportError(`Line ${op.line}: "${op.value}" cannot be used in a ${isDirected ? 'digraph' : 'graph'}; use "${edgeOp}"`);
+          }
+          operands.push(parseOperand(scope));
+        }
+        const attributes = parseAttributeLists();
+        if (operands.length === 1 && isNodeStatement) {
+          Object.assign(nodes.get(operands[0][0]), attributes);
+        }
+        for (let i = 1; i < operands.length; i++) {
+          for (const source of operands[i - 1]) {
+            for (const target of operands[i]) edges.push({ source, target, attributes: { ...scope.edge, ...attributes } });
+          }
+        }
+        operands.flat().forEach(id => mentioned.add(id));
+      }
+      if (isPunct(';')) next();
+    }
+    next();
+    return [...mentioned];
+  }
+
+  expect('{');
+  parseStatements({ node: {}, edge: {} }, true);
+  if (peek().kind !== 'eof') warnings.push('Only the first graph in the file was imported.');
+
+  // Graphviz puts the origin at the bottom left; flip y within the bounding box so the drawing stays upright.
+  const positions = new Map<string, number[]>();
+  nodes.forEach((attributes, id) => {
+    const pos = parseNumbers(attributes.pos, 2);
+    if (pos) positions.set(id, pos);
+  });
+  const bb = parseNumbers(graphAttributes.bb, 4);
+  const ys = [...positions.values()].map(([, y]) => y);
+  const flipY = bb ? bb[1] + bb[3] : Math.min(...ys) + Math.max(...ys);
+
+  const graphNodes: GraphNode[] = [...nodes].map(([id, attributes]) => {
+    const label = attributes.label === undefined ? id : attributes.label.replace(/\\N/g, id).replace(/\\[nlr]/g, ' ').trim();
+    const node: GraphNode = { id, label: label || id, state: 'default' };
+    const pos = positions.get(id);
+    if (pos) {
+      node.x = pos[0];
+      node.y = flipY - pos[1];
+    }
+    const rest = omit(attributes, ['label', ...LAYOUT_OUTPUT.node]);
+    if (Object.keys(rest).length > 0) node.attributes = rest;
+    return node;
+  });
+
+  const seen = new Set<string>();
+  const graphEdges: GraphEdge[] = [];
+  edges.forEach(({ source, target, attributes }, index) => {
+    // strict graphs merge repeated edges into one.
+    const key = isDirected || source < target ? `${source}\u0000${target}` : `${target}\u0000${source}`;
+    if (strict && seen.has(key)) return;
+    seen.add(key);
+    const edge: GraphEdge = { id: `e${index}`, source, target, isActive: false };
+    const fromWeight = parseWeight(attributes.weight);
+    const fromLabel = parseWeight(attributes.label);
+    const weight = fromWeight ?? fromLabel;
+    if (weight !== undefined) edge.weight = weight;
+    const consumed = [...(fromWeight !== undefined ? ['weight'] : []), ...(fromLabel !== undefined && fromLabel === weight ? ['label'] : [])];
+    const rest = omit(attributes, [...consumed, ...LAYOUT_OUTPUT.edge]);
+    if (Object.keys(rest).length > 0) edge.attributes = rest;
+    graphEdges.push(edge);
+  });
+
+  const graphData: GraphData = { nodes: withCircularLayout(graphNodes), edges: graphEdges };
+  const rest = omit(graphAttributes, LAYOUT_OUTPUT.graph);
+  if (Object.keys(rest).length > 0) graphData.attributes = rest;
+  return { graphData, isDirected, warnings };
+};
+
+const NODE_COLORS: Record<NonNullable<GraphNode['state']>, string> = {
+  default: '#3abff8',
+  visited: '#4be784',
+  current: '#fbd437',
+  path: '#a273f2',
+  error: '#eb4747',
+};
+
+const EDGE_COLOR = '#4d7fb2';
+
+const nodeStyle = (node: GraphNode): Attributes => ({
+  fillcolor: NODE_COLORS[node.state ?? 'default'],
+  ...(node.isSourceSide ? { peripheries: '2', color: NODE_COLORS.path } : {}),
+});
+
+// Same precedence as the canvas: the traced path wins over the cut, which wins over the active edge.
+const edgeStyle = (edge: GraphEdge): Attributes => {
+  if (edge.isPath) return { color: NODE_COLORS.path, penwidth: '3' };
+  if (edge.isCut) return { color: NODE_COLORS.error, penwidth: '3' };
+  if (edge.isInMST || edge.inTree) return { color: NODE_COLORS.visited, penwidth: '3' };
+  if (edge.isError) return { color: NODE_COLORS.error, style: 'dashed' };
+  if (edge.isActive) return { color: NODE_COLORS.current, penwidth: '2' };
+  return {};
+};
+
+const quote = (value: string) => `"${value.replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+const formatName = (name: string) => (/^[A-Za-z_][\w]*$/.test(name) ? name : quote(name));
+const formatAttributes = (attributes: Attributes) => {
+  const entries = Object.entries(attributes);
+  return entries.length === 0 ? '' : ` [${entries.map(([name, value]) => `${formatName(name)}=${quote(value)}`).join(', ')}]`;
+};
+
+export const toDot = (graphData: GraphData, isDirected: boolean, name = 'G'): string => {
+  const positioned = graphData.nodes.filter(node => node.x !== undefined && node.y !== undefined);
+  const xs = positioned.map(node => node.x);
+  const ys = positioned.map(node => node.y);
+  const bounds = positioned.length > 0 ? [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)] : undefined;
+  const graphAttributes = { ...graphData.attributes, ...(bounds ? { bb: bounds.join(',') } : {}) };
+
+  const lines = [
+    `${isDirected ? 'digraph' : 'graph'} ${quote(name)} {`,
+    ...(Object.keys(graphAttributes).length > 0 ? [`  graph${formatAttributes(graphAttributes)};`] : []),
+    `  node${formatAttributes({ shape: 'circle', style: 'filled', fontname: 'Helvetica' })};`,
+    `  edge${formatAttributes({ color: EDGE_COLOR, fontname: 'Helvetica' })};`,
+  ];
+  for (const node of graphData.nodes) {
+    lines.push(`  ${quote(node.id)}${formatAttributes({
+      ...node.attributes,
+      label: node.label,
+      // "!" pins the position for neato and fdp.
+      ...(bounds && node.x !== undefined && node.y !== undefined ? { pos: `${node.x},${bounds[1] + bounds[3] - node.y}!` } : {}),
+      ...nodeStyle(node),
+    })};`);
+  }
+  for (const edge of graphData.edges) {
+    const label = edge.flow !== undefined ? `${Math.abs(edge.flow)}/${edge.weight ?? ''}` : edge.weight !== undefined ? String(edge.weight) : undefined;
+    lines.push(`  ${quote(edge.source)} ${isDirected ? '->' : '--'} ${quote(edge.target)}${formatAttributes({
+      ...edge.attributes,
+      ...(label !== undefined ? { label } : {}),
+      // Graphviz only accepts non-negative integer weights; other values survive in the label.
+      ...(edge.weight !== undefined && Number.isInteger(edge.weight) && edge.weight >= 0 ? { weight: String(edge.weight) } : {}),
+      ...edgeStyle(edge),
+    })};`);
+  }
+  lines.push('}', '');
+  return lines.join('\n');
+};
@@ -0,0 +1,19 @@
+// src/lib/download.ts
+// Browser file helpers shared by every save and export action.
+
+/** Offers `content` to the user as a file download. */
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick: some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Turns a user-facing name into something safe to use as a file name. */
+export const toFileName = (name: string, fallback = 'graph') =>
+  name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || fallback;
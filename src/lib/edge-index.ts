@@ -0,0 +1,72 @@
+// src/lib/edge-index.ts
+// Canonical lookup from endpoint pairs to concrete edges, so every edge update carries a real id.
+import { GraphEdge } from './graph-types';
+import { edgeWeight } from './graph-adjacency';
+
+const pairKey = (source: string, target: string) => `${source}\u0000${target}`;
+
+export class EdgeIndex {
+  private byId = new Map<string, GraphEdge>();
+  private byPair = new Map<string, GraphEdge[]>();
+
+  constructor(edges: GraphEdge[], isDirected: boolean) {
+    for (const edge of edges) {
+      this.byId.set(edge.id, edge);
+      this.add(pairKey(edge.source, edge.target), edge);
+      if (!isDirected && edge.source !== edge.target) {
+        this.add(pairKey(edge.target, edge.source), edge);
+      }
+    }
+  }
+
+  private add(key: string, edge: GraphEdge) {
+    if (!this.byPair.has(key)) this.byPair.set(key, []);
+    this.byPair.get(key)!.push(edge);
+  }
+
+  has(id: string): boolean {
+    return this.byId.has(id);
+  }
+
+  /** Every edge that can be traversed from `source` to `target`, parallel edges in insertion order. */
+  between(source: string, target: string): GraphEdge[] {
+    return this.byPair.get(pairKey(source, target)) || [];
+  }
+
+  /** The edge a traversal from `source` to `target` would take: the lightest, earliest on ties. */
+  resolve(source: string, target: string): GraphEdge | undefined {
+    return this.between(source, target).reduce<GraphEdge | undefined>(
+      (best, edge) => (!best || edgeWeight(edge) < edgeWeight(best) ? edge : best),
+      undefined
+    );
+  }
+}
+
+/**
+ * Gives every update an id: updates keyed by `{source, target}` are resolved through the index.
+ * Updates that match no edge are returned separately instead of being silently dropped.
+ */
+export const resolveEdgeUpdates = (
+  updates: Partial<GraphEdge>[],
+  index: EdgeIndex
+): { resolved: Partial<GraphEdge>[]; unresolved: Partial<GraphEdge>[] } => {
+  const resolved: Partial<GraphEdge>[] = [];
+  const unresolved: Partial<GraphEdge>[] = [];
+  for (const update of updates) {
+    if (update.id !== undefined) {
+      (index.has(update.id) ? resolved : unresolved).push(update);
+      continue;
+    }
+    const edge = update.source !== undefined && update.target !== undefined
+      ? index.resolve(update.source, update.target)
+      : undefined;
+    if (!edge) {
+      unresolved.push(update);
+      continue;
+    }
+    // Drop the traversal endpoints: on undirected edges they may be the reverse of the stored ones.
+    const { source: _source, target: _target, ...rest } = update;
+    resolved.push({ ...rest, id: edge.id });
+  }
+  return { resolved, unresolved };
+};
@@ -0,0 +1,190 @@
+// src/lib/edge-routes.ts
+// Where each edge is drawn. A lone edge is a straight line between node centres; edges sharing a
+// pair of nodes (antiparallel arcs, or parallel edges in a multigraph) bend apart symmetrically,
+// and self-loops become loops on the node's least crowded side. The scene draws these routes and
+// the editor hit-tests against them, so what is clicked is what is drawn.
+import { GraphData, GraphEdge, GraphNode } from './graph-types';
+
+type Point = { x: number; y: number };
+
+/** Gap between the midpoints of neighbouring curves in a bundle, wide enough for their weight boxes. */
+export const PARALLEL_SPACING = 48;
+const LOOP_SIZE = 55;
+const LOOP_GROWTH = 25;
+// Half the angle between a loop's two feet on the node rim, and between its two control points.
+const LOOP_FOOT_ANGLE = 0.45;
+const LOOP_CONTROL_ANGLE = 0.75;
+// Curves are hit-tested as this many straight segments.
+const CURVE_SAMPLES = 24;
+
+export interface EdgeRoute {
+  edge: GraphEdge;
+  kind: 'line' | 'curve' | 'loop';
+  /** A cubic Bézier: start, two control points, end. Lines have their controls on the chord. */
+  points: [Point, Point, Point, Point];
+  /** The middle of the route, where the weight box goes. */
+  label: Point;
+  /** How far the middle of a curve sits to the left of source → target; 0 for lines and loops. */
+  offset: number;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+/** The point at `t` along a cubic Bézier. */
+export const bezierPoint = ([p0, p1, p2, p3]: EdgeRoute['points'], t: number): Point => {
+  const u = 1 - t;
+  const [a, b, c, d] = [u * u * u, 3 * u * u * t, 3 * u * t * t, t * t * t];
+  return { x: a * p0.x + b * p1.x + c * p2.x + d * p3.x, y: a * p0.y + b * p1.y + c * p2.y + d * p3.y };
+};
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// A curve whose midpoint sits `offset` to the left of source → target. Built as a quadratic with its
+// control at twice the offset, raised to a cubic so every route has the same shape.
+const bentRoute = (edge: GraphEdge, source: GraphNode, target: GraphNode, offset: number): EdgeRoute => {
+  const length = Math.hypot(target.x - source.x, target.y - source.y) || 1;
+  const normal = { x: (target.y - source.y) / length, y: -(target.x - source.x) / length };
+  const control = { x: (source.x + target.x) / 2 + normal.x * offset * 2, y: (source.y + target.y) / 2 + normal.y * offset * 2 };
+  const [start, end] = [{ x: source.x, y: source.y }, { x: target.x, y: target.y }];
+  const points: EdgeRoute['points'] = [start, lerp(start, control, 2 / 3), lerp(end, control, 2 / 3), end];
+  return { edge, kind: offset === 0 ? 'line' : 'curve', points, label: bezierPoint(points, 0.5), offset };
+};
+
+// The middle of the widest gap between the node's other edges, or straight up for a node without any.
+const loopDirection = (node: GraphNode, neighbours: GraphNode[]): number => {
+  const angles = neighbours.map(other => Math.atan2(other.y - node.y, other.x - node.x)).sort((a, b) => a - b);
+  if (angles.length === 0) return -Math.PI / 2;
+  let best = { gap: -1, middle: 0 };
+  angles.forEach((angle, i) => {
+    const next = i + 1 < angles.length ? angles[i + 1] : angles[0] + 2 * Math.PI;
+    if (next - angle > best.gap + 1e-9) best = { gap: next - angle, middle: (angle + next) / 2 };
+  });
+  return best.middle;
+};
+
+const loopRoute = (edge: GraphEdge, node: GraphNode, direction: number, nesting: number, radius: number): EdgeRoute => {
+  const at = (angle: number, distance: number) => ({ x: node.x + Math.cos(angle) * distance, y: node.y + Math.sin(angle) * distance });
+  const reach = radius + LOOP_SIZE + nesting * LOOP_GROWTH;
+  const points: EdgeRoute['points'] = [
+    at(direction - LOOP_FOOT_ANGLE, radius),
+    at(direction - LOOP_CONTROL_ANGLE, reach * 1.4),
+    at(direction + LOOP_CONTROL_ANGLE, reach * 1.4),
+    at(direction + LOOP_FOOT_ANGLE, radius),
+  ];
+  return { edge, kind: 'loop', points, label: bezierPoint(points, 0.5), offset: 0 };
+};
+
+/**
+ * Routes for every edge whose endpoints exist, in edge order. `radius` is the node radius, which
+ * self-loops start and end on.
+ */
+export const routeEdges = (graphData: GraphData, radius: number): EdgeRoute[] => {
+  const nodesById = new Map(graphData.nodes.map(node => [node.id, node]));
+  const edges = graphData.edges.filter(edge => nodesById.has(edge.source) && nodesById.has(edge.target));
+
+  const bundles = new Map<string, GraphEdge[]>();
+  const neighbours = new Map<string, GraphNode[]>();
+  for (const edge of edges) {
+    const key = pairKey(edge.source, edge.target);
+    bundles.set(key, [...(bundles.get(key) ?? []), edge]);
+    if (edge.source === edge.target) continue;
+    neighbours.set(edge.source, [...(neighbours.get(edge.source) ?? []), nodesById.get(edge.target)]);
+    neighbours.set(edge.target, [...(neighbours.get(edge.target) ?? []), nodesById.get(edge.source)]);
+  }
+
+  return edges.map(edge => {
+    const bundle = bundles.get(pairKey(edge.source, edge.target));
+    const index = bundle.indexOf(edge);
+    const source = nodesById.get(edge.source);
+    if (edge.source === edge.target) {
+      return loopRoute(edge, source, loopDirection(source, neighbours.get(source.id) ?? []), index, radius);
+    }
+    // Offsets are measured from the pair in id order, so A → B and B → A bend to opposite sides.
+    const offset = (index - (bundle.length - 1) / 2) * PARALLEL_SPACING;
+    return bentRoute(edge, source, nodesById.get(edge.target), edge.source < edge.target ? offset : -offset);
+  });
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/** How far (x, y) is from the drawn route. */
+export const distanceToRoute = (route: EdgeRoute, x: number, y: number): number => {
+  const point = { x, y };
+  if (route.kind === 'line') return distanceToSegment(point, route.points[0], route.points[3]);
+  let closest = Infinity;
+  let previous = route.points[0];
+  for (let i = 1; i <= CURVE_SAMPLES; i++) {
+    const next = bezierPoint(route.points, i / CURVE_SAMPLES);
+    closest = Math.min(closest, distanceToSegment(point, previous, next));
+    previous = next;
+  }
+  return closest;
+};
+
+// Where a curve starting inside the circle around `centre` (at t = `inside`) crosses its rim on the
+// way to t = `outside`, found by bisection.
+const rimCrossing = (points: EdgeRoute['points'], centre: Point, radius: number, inside: number, outside: number): number => {
+  for (let i = 0; i < 20; i++) {
+    const middle = (inside + outside) / 2;
+    const p = bezierPoint(points, middle);
+    if (Math.hypot(p.x - centre.x, p.y - centre.y) < radius) inside = middle;
+    else outside = middle;
+  }
+  return outside;
+};
+
+/**
+ * Where an arrow drawn along the route touches the target's rim, and the direction it points.
+ * Loops already end on the rim; curves are followed back from the target's centre to its rim.
+ */
+export const arrowTip = (route: EdgeRoute, radius: number): { tip: Point; angle: number } => {
+  const [, , c2, end] = route.points;
+  if (route.kind === 'loop') return { tip: end, angle: Math.atan2(end.y - c2.y, end.x - c2.x) };
+  if (route.kind === 'line') {
+    const [start] = route.points;
+    const angle = Math.atan2(end.y - start.y, end.x - start.x);
+    return { tip: { x: end.x - Math.cos(angle) * radius, y: end.y - Math.sin(angle) * radius }, angle };
+  }
+  // The curve leaves the target circle exactly once.
+  const t = rimCrossing(route.points, end, radius, 1, 0.5);
+  const tip = bezierPoint(route.points, t);
+  const before = bezierPoint(route.points, t - 0.02);
+  return { tip, angle: Math.atan2(tip.y - before.y, tip.x - before.x) };
+};
+
+// The two cubics either side of `t`, by de Casteljau's construction.
+const splitBezier = ([p0, p1, p2, p3]: EdgeRoute['points'], t: number): [EdgeRoute['points'], EdgeRoute['points']] => {
+  const [a, b, c] = [lerp(p0, p1, t), lerp(p1, p2, t), lerp(p2, p3, t)];
+  const [d, e] = [lerp(a, b, t), lerp(b, c, t)];
+  const middle = lerp(d, e, t);
+  return [[p0, a, d, middle], [middle, e, c, p3]];
+};
+
+const leftNormal = (from: Point, to: Point): Point => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+  return { x: (to.y - from.y) / length, y: -(to.x - from.x) / length };
+};
+
+/**
+ * A line or curve route moved `distance` to the left of source → target (right when negative) and
+ * cut back to the two node rims, for drawing alongside the edge. Each end moves along its own normal
+ * and takes its control point with it: exact for lines, close for the gentle curves of a bundle.
+ */
+export const sideRoute = (route: EdgeRoute, distance: number, radius: number): EdgeRoute['points'] => {
+  const [p0, p1, p2, p3] = route.points;
+  const [n0, n3] = [leftNormal(p0, p1), leftNormal(p2, p3)];
+  const shift = (p: Point, n: Point) => ({ x: p.x + n.x * distance, y: p.y + n.y * distance });
+  const shifted: EdgeRoute['points'] = [shift(p0, n0), shift(p1, n0), shift(p2, n3), shift(p3, n3)];
+  const end = rimCrossing(shifted, p3, radius, 1, 0.5);
+  const start = rimCrossing(shifted, p0, radius, 0, 0.5);
+  // Overlapping nodes leave nothing between the rims to cut to.
+  if (start >= end) return shifted;
+  const [head] = splitBezier(shifted, end);
+  return splitBezier(head, start / end)[1];
+};
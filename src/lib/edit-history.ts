@@ -0,0 +1,47 @@
+// src/lib/edit-history.ts
+// Undo/redo stacks for the graph editor. A history holds snapshots of the document as it was
+// before each edit; the live document itself is kept by the caller.
+
+/** Older entries are dropped past this many, which bounds memory on long sessions. */
+export const EDIT_HISTORY_LIMIT = 100;
+/** Edits sharing a coalescing key within this many milliseconds of each other undo as one. */
+export const COALESCE_WINDOW = 1000;
+
+export interface EditHistory<T> {
+  past: T[];
+  future: T[];
+  /** Key and time of the latest recorded edit, for coalescing. */
+  lastKey?: string;
+  lastTime?: number;
+}
+
+export const emptyHistory = <T>(): EditHistory<T> => ({ past: [], future: [] });
+
+/**
+ * Records that an edit is about to replace `before`. Any redo entries are discarded. An edit with
+ * the same `key` as the previous one, soon after it, joins that entry instead of adding its own,
+ * so a burst of typing undoes in one go.
+ */
+export const recordEdit = <T>(history: EditHistory<T>, before: T, key?: string, now = Date.now()): EditHistory<T> => {
+  const continues = key !== undefined && key === history.lastKey && history.lastTime !== undefined && now - history.lastTime <= COALESCE_WINDOW;
+  const past = continues ? history.past : [...history.past, before].slice(-EDIT_HISTORY_LIMIT);
+  return { past, future: [], lastKey: key, lastTime: now };
+};
+
+/** Steps back one edit: the snapshot to show, and the history with `current` available to redo. Null when there is nothing to undo. */
+export const undoEdit = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; snapshot: T } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    snapshot: history.past[history.past.length - 1],
+  };
+};
+
+/** Re-applies the last undone edit. Null when there is nothing to redo. */
+export const redoEdit = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; snapshot: T } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    snapshot: history.future[0],
+  };
+};
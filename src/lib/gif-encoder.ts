@@ -0,0 +1,207 @@
+// src/lib/gif-encoder.ts
+// A small animated GIF89a encoder for rendered frames. Each frame gets its own 256-colour palette,
+// chosen from the frame's most frequent colours; graph scenes are mostly flat colour, so the
+// antialiased edge pixels are the only ones that need to snap to a neighbour.
+
+export interface IndexedFrame {
+  /** RGB triples, at most 256 colours. */
+  palette: number[];
+  /** One palette index per pixel. */
+  indices: Uint8Array;
+}
+
+const BUCKET_BITS = 5;
+const BUCKETS = 1 << (BUCKET_BITS * 3);
+const MAX_COLORS = 256;
+const MAX_CODE = 4095;
+
+const bucketOf = (r: number, g: number, b: number) =>
+  ((r >> (8 - BUCKET_BITS)) << (BUCKET_BITS * 2)) | ((g >> (8 - BUCKET_BITS)) << BUCKET_BITS) | (b >> (8 - BUCKET_BITS));
+
+/** Reduces RGBA pixels to at most 256 colours. Alpha is ignored; frames are rendered opaque. */
+export const quantizeFrame = (rgba: Uint8ClampedArray | Uint8Array): IndexedFrame => {
+  const pixelCount = rgba.length / 4;
+  const counts = new Uint32Array(BUCKETS);
+  const sums = new Float64Array(BUCKETS * 3);
+  const buckets = new Uint16Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) {
+    const r = rgba[p * 4], g = rgba[p * 4 + 1], b = rgba[p * 4 + 2];
+    const bucket = bucketOf(r, g, b);
+    buckets[p] = bucket;
+    counts[bucket]++;
+    sums[bucket * 3] += r;
+    sums[bucket * 3 + 1] += g;
+    sums[bucket * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  for (let bucket = 0; bucket < BUCKETS; bucket++) if (counts[bucket] > 0) used.push(bucket);
+  used.sort((a, b) => counts[b] - counts[a]);
+  const chosen = used.slice(0, MAX_COLORS);
+  const palette = chosen.flatMap(bucket => [0, 1, 2].map(c => Math.round(sums[bucket * 3 + c] / counts[bucket])));
+
+  // Every used bucket maps to its own colour or the nearest chosen one.
+  const lookup = new Int16Array(BUCKETS).fill(-1);
+  chosen.forEach((bucket, i) => { lookup[bucket] = i; });
+  for (const bucket of used.slice(MAX_COLORS)) {
+    const [r, g, b] = [0, 1, 2].map(c => sums[bucket * 3 + c] / counts[bucket]);
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < chosen.length; i++) {
+      const distance = (palette[i * 3] - r) ** 2 + (palette[i * 3 + 1] - g) ** 2 + (palette[i * 3 + 2] - b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    lookup[bucket] = best;
+  }
+
+  const indices = new Uint8Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) indices[p] = lookup[buckets[p]];
+  return { palette, indices };
+};
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) this.flush();
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  private flush() {
+    this.chunks.push(this.buffer.slice(0, this.length));
+    this.length = 0;
+  }
+
+  result(): Uint8Array {
+    this.flush();
+    const total = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+}
+
+/** Variable-width LZW as GIF uses it, packed into 255-byte sub-blocks. */
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode <= MAX_CODE) {
+      // The decoder widens codes one step behind the encoder's table, so compare before adding.
+      if (nextCode === 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    } else {
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0);
+};
+
+export interface GifEncoder {
+  /** Adds an RGBA frame shown for `delay` milliseconds (GIF stores hundredths of a second). */
+  addFrame(rgba: Uint8ClampedArray | Uint8Array, delay: number): void;
+  finish(): Uint8Array;
+}
+
+/** Starts an animated GIF that loops forever. */
+export const createGifEncoder = (width: number, height: number): GifEncoder => {
+  const out = new ByteWriter();
+  out.text('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.bytes([0, 0, 0]); // no global colour table; every frame carries its own
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.text('NETSCAPE2.0');
+  out.bytes([0x03, 0x01]);
+  out.word(0); // loop forever
+  out.byte(0);
+
+  return {
+    addFrame(rgba, delay) {
+      if (rgba.length !== width * height * 4) throw new Error(`Expected a ${width}×${height} frame`);
+      const { palette, indices } = quantizeFrame(rgba);
+      const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+      out.bytes([0x21, 0xf9, 0x04, 0x00]);
+      out.word(Math.round(delay / 10));
+      out.bytes([0, 0]);
+      out.byte(0x2c);
+      out.word(0);
+      out.word(0);
+      out.word(width);
+      out.word(height);
+      out.byte(0x80 | (tableBits - 1));
+      out.bytes(palette);
+      for (let i = palette.length; i < 3 * (1 << tableBits); i++) out.byte(0);
+      writeLzw(out, indices, Math.max(2, tableBits));
+    },
+    finish() {
+      out.byte(0x3b);
+      return out.result();
+    },
+  };
+};
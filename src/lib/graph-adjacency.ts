@@ -0,0 +1,61 @@
+// src/lib/graph-adjacency.ts
+// Direction-aware adjacency shared by every algorithm in AlgorithmRunner.
+import { GraphData, GraphEdge } from './graph-types';
+
+/** One traversable direction of an edge. Undirected edges yield two arcs. */
+export interface Arc {
+  edge: GraphEdge;
+  from: string;
+  to: string;
+  weight: number;
+}
+
+/** Unweighted edges count as 1; zero and negative weights are kept as they are. */
+export const edgeWeight = (edge: GraphEdge): number => edge.weight ?? 1;
+
+export class GraphAdjacency {
+  readonly isDirected: boolean;
+  private graphData: GraphData;
+  private outgoing = new Map<string, Arc[]>();
+  private allArcs: Arc[] = [];
+
+  constructor(graphData: GraphData, isDirected: boolean) {
+    this.graphData = graphData;
+    this.isDirected = isDirected;
+    graphData.nodes.forEach(node => this.outgoing.set(node.id, []));
+    for (const edge of graphData.edges) {
+      this.addArc({ edge, from: edge.source, to: edge.target, weight: edgeWeight(edge) });
+      if (!isDirected && edge.source !== edge.target) {
+        this.addArc({ edge, from: edge.target, to: edge.source, weight: edgeWeight(edge) });
+      }
+    }
+  }
+
+  private addArc(arc: Arc) {
+    if (!this.outgoing.has(arc.from)) this.outgoing.set(arc.from, []);
+    this.outgoing.get(arc.from)!.push(arc);
+    this.allArcs.push(arc);
+  }
+
+  /** Arcs leaving `nodeId`, in edge insertion order. */
+  outArcs(nodeId: string): Arc[] {
+    return this.outgoing.get(nodeId) || [];
+  }
+
+  /** Distinct nodes reachable from `nodeId` in one hop. */
+  neighbors(nodeId: string): string[] {
+    return this.outArcs(nodeId)
+      .map(arc => arc.to)
+      .filter((id, i, arr) => arr.indexOf(id) === i);
+  }
+
+  /** Every traversable arc in the graph. */
+  arcs(): Arc[] {
+    return this.allArcs;
+  }
+
+  /** The same graph with edge direction ignored, for algorithms such as MST that are defined on undirected graphs. */
+  asUndirected(): GraphAdjacency {
+    return this.isDirected ? new GraphAdjacency(this.graphData, false) : this;
+  }
+}
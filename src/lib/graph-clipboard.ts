@@ -0,0 +1,74 @@
+// src/lib/graph-clipboard.ts
+// Copy and paste of subgraphs. The clipboard holds a project document with just the copied nodes
+// and the edges among them, so a selection pastes into another tab and a saved project pastes too.
+import { GraphData } from './graph-types';
+import { nextNodeLabel } from './graph-edit';
+import { moveNodes } from './graph-layout';
+import { NODE_RADIUS } from './graph-scene';
+import { ProjectFileError, parseProject, serializeProject } from './project-file';
+
+/** How far each paste of the same copy lands from the previous one. */
+export const PASTE_OFFSET = 40;
+
+/** The nodes in `ids` and the edges with both ends among them. */
+export const extractSubgraph = (graphData: GraphData, ids: ReadonlySet<string>): GraphData => ({
+  nodes: graphData.nodes.filter(node => ids.has(node.id)),
+  edges: graphData.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target)),
+});
+
+export const toClipboardText = (subgraph: GraphData, isDirected: boolean): string =>
+  serializeProject({ name: 'Copied nodes', graphData: subgraph, isDirected, algorithm: 'bfs', params: {}, speed: 50 });
+
+/** The graph in clipboard text. Throws ProjectFileError for anything that is not a project document. */
+export const parseClipboardText = (text: string): GraphData => parseProject(text).graphData;
+
+/**
+ * The graph in the first of `texts` that holds copied nodes, or null when none does. Empty texts
+ * are skipped, so a refused or empty system clipboard falls through to the next source.
+ */
+export const firstClipboardGraph = (texts: (string | undefined)[]): GraphData | null => {
+  for (const text of texts) {
+    if (!text) continue;
+    try {
+      return parseClipboardText(text);
+    } catch (error) {
+      if (!(error instanceof ProjectFileError)) throw error;
+    }
+  }
+  return null;
+};
+
+/**
+ * Adds a copy of `clip` to the graph, moved by (dx, dy) but kept on the page. Pasted nodes and edges
+ * get fresh ids; labels are kept where they are still free and replaced otherwise.
+ */
+export const pasteSubgraph = (graphData: GraphData, clip: GraphData, dx: number, dy: number): { graphData: GraphData; pastedIds: string[] } => {
+  const stamp = Date.now();
+  const usedIds = new Set([...graphData.nodes, ...graphData.edges].map(item => item.id));
+  const freshId = (prefix: string, i: number) => {
+    let id = `${prefix}-${stamp}-${i}`;
+    for (let n = 1; usedIds.has(id); n++) id = `${prefix}-${stamp}-${i}-${n}`;
+    usedIds.add(id);
+    return id;
+  };
+
+  const idMap = new Map<string, string>();
+  let labelled: GraphData = graphData;
+  const copies = clip.nodes.map((node, i) => {
+    const id = freshId('node', i);
+    idMap.set(node.id, id);
+    const taken = labelled.nodes.some(other => other.label === node.label);
+    const copy = { ...node, id, label: taken ? nextNodeLabel(labelled) : node.label, state: 'default' as const };
+    labelled = { ...labelled, nodes: [...labelled.nodes, copy] };
+    return copy;
+  });
+  const edges = clip.edges
+    .filter(edge => idMap.has(edge.source) && idMap.has(edge.target))
+    .map((edge, i) => ({ ...edge, id: freshId('edge', i), source: idMap.get(edge.source), target: idMap.get(edge.target), isActive: false }));
+  const nodes = moveNodes(copies, new Set(idMap.values()), dx, dy, NODE_RADIUS);
+
+  return {
+    graphData: { ...graphData, nodes: [...graphData.nodes, ...nodes], edges: [...graphData.edges, ...edges] },
+    pastedIds: nodes.map(node => node.id),
+  };
+};
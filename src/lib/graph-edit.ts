@@ -0,0 +1,138 @@
+// src/lib/graph-edit.ts
+// Editing operations behind the canvas tools and context menu. All of them return a new GraphData.
+import { GraphData, GraphEdge, GraphNode } from './graph-types';
+import { distanceToRoute, routeEdges } from './edge-routes';
+import { NODE_RADIUS } from './graph-scene';
+
+/** How far from a drawn edge, in canvas pixels, a click still hits it. */
+export const EDGE_HIT_TOLERANCE = 6;
+
+/** The edge whose drawn route passes closest to (x, y), if any is within `tolerance`. */
+export const findEdgeAt = (graphData: GraphData, x: number, y: number, tolerance = EDGE_HIT_TOLERANCE): GraphEdge | null => {
+  let closest: GraphEdge | null = null;
+  let closestDistance = tolerance;
+  for (const route of routeEdges(graphData, NODE_RADIUS)) {
+    const distance = distanceToRoute(route, x, y);
+    if (distance <= closestDistance) {
+      closest = route.edge;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+};
+
+/** Whether an edge source → target exists; in undirected graphs either direction counts. */
+export const hasEdge = (graphData: GraphData, source: string, target: string, isDirected: boolean, ignoreId?: string): boolean =>
+  graphData.edges.some(edge =>
+    edge.id !== ignoreId &&
+    ((edge.source === source && edge.target === target) || (!isDirected && edge.source === target && edge.target === source))
+  );
+
+/** Whether the graph has self-loops or parallel edges, which only a multigraph allows. */
+export const needsMultigraph = (graphData: GraphData, isDirected: boolean): boolean => {
+  const seen = new Set<string>();
+  return graphData.edges.some(edge => {
+    if (edge.source === edge.target) return true;
+    const key = isDirected || edge.source < edge.target ? `${edge.source}\u0000${edge.target}` : `${edge.target}\u0000${edge.source}`;
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+};
+
+/** Removes the nodes and every edge touching them. */
+export const deleteNodes = (graphData: GraphData, ids: ReadonlySet<string>): GraphData => ({
+  ...graphData,
+  nodes: graphData.nodes.filter(node => !ids.has(node.id)),
+  edges: graphData.edges.filter(edge => !ids.has(edge.source) && !ids.has(edge.target)),
+});
+
+export const deleteEdges = (graphData: GraphData, ids: ReadonlySet<string>): GraphData => ({
+  ...graphData,
+  edges: graphData.edges.filter(edge => !ids.has(edge.id)),
+});
+
+/**
+ * Why `label` cannot name node `id`, or null when it can. Labels must be unique because the text
+ * editor and the importers match nodes by label.
+ */
+export const checkNodeLabel = (graphData: GraphData, id: string, label: string): string | null => {
+  const trimmed = label.trim();
+  if (!trimmed) return 'A node needs a label.';
+  if (graphData.nodes.some(node => node.id !== id && node.label === trimmed)) return `Another node is already called "${trimmed}".`;
+  return null;
+};
+
+export const renameNode = (graphData: GraphData, id: string, label: string): GraphData => ({
+  ...graphData,
+  nodes: graphData.nodes.map(node => (node.id === id ? { ...node, label: label.trim() } : node)),
+});
+
+/** Swaps an edge's endpoints, keeping its id and weight. */
+export const reverseEdge = (graphData: GraphData, id: string): GraphData => ({
+  ...graphData,
+  edges: graphData.edges.map(edge => (edge.id === id ? { ...edge, source: edge.target, target: edge.source } : edge)),
+});
+
+/** The first of A–Z, then A1–Z1 and so on, that no node uses yet; deleting nodes frees their labels. */
+export const nextNodeLabel = (graphData: GraphData): string => {
+  const used = new Set(graphData.nodes.map(node => node.label));
+  for (let round = 0; ; round++) {
+    for (let letter = 0; letter < 26; letter++) {
+      const label = `${String.fromCharCode(65 + letter)}${round === 0 ? '' : round}`;
+      if (!used.has(label)) return label;
+    }
+  }
+};
+
+/** Ids of the nodes whose centres lie in the rectangle spanned by two opposite corners, as drawn by a marquee. */
+export const nodesInRect = (graphData: GraphData, corner: { x: number; y: number }, opposite: { x: number; y: number }): string[] => {
+  const [left, right] = [Math.min(corner.x, opposite.x), Math.max(corner.x, opposite.x)];
+  const [top, bottom] = [Math.min(corner.y, opposite.y), Math.max(corner.y, opposite.y)];
+  return graphData.nodes.filter(node => node.x >= left && node.x <= right && node.y >= top && node.y <= bottom).map(node => node.id);
+};
+
+/** The words that clear an edge's weight in the weight box, besides leaving it blank. */
+const UNWEIGHTED_WORDS = ['none', 'unweighted', 'x'];
+
+/**
+ * Reads the weight box: a finite number, negative and fractional ones included, or `undefined` for
+ * an unweighted edge. Returns an error message for anything else.
+ */
+export const parseWeightInput = (text: string): { weight: number | undefined } | { error: string } => {
+  const trimmed = text.trim();
+  if (trimmed === '' || UNWEIGHTED_WORDS.includes(trimmed.toLowerCase())) return { weight: undefined };
+  const weight = Number(trimmed);
+  return Number.isFinite(weight) ? { weight } : { error: `"${trimmed}" is not a number. Leave the box blank for an unweighted edge.` };
+};
+
+/** Sets an edge's weight, or drops it so the edge is unweighted. */
+export const setEdgeWeight = (graphData: GraphData, id: string, weight: number | undefined): GraphData => ({
+  ...graphData,
+  edges: graphData.edges.map(edge => {
+    if (edge.id !== id) return edge;
+    const { weight: _previous, ...rest } = edge;
+    return weight === undefined ? rest : { ...rest, weight };
+  }),
+});
+
+/** How the edge tool weighs the edges it draws. */
+export type WeightPolicy = 'random' | 'unit' | 'euclidean';
+
+export const weightPolicyLabels: Record<WeightPolicy, string> = {
+  random: 'Random (1–10)',
+  unit: 'All 1',
+  euclidean: 'Euclidean distance',
+};
+
+/** The weight for a new edge between two nodes; Euclidean weights are the rounded distance in canvas pixels. */
+export const newEdgeWeight = (policy: WeightPolicy, source: GraphNode, target: GraphNode, random: () => number = Math.random): number => {
+  switch (policy) {
+    case 'unit':
+      return 1;
+    case 'euclidean':
+      return Math.round(Math.hypot(source.x - target.x, source.y - target.y));
+    default:
+      return Math.floor(random() * 10) + 1;
+  }
+};
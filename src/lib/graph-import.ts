@@ -0,0 +1,18 @@
+// src/lib/graph-import.ts
+// Shared result and error types for the graph file formats (GraphML, DOT, ...).
+import { GraphData } from './graph-types';
+
+/** The file could not be read at all; recoverable problems are reported as warnings instead. */
+export class GraphImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphImportError';
+  }
+}
+
+export interface ImportedGraph {
+  graphData: GraphData;
+  isDirected: boolean;
+  /** Constructs that were skipped or approximated, one readable line each. */
+  warnings: string[];
+}
@@ -0,0 +1,91 @@
+// src/lib/graph-layout.ts
+// Node placement for graphs that arrive without positions (templates, imported files).
+import { GraphEdge, GraphNode } from './graph-types';
+
+export const CANVAS_SIZE = { width: 1200, height: 800 };
+export const CANVAS_CENTER = { x: CANVAS_SIZE.width / 2, y: CANVAS_SIZE.height / 2 };
+const DEFAULT_RADIUS = 250;
+
+/** Places every node without a position on a circle around the canvas centre, keeping existing positions. */
+export const withCircularLayout = <T extends GraphNode>(
+  nodes: T[],
+  center = CANVAS_CENTER,
+  radius = DEFAULT_RADIUS
+): T[] =>
+  nodes.map((node, i) =>
+    node.x !== undefined && node.y !== undefined
+      ? node
+      : {
+          ...node,
+          x: center.x + radius * Math.cos((2 * Math.PI * i) / nodes.length),
+          y: center.y + radius * Math.sin((2 * Math.PI * i) / nodes.length),
+        }
+  );
+
+const NEIGHBOR_DISTANCE = 120;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+const CANVAS_MARGIN = 40;
+
+/**
+ * Places nodes without a position beside an already placed neighbour, fanning out around it, and
+ * falls back to the circle for nodes with no placed neighbour. Existing positions are kept.
+ */
+export const placeNewNodes = <T extends GraphNode>(
+  nodes: T[],
+  edges: GraphEdge[],
+  center = CANVAS_CENTER,
+  radius = DEFAULT_RADIUS
+): T[] => {
+  const placed = new Map(nodes.filter(n => n.x !== undefined && n.y !== undefined).map(n => [n.id, { x: n.x, y: n.y }]));
+  const fanned = new Map<string, number>();
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, CANVAS_MARGIN), max - CANVAS_MARGIN);
+
+  return nodes.map((node, i) => {
+    if (placed.has(node.id)) return node;
+    const neighbor = edges
+      .filter(e => e.source === node.id || e.target === node.id)
+      .map(e => (e.source === node.id ? e.target : e.source))
+      .find(id => placed.has(id));
+    let position: { x: number; y: number };
+    if (neighbor) {
+      const k = fanned.get(neighbor) ?? 0;
+      fanned.set(neighbor, k + 1);
+      const anchor = placed.get(neighbor);
+      position = {
+        x: clamp(anchor.x + NEIGHBOR_DISTANCE * Math.cos(k * GOLDEN_ANGLE), CANVAS_SIZE.width),
+        y: clamp(anchor.y + NEIGHBOR_DISTANCE * Math.sin(k * GOLDEN_ANGLE), CANVAS_SIZE.height),
+      };
+    } else {
+      position = {
+        x: center.x + radius * Math.cos((2 * Math.PI * i) / nodes.length),
+        y: center.y + radius * Math.sin((2 * Math.PI * i) / nodes.length),
+      };
+    }
+    placed.set(node.id, position);
+    return { ...node, ...position };
+  });
+};
+
+// Shortens a move along one axis so the span [low, high] does not go past [margin, size - margin],
+// or further past it than it already is. A span wider than the page has nothing to fit into and
+// moves freely.
+const clampMove = (delta: number, low: number, high: number, size: number, margin: number): number => {
+  if (high - low > size - 2 * margin) return delta;
+  return Math.min(Math.max(delta, Math.min(0, margin - low)), Math.max(0, size - margin - high));
+};
+
+/**
+ * Moves the nodes in `ids` by (dx, dy) as a group. The move is shortened, not split, when it would
+ * push any of them closer than `margin` to the canvas edge, so the group keeps its shape. Nodes
+ * already past the edge (imported, or added while zoomed out) are never pulled onto the page; only
+ * moving them further out is stopped.
+ */
+export const moveNodes = <T extends GraphNode>(nodes: T[], ids: ReadonlySet<string>, dx: number, dy: number, margin = 0): T[] => {
+  const moving = nodes.filter(node => ids.has(node.id));
+  if (moving.length === 0) return nodes;
+  const xs = moving.map(node => node.x);
+  const ys = moving.map(node => node.y);
+  const clampedDx = clampMove(dx, Math.min(...xs), Math.max(...xs), CANVAS_SIZE.width, margin);
+  const clampedDy = clampMove(dy, Math.min(...ys), Math.max(...ys), CANVAS_SIZE.height, margin);
+  return nodes.map(node => (ids.has(node.id) ? { ...node, x: node.x + clampedDx, y: node.y + clampedDy } : node));
+};
@@ -0,0 +1,172 @@
+// src/lib/graph-library.ts
+// A named library of saved graphs plus the autosaved working session, persisted in IndexedDB.
+// Entries store the serialized project document, so opening one goes through the same
+// validation and migrations as opening a file.
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  tags: string[];
+  /** A serialized project document, see project-file.ts. */
+  project: string;
+  /** PNG data URL rendered from the canvas when the entry was saved. */
+  thumbnail?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SessionRecord {
+  project: string;
+  savedAt: number;
+}
+
+/** The persistence the library needs; IndexedDB in the browser, memory where it is unavailable. */
+export interface LibraryStore {
+  getAll(): Promise<LibraryEntry[]>;
+  get(id: string): Promise<LibraryEntry | undefined>;
+  put(entry: LibraryEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+  getSession(): Promise<SessionRecord | undefined>;
+  putSession(session: SessionRecord): Promise<void>;
+  /** Whether saved entries outlive the page; false once the store has fallen back to memory. */
+  isPersistent(): Promise<boolean>;
+}
+
+const DB_NAME = 'vision-graph-lab';
+const DB_VERSION = 1;
+const ENTRIES = 'library';
+const SESSION = 'session';
+const SESSION_KEY = 'last';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/**
+ * IndexedDB storage. When the database cannot be opened at all (refused in private mode, a broken
+ * profile), the store keeps working from `fallback` for the rest of the page and reports itself as
+ * not persistent, so the user can be told.
+ */
+export const createIndexedDbStore = (factory: IDBFactory = indexedDB, fallback: LibraryStore = createMemoryStore()): LibraryStore => {
+  let db: Promise<IDBDatabase | null> | null = null;
+  const open = () => {
+    if (!db) {
+      db = new Promise<IDBDatabase>((resolve, reject) => {
+        const req = factory.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(ENTRIES, { keyPath: 'id' });
+          req.result.createObjectStore(SESSION);
+        };
+        // Blocked means another tab still holds an older version open; the request succeeds once it
+        // closes, so keep waiting rather than giving up on the database.
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      }).catch(() => null);
+    }
+    return db;
+  };
+  const using = async <T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest, offline: (store: LibraryStore) => Promise<T>): Promise<T> => {
+    const database = await open();
+    return database ? request(run(database.transaction(name, mode).objectStore(name))) : offline(fallback);
+  };
+
+  return {
+    getAll: () => using(ENTRIES, 'readonly', store => store.getAll(), store => store.getAll()),
+    get: id => using(ENTRIES, 'readonly', store => store.get(id), store => store.get(id)),
+    put: async entry => { await using(ENTRIES, 'readwrite', store => store.put(entry), store => store.put(entry)); },
+    delete: async id => { await using(ENTRIES, 'readwrite', store => store.delete(id), store => store.delete(id)); },
+    getSession: () => using(SESSION, 'readonly', store => store.get(SESSION_KEY), store => store.getSession()),
+    putSession: async session => { await using(SESSION, 'readwrite', store => store.put(session, SESSION_KEY), store => store.putSession(session)); },
+    isPersistent: async () => (await open()) !== null,
+  };
+};
+
+export const createMemoryStore = (): LibraryStore => {
+  const entries = new Map<string, LibraryEntry>();
+  let session: SessionRecord | undefined;
+  return {
+    getAll: async () => [...entries.values()].map(entry => ({ ...entry })),
+    get: async id => (entries.has(id) ? { ...entries.get(id)! } : undefined),
+    put: async entry => { entries.set(entry.id, { ...entry }); },
+    delete: async id => { entries.delete(id); },
+    getSession: async () => session,
+    putSession: async record => { session = record; },
+    isPersistent: async () => false,
+  };
+};
+
+/** Splits free-form tag input ("bfs, week 3 ,trees") into distinct, trimmed tags. */
+export const parseTags = (input: string): string[] =>
+  input.split(',').map(tag => tag.trim()).filter((tag, i, all) => tag && all.indexOf(tag) === i);
+
+/** Entries whose name or tags contain every word of `query`, case-insensitively. */
+export const searchEntries = (entries: LibraryEntry[], query: string): LibraryEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter(entry => {
+    const haystack = [entry.name, ...entry.tags].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export class GraphLibrary {
+  private store: LibraryStore;
+  private now: () => number;
+
+  constructor(store: LibraryStore, now: () => number = Date.now) {
+    this.store = store;
+    this.now = now;
+  }
+
+  /** Entries whose name or tags contain every word of `query`, most recently changed first. */
+  async list(query = ''): Promise<LibraryEntry[]> {
+    const entries = await this.store.getAll();
+    return searchEntries(entries, query).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async save(fields: Pick<LibraryEntry, 'name' | 'tags' | 'project' | 'thumbnail'>): Promise<LibraryEntry> {
+    const time = this.now();
+    const entry: LibraryEntry = { id: crypto.randomUUID(), ...fields, createdAt: time, updatedAt: time };
+    await this.store.put(entry);
+    return entry;
+  }
+
+  async update(id: string, changes: Partial<Pick<LibraryEntry, 'name' | 'tags' | 'project' | 'thumbnail'>>): Promise<LibraryEntry> {
+    const entry = await this.store.get(id);
+    if (!entry) throw new Error(`No library entry ${id}`);
+    const updated = { ...entry, ...changes, updatedAt: this.now() };
+    await this.store.put(updated);
+    return updated;
+  }
+
+  rename(id: string, name: string): Promise<LibraryEntry> {
+    return this.update(id, { name });
+  }
+
+  setTags(id: string, tags: string[]): Promise<LibraryEntry> {
+    return this.update(id, { tags });
+  }
+
+  async duplicate(id: string): Promise<LibraryEntry> {
+    const entry = await this.store.get(id);
+    if (!entry) throw new Error(`No library entry ${id}`);
+    return this.save({ name: `${entry.name} (copy)`, tags: [...entry.tags], project: entry.project, thumbnail: entry.thumbnail });
+  }
+
+  remove(id: string): Promise<void> {
+    return this.store.delete(id);
+  }
+
+  saveSession(project: string): Promise<void> {
+    return this.store.putSession({ project, savedAt: this.now() });
+  }
+
+  loadSession(): Promise<SessionRecord | undefined> {
+    return this.store.getSession();
+  }
+
+  isPersistent(): Promise<boolean> {
+    return this.store.isPersistent();
+  }
+}
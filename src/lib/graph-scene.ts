@@ -0,0 +1,303 @@
+// src/lib/graph-scene.ts
+// The picture of a graph as a flat list of shapes, independent of how it is drawn. The canvas,
+// the SVG/PNG exporters and the animation recorder all render the same scene, so they always agree.
+import { GraphData, GraphEdge, GraphNode } from './graph-types';
+import { EdgeRoute, arrowTip, bezierPoint, routeEdges, sideRoute } from './edge-routes';
+import { PAGE_RECT, Rect, graphBounds, unionRect } from './viewport';
+
+export const NODE_RADIUS = 25;
+const GRID_SIZE = 40;
+// Room left past a node or loop that pokes out of the page, for rings, weight boxes and residual arcs.
+const SCENE_PADDING = 30;
+// Labels are monospace, so their width is known without measuring: about 0.6em per character.
+const MONOSPACE_ADVANCE = 0.6;
+
+export const SCENE_COLORS = {
+  background: 'hsl(222 84% 4%)',
+  grid: 'hsl(217 32% 12%)',
+  ink: 'hsl(222 84% 5%)',
+  node: 'hsl(198 93% 60%)',
+  visited: 'hsl(142 76% 60%)',
+  current: 'hsl(48 96% 60%)',
+  error: 'hsl(0 80% 60%)',
+  path: 'hsl(262 83% 70%)',
+  sourceSide: 'hsl(262 83% 70% / 0.3)',
+  edge: 'hsl(210 40% 50%)',
+  label: 'hsl(210 40% 98%)',
+  labelBorder: 'hsl(217 32% 17%)',
+  selection: 'hsl(251 91% 70%)',
+  hover: 'hsl(251 91% 60%)',
+  residualForward: 'hsl(142 76% 60%)',
+  residualBackward: 'hsl(25 95% 60%)',
+  caption: 'hsl(222 47% 11%)',
+  captionText: 'hsl(210 40% 98%)',
+  captionMuted: 'hsl(215 20% 65%)',
+};
+
+export interface SceneFont {
+  size: number;
+  family: 'monospace' | 'sans-serif';
+  bold?: boolean;
+}
+
+export type SceneShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; lineWidth?: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; lineWidth: number; dash?: number[] }
+  /** A cubic Bézier through four points: start, two controls, end. */
+  | { kind: 'curve'; points: [number, number][]; stroke: string; lineWidth: number; dash?: number[] }
+  | { kind: 'polygon'; points: [number, number][]; fill: string }
+  | { kind: 'circle'; cx: number; cy: number; r: number; fill?: string; stroke?: string; lineWidth?: number }
+  | { kind: 'text'; x: number; y: number; text: string; fill: string; font: SceneFont; align?: 'left' | 'center' };
+
+export interface Scene {
+  width: number;
+  height: number;
+  /** The world point at the scene's top-left: (0, 0) unless the graph reaches past the page. */
+  origin: { x: number; y: number };
+  shapes: SceneShape[];
+}
+
+export interface SceneOptions {
+  isDirected: boolean;
+  showGrid?: boolean;
+  /** Residual capacities next to each edge, once edges carry a max-flow value. */
+  showResidual?: boolean;
+  /** Editor highlights; exports leave these out. */
+  selectedNodes?: string[];
+  selectedEdge?: string | null;
+  hoveredNode?: string | null;
+  editingEdge?: string | null;
+}
+
+export const nodeFillColor = (node: GraphNode): string => {
+  switch (node.state) {
+    case 'visited': return SCENE_COLORS.visited;
+    case 'current': return SCENE_COLORS.current;
+    case 'error': return SCENE_COLORS.error;
+    case 'path': return SCENE_COLORS.path;
+    default: return SCENE_COLORS.node;
+  }
+};
+
+export const edgeStrokeColor = (edge: GraphEdge): string =>
+  edge.isPath ? SCENE_COLORS.path : edge.isCut ? SCENE_COLORS.error : edge.isActive ? SCENE_COLORS.current : SCENE_COLORS.edge;
+
+const edgeLineWidth = (edge: GraphEdge) => (edge.isPath || edge.isCut ? 4 : edge.isActive ? 3 : 2);
+
+/** The weight box text: the weight, or flow/capacity during max flow. */
+export const edgeLabel = (edge: GraphEdge): string | undefined =>
+  edge.flow !== undefined ? `${Math.abs(edge.flow)}/${edge.weight ?? 1}` : edge.weight !== undefined ? String(edge.weight) : undefined;
+
+export const textWidth = (text: string, font: SceneFont) => text.length * font.size * MONOSPACE_ADVANCE;
+
+const weightFont = (bold: boolean): SceneFont => ({ size: 12, family: 'monospace', bold });
+
+/** The weight box drawn around `text`, centred on the route's label point; the editor hit-tests the same box. */
+export const weightBoxSize = (text: string, bold = false) => ({ width: Math.max(30, textWidth(text, weightFont(bold)) + 10), height: 20 });
+
+const arrowHead = (route: EdgeRoute, color: string): SceneShape => {
+  const arrowLength = 18;
+  const arrowWidth = 7;
+  // The tip sits on the target's rim rather than its centre.
+  const { tip: { x: tipX, y: tipY }, angle } = arrowTip(route, NODE_RADIUS);
+  return {
+    kind: 'polygon',
+    points: [
+      [tipX, tipY],
+      [tipX - arrowLength * Math.cos(angle) + arrowWidth * Math.sin(angle), tipY - arrowLength * Math.sin(angle) - arrowWidth * Math.cos(angle)],
+      [tipX - arrowLength * Math.cos(angle) - arrowWidth * Math.sin(angle), tipY - arrowLength * Math.sin(angle) + arrowWidth * Math.cos(angle)],
+    ],
+    fill: color,
+  };
+};
+
+const routeShape = (route: EdgeRoute, stroke: string, lineWidth: number): SceneShape => {
+  const [start, , , end] = route.points;
+  return route.kind === 'line'
+    ? { kind: 'line', x1: start.x, y1: start.y, x2: end.x, y2: end.y, stroke, lineWidth }
+    : { kind: 'curve', points: route.points.map(p => [p.x, p.y]), stroke, lineWidth };
+};
+
+// How far residual arcs run beside their edge, and how much further out their amounts sit.
+const RESIDUAL_GAP = 10;
+const RESIDUAL_LABEL_GAP = 6;
+
+// A dashed arrow beside the edge's drawn route, on the right-hand side of the way it points, so both
+// directions stay readable. `forward` runs source → target, otherwise target → source.
+const residualArc = (route: EdgeRoute, forward: boolean, amount: number, color: string): SceneShape[] => {
+  const side = sideRoute(route, forward ? -RESIDUAL_GAP : RESIDUAL_GAP, NODE_RADIUS);
+  const [start, c1, c2, end] = forward ? side : [...side].reverse();
+  const dash = [6, 4];
+  const angle = Math.atan2(end.y - c2.y, end.x - c2.x);
+  const chord = Math.atan2(end.y - start.y, end.x - start.x);
+  const middle = bezierPoint([start, c1, c2, end], 0.5);
+  return [
+    route.kind === 'line'
+      ? { kind: 'line', x1: start.x, y1: start.y, x2: end.x, y2: end.y, stroke: color, lineWidth: 1.5, dash }
+      : { kind: 'curve', points: [start, c1, c2, end].map(p => [p.x, p.y]), stroke: color, lineWidth: 1.5, dash },
+    {
+      kind: 'polygon',
+      points: [
+        [end.x, end.y],
+        [end.x - 10 * Math.cos(angle - 0.4), end.y - 10 * Math.sin(angle - 0.4)],
+        [end.x - 10 * Math.cos(angle + 0.4), end.y - 10 * Math.sin(angle + 0.4)],
+      ],
+      fill: color,
+    },
+    {
+      kind: 'text',
+      x: middle.x - Math.sin(chord) * RESIDUAL_LABEL_GAP,
+      y: middle.y + Math.cos(chord) * RESIDUAL_LABEL_GAP + 4,
+      text: String(amount),
+      fill: color,
+      font: { size: 11, family: 'monospace' },
+    },
+  ];
+};
+
+// The page, grown on each side where a node circle or an edge route pokes out of it (curves stay
+// inside their control points). Step highlights and flow labels do not change it, so every frame of
+// an animation comes out the same size.
+const sceneRect = (nodes: GraphNode[], routes: EdgeRoute[]): Rect => {
+  const bounds = graphBounds(nodes, NODE_RADIUS);
+  if (!bounds) return PAGE_RECT;
+  const { x, y, width, height } = routes
+    .flatMap(route => route.points)
+    .reduce<Rect>((rect, p) => unionRect(rect, { x: p.x, y: p.y, width: 0, height: 0 }), bounds);
+  const [right, bottom] = [x + width, y + height];
+  const left = x < PAGE_RECT.x ? x - SCENE_PADDING : PAGE_RECT.x;
+  const top = y < PAGE_RECT.y ? y - SCENE_PADDING : PAGE_RECT.y;
+  const pageRight = PAGE_RECT.x + PAGE_RECT.width;
+  const pageBottom = PAGE_RECT.y + PAGE_RECT.height;
+  return {
+    x: left,
+    y: top,
+    width: (right > pageRight ? right + SCENE_PADDING : pageRight) - left,
+    height: (bottom > pageBottom ? bottom + SCENE_PADDING : pageBottom) - top,
+  };
+};
+
+const translateShape = (shape: SceneShape, dx: number, dy: number): SceneShape => {
+  if (dx === 0 && dy === 0) return shape;
+  switch (shape.kind) {
+    case 'rect':
+    case 'text':
+      return { ...shape, x: shape.x + dx, y: shape.y + dy };
+    case 'line':
+      return { ...shape, x1: shape.x1 + dx, y1: shape.y1 + dy, x2: shape.x2 + dx, y2: shape.y2 + dy };
+    case 'curve':
+    case 'polygon':
+      return { ...shape, points: shape.points.map(([x, y]) => [x + dx, y + dy]) };
+    case 'circle':
+      return { ...shape, cx: shape.cx + dx, cy: shape.cy + dy };
+  }
+};
+
+/**
+ * Everything drawn for the graph. The scene covers the page, or more when nodes, loops or labels
+ * reach past it, and its shapes are placed relative to `origin` so exports start at (0, 0).
+ */
+export const buildScene = (graphData: GraphData, options: SceneOptions): Scene => {
+  const { isDirected, showGrid = true, showResidual = false, selectedNodes = [], selectedEdge, hoveredNode, editingEdge } = options;
+  const shapes: SceneShape[] = [];
+
+  const routes = routeEdges(graphData, NODE_RADIUS);
+  routes.forEach(route => {
+    const { edge } = route;
+    const color = edgeStrokeColor(edge);
+    if (edge.id === selectedEdge) shapes.push(routeShape(route, SCENE_COLORS.selection, edgeLineWidth(edge) + 6));
+    shapes.push(routeShape(route, color, edgeLineWidth(edge)));
+    if (isDirected) shapes.push(arrowHead(route, color));
+
+    const text = edgeLabel(edge);
+    if (text !== undefined) {
+      const { x: midX, y: midY } = route.label;
+      const isEditing = editingEdge === edge.id;
+      const font = weightFont(isEditing);
+      const { width: boxWidth } = weightBoxSize(text, isEditing);
+      shapes.push(
+        {
+          kind: 'rect', x: midX - boxWidth / 2, y: midY - 10, width: boxWidth, height: 20,
+          fill: isEditing ? SCENE_COLORS.current : SCENE_COLORS.label,
+          stroke: isEditing ? SCENE_COLORS.current : SCENE_COLORS.labelBorder,
+          lineWidth: 1,
+        },
+        { kind: 'text', x: midX, y: midY + 4, text, fill: SCENE_COLORS.ink, font },
+      );
+    }
+  });
+
+  if (showResidual) {
+    // Remaining forward capacity on one side of each edge, back-edges on the other.
+    // They follow the drawn route, so the arcs of parallel and opposite edges stay apart.
+    routes.forEach(route => {
+      const { edge } = route;
+      if (edge.flow === undefined || route.kind === 'loop') return;
+      const capacity = edge.weight ?? 1;
+      const forward = capacity - edge.flow;
+      const backward = isDirected ? edge.flow : capacity + edge.flow;
+      if (forward > 0) shapes.push(...residualArc(route, true, forward, SCENE_COLORS.residualForward));
+      if (backward > 0) shapes.push(...residualArc(route, false, backward, SCENE_COLORS.residualBackward));
+    });
+  }
+
+  const selected = new Set(selectedNodes);
+  graphData.nodes.forEach(node => {
+    if (selected.has(node.id)) {
+      shapes.push({ kind: 'circle', cx: node.x, cy: node.y, r: NODE_RADIUS + 5, stroke: SCENE_COLORS.selection, lineWidth: 3 });
+    }
+    if (node.id === hoveredNode) {
+      shapes.push({ kind: 'circle', cx: node.x, cy: node.y, r: NODE_RADIUS + 3, stroke: SCENE_COLORS.hover, lineWidth: 2 });
+    }
+    if (node.isSourceSide) {
+      // Shade the source side of the minimum cut.
+      shapes.push({ kind: 'circle', cx: node.x, cy: node.y, r: NODE_RADIUS + 12, fill: SCENE_COLORS.sourceSide });
+    }
+    shapes.push(
+      { kind: 'circle', cx: node.x, cy: node.y, r: NODE_RADIUS, fill: nodeFillColor(node), stroke: SCENE_COLORS.ink, lineWidth: 2 },
+      { kind: 'text', x: node.x, y: node.y + 5, text: node.label, fill: SCENE_COLORS.ink, font: { size: 14, family: 'sans-serif', bold: true } },
+    );
+  });
+
+  // The background and grid go underneath everything, over the whole scene.
+  const { x, y, width, height } = sceneRect(graphData.nodes, routes);
+  const backdrop: SceneShape[] = [{ kind: 'rect', x, y, width, height, fill: SCENE_COLORS.background }];
+  if (showGrid) {
+    for (let gx = Math.ceil(x / GRID_SIZE) * GRID_SIZE; gx <= x + width; gx += GRID_SIZE) {
+      backdrop.push({ kind: 'line', x1: gx, y1: y, x2: gx, y2: y + height, stroke: SCENE_COLORS.grid, lineWidth: 1 });
+    }
+    for (let gy = Math.ceil(y / GRID_SIZE) * GRID_SIZE; gy <= y + height; gy += GRID_SIZE) {
+      backdrop.push({ kind: 'line', x1: x, y1: gy, x2: x + width, y2: gy, stroke: SCENE_COLORS.grid, lineWidth: 1 });
+    }
+  }
+
+  return { width, height, origin: { x, y }, shapes: [...backdrop, ...shapes].map(shape => translateShape(shape, -x, -y)) };
+};
+
+const CAPTION_LINE_HEIGHT = 28;
+const CAPTION_PADDING = 14;
+
+/**
+ * Adds a band under the scene with one caption per line, e.g. the step description and the
+ * current pseudo-code line. Long lines are cut to fit the width. The band has room for `rows`
+ * lines, so frames whose captions differ in count can still share one size.
+ */
+export const withCaption = (scene: Scene, lines: { text: string; muted?: boolean; monospace?: boolean }[], rows = lines.length): Scene => {
+  if (rows === 0) return scene;
+  const bandHeight = CAPTION_PADDING * 2 + CAPTION_LINE_HEIGHT * rows - 8;
+  const shapes: SceneShape[] = lines.map((line, i) => {
+    const font: SceneFont = { size: 16, family: line.monospace ? 'monospace' : 'sans-serif' };
+    const maxChars = Math.floor((scene.width - CAPTION_PADDING * 2) / textWidth('m', font));
+    const text = line.text.length > maxChars ? `${line.text.slice(0, maxChars - 1)}…` : line.text;
+    return {
+      kind: 'text', x: CAPTION_PADDING, y: scene.height + CAPTION_PADDING + 16 + i * CAPTION_LINE_HEIGHT,
+      text, fill: line.muted ? SCENE_COLORS.captionMuted : SCENE_COLORS.captionText, font, align: 'left',
+    };
+  });
+  return {
+    width: scene.width,
+    height: scene.height + bandHeight,
+    origin: scene.origin,
+    shapes: [...scene.shapes, { kind: 'rect', x: 0, y: scene.height, width: scene.width, height: bandHeight, fill: SCENE_COLORS.caption }, ...shapes],
+  };
+};
@@ -0,0 +1,240 @@
+// src/lib/graph-text.ts
+// Plain-text views of a graph for the text editor: an edge list ("A B 4") and an adjacency matrix.
+// Nodes are referred to by label; applying a description keeps the ids and positions of nodes and
+// edges that already exist so the canvas does not jump while the user types.
+import { GraphData, GraphEdge, GraphNode } from './graph-types';
+import { placeNewNodes } from './graph-layout';
+
+export type GraphTextFormat = 'edge-list' | 'adjacency-matrix';
+
+export const graphTextFormatLabels: Record<GraphTextFormat, string> = {
+  'edge-list': 'Edge List',
+  'adjacency-matrix': 'Adjacency Matrix',
+};
+
+export interface GraphTextError {
+  line: number;
+  message: string;
+}
+
+/** A graph as the text describes it: node labels in order and the edges between them. */
+export interface GraphDescription {
+  nodes: string[];
+  edges: { source: string; target: string; weight?: number }[];
+}
+
+export interface GraphTextResult {
+  /** Undefined when there are errors. */
+  description?: GraphDescription;
+  errors: GraphTextError[];
+}
+
+// Matrix cells: NO_EDGE for an absent edge, UNWEIGHTED for an edge without a weight.
+const NO_EDGE = '.';
+const UNWEIGHTED = 'x';
+
+const quote = (label: string) => (/^[^\s",#]+$/.test(label) ? label : `"${label.replace(/"/g, '\\"')}"`);
+
+/** Splits a line into labels and numbers; quotes allow spaces, "#" starts a comment. */
+const tokenizeLine = (line: string): string[] | string => {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < line.length) {
+    const char = line[i];
+    if (char === '#') break;
+    if (/[\s,]/.test(char)) {
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < line.length && line[i] !== '"') {
+        if (line[i] === '\\' && line[i + 1] === '"') i++;
+        value += line[i++];
+      }
+      if (i >= line.length) return 'unterminated quote';
+      tokens.push(value);
+      i++;
+    } else {
+      const start = i;
+      while (i < line.length && !/[\s,#"]/.test(line[i])) i++;
+      tokens.push(line.slice(start, i));
+    }
+  }
+  return tokens;
+};
+
+const parseNumber = (token: string) => (token.trim() !== '' && Number.isFinite(Number(token)) ? Number(token) : undefined);
+
+const edgeKey = (source: string, target: string, isDirected: boolean) =>
+  isDirected || source < target ? `${source}\u0000${target}` : `${target}\u0000${source}`;
+
+const parseEdgeList = (text: string, isDirected: boolean, multigraph: boolean): GraphTextResult => {
+  const errors: GraphTextError[] = [];
+  const nodes: string[] = [];
+  const edges: GraphDescription['edges'] = [];
+  const seen = new Set<string>();
+  const addNode = (label: string) => {
+    if (!nodes.includes(label)) nodes.push(label);
+  };
+
+  text.split('\n').forEach((raw, index) => {
+    const line = index + 1;
+    const tokens = tokenizeLine(raw);
+    if (typeof tokens === 'string') {
+      errors.push({ line, message: tokens });
+      return;
+    }
+    // Arrows are optional decoration: "A -> B 3".
+    const parts = tokens.filter(token => token !== '->' && token !== '--');
+    if (parts.length === 0) return;
+    if (parts.length > 3) {
+      errors.push({ line, message: 'expected "node" or "source target [weight]"' });
+      return;
+    }
+    const [source, target, weightToken] = parts;
+    const weight = weightToken === undefined ? undefined : parseNumber(weightToken);
+    if (weightToken !== undefined && weight === undefined) {
+      errors.push({ line, message: `weight "${weightToken}" is not a number` });
+      return;
+    }
+    if (target === undefined) {
+      addNode(source);
+      return;
+    }
+    if (source === target && !multigraph) {
+      errors.push({ line, message: `self-loop on "${source}" is not supported` });
+      return;
+    }
+    const key = edgeKey(source, target, isDirected);
+    if (seen.has(key) && !multigraph) {
+      errors.push({ line, message: `duplicate edge ${source} ${isDirected ? '→' : '–'} ${target}` });
+      return;
+    }
+    seen.add(key);
+    addNode(source);
+    addNode(target);
+    edges.push(weight === undefined ? { source, target } : { source, target, weight });
+  });
+  return errors.length > 0 ? { errors } : { description: { nodes, edges }, errors };
+};
+
+const parseAdjacencyMatrix = (text: string, isDirected: boolean, multigraph: boolean): GraphTextResult => {
+  const errors: GraphTextError[] = [];
+  const rows: { line: number; tokens: string[] }[] = [];
+  text.split('\n').forEach((raw, index) => {
+    const tokens = tokenizeLine(raw);
+    if (typeof tokens === 'string') errors.push({ line: index + 1, message: tokens });
+    else if (tokens.length > 0) rows.push({ line: index + 1, tokens });
+  });
+  if (errors.length > 0 || rows.length === 0) return errors.length > 0 ? { errors } : { description: { nodes: [], edges: [] }, errors };
+
+  const [header, ...body] = rows;
+  const nodes = header.tokens;
+  const duplicate = nodes.find((label, i) => nodes.indexOf(label) !== i);
+  if (duplicate) return { errors: [{ line: header.line, message: `node "${duplicate}" appears twice in the header` }] };
+
+  // cells[i][j] is the raw cell of row i, column j.
+  const cells: string[][] = [];
+  body.forEach(({ line, tokens }, i) => {
+    if (i >= nodes.length) {
+      errors.push({ line, message: `expected ${nodes.length} rows, one per node in the header` });
+      return;
+    }
+    // The row label is optional but must match the header when present.
+    const row = tokens.length === nodes.length + 1 ? tokens.slice(1) : tokens;
+    if (tokens.length === nodes.length + 1 && tokens[0] !== nodes[i]) {
+      errors.push({ line, message: `row ${i + 1} is labelled "${tokens[0]}" but the header says "${nodes[i]}"` });
+    } else if (row.length !== nodes.length) {
+      errors.push({ line, message: `expected ${nodes.length} cells but found ${row.length}` });
+    } else {
+      const bad = row.find(cell => cell !== NO_EDGE && cell !== UNWEIGHTED && parseNumber(cell) === undefined);
+      if (bad !== undefined) errors.push({ line, message: `"${bad}" is not a weight; use a number, "${UNWEIGHTED}" for an unweighted edge or "${NO_EDGE}" for none` });
+      else if (row[i] !== NO_EDGE && !multigraph) errors.push({ line, message: `self-loop on "${nodes[i]}" is not supported; use "${NO_EDGE}" on the diagonal` });
+    }
+    cells.push(row);
+  });
+  if (errors.length === 0 && body.length < nodes.length) {
+    errors.push({ line: body[body.length - 1]?.line ?? header.line, message: `expected ${nodes.length} rows but found ${body.length}` });
+  }
+  if (errors.length > 0) return { errors };
+
+  const edges: GraphDescription['edges'] = [];
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = isDirected ? 0 : i; j < nodes.length; j++) {
+      if (!isDirected && cells[i][j] !== cells[j][i]) {
+        errors.push({ line: body[j].line, message: `an undirected matrix must be symmetric: ${nodes[i]}→${nodes[j]} is "${cells[i][j]}" but ${nodes[j]}→${nodes[i]} is "${cells[j][i]}"` });
+        continue;
+      }
+      const cell = cells[i][j];
+      if (cell === NO_EDGE) continue;
+      edges.push(cell === UNWEIGHTED ? { source: nodes[i], target: nodes[j] } : { source: nodes[i], target: nodes[j], weight: Number(cell) });
+    }
+  }
+  return errors.length > 0 ? { errors } : { description: { nodes, edges }, errors };
+};
+
+/**
+ * Parses the text in the given format. Self-loops and repeated edges are errors unless `multigraph`
+ * is set; a matrix can still hold only one edge per pair, but then allows loops on its diagonal.
+ */
+export const parseGraphText = (text: string, format: GraphTextFormat, isDirected: boolean, multigraph = false): GraphTextResult =>
+  format === 'edge-list' ? parseEdgeList(text, isDirected, multigraph) : parseAdjacencyMatrix(text, isDirected, multigraph);
+
+export const formatGraphText = (graphData: GraphData, format: GraphTextFormat, isDirected: boolean): string => {
+  const labels = new Map(graphData.nodes.map(node => [node.id, node.label]));
+  const edges = graphData.edges.filter(edge => labels.has(edge.source) && labels.has(edge.target));
+
+  if (format === 'edge-list') {
+    const connected = new Set(edges.flatMap(edge => [edge.source, edge.target]));
+    return [
+      ...edges.map(edge => [quote(labels.get(edge.source)), quote(labels.get(edge.target)), ...(edge.weight !== undefined ? [String(edge.weight)] : [])].join(' ')),
+      ...graphData.nodes.filter(node => !connected.has(node.id)).map(node => quote(node.label)),
+    ].join('\n');
+  }
+
+  if (graphData.nodes.length === 0) return '';
+  const index = new Map(graphData.nodes.map((node, i) => [node.id, i]));
+  const cells = graphData.nodes.map(() => graphData.nodes.map(() => NO_EDGE));
+  // A matrix holds one edge per pair; the first of any parallel edges wins.
+  for (const edge of [...edges].reverse()) {
+    const cell = edge.weight !== undefined ? String(edge.weight) : UNWEIGHTED;
+    cells[index.get(edge.source)][index.get(edge.target)] = cell;
+    if (!isDirected) cells[index.get(edge.target)][index.get(edge.source)] = cell;
+  }
+  const header = graphData.nodes.map(node => quote(node.label));
+  const width = Math.max(...header.map(label => label.length), ...cells.flat().map(cell => cell.length));
+  const pad = (value: string) => value.padStart(width);
+  return [
+    [' '.repeat(width), ...header.map(pad)].join(' '),
+    ...cells.map((row, i) => [pad(header[i]), ...row.map(pad)].join(' ')),
+  ].join('\n');
+};
+
+/**
+ * Rebuilds `graphData` from a description. Nodes are matched by label and edges by their endpoints,
+ * so existing ids, positions and imported attributes survive; new nodes are placed automatically.
+ */
+export const applyGraphDescription = (graphData: GraphData, description: GraphDescription, isDirected: boolean): GraphData => {
+  const stamp = Date.now();
+  const byLabel = new Map<string, GraphNode>();
+  graphData.nodes.forEach(node => byLabel.has(node.label) || byLabel.set(node.label, node));
+
+  const nodes = description.nodes.map((label, i) => byLabel.get(label) ?? { id: `node-${stamp}-${i}`, label, state: 'default' as const });
+  const idOf = new Map(nodes.map(node => [node.label, node.id]));
+
+  const unused = new Map<string, GraphEdge[]>();
+  for (const edge of graphData.edges) {
+    const key = edgeKey(edge.source, edge.target, isDirected);
+    unused.set(key, [...(unused.get(key) ?? []), edge]);
+  }
+  const edges = description.edges.map((edge, i): GraphEdge => {
+    const source = idOf.get(edge.source);
+    const target = idOf.get(edge.target);
+    const existing = unused.get(edgeKey(source, target, isDirected))?.shift();
+    if (!existing) return { id: `edge-${stamp}-${i}`, source, target, ...(edge.weight !== undefined ? { weight: edge.weight } : {}), isActive: false };
+    const { weight: _previous, ...rest } = existing;
+    return { ...rest, source, target, ...(edge.weight !== undefined ? { weight: edge.weight } : {}) };
+  });
+
+  return { ...graphData, nodes: placeNewNodes(nodes, edges), edges };
+};
@@ -3,8 +3,10 @@ export interface GraphNode {
   label: string;
   x?: number;
   y?: number;
-  state?: 'default' | 'current' | 'visited' | 'error';
+  state?: 'default' | 'current' | 'visited' | 'path' | 'error';
   distance?: number; // For shortest path algorithms
+  isSourceSide?: boolean; // Source side of a minimum cut
+  attributes?: Record<string, string>; // Imported data this app does not use, kept for export
 }
 export interface GraphEdge {
   id: string;
@@ -15,11 +17,25 @@ export interface GraphEdge {
   isInMST?: boolean;
   inTree?: boolean;
   isError?: boolean;
+  isPath?: boolean; // On the traced shortest path
+  flow?: number; // Max flow on this edge; negative on undirected edges means target → source
+  isCut?: boolean; // Crosses the minimum cut
+  attributes?: Record<string, string>; // Imported data this app does not use, kept for export
+}
+
+/** Declares an imported attribute so exporters can write it back with its original type. */
+export interface AttributeKey {
+  name: string;
+  for: 'graph' | 'node' | 'edge';
+  type: string;
+  default?: string;
 }
 
 export interface GraphData {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  attributes?: Record<string, string>; // Graph-level imported data
+  attributeKeys?: AttributeKey[];
 }
 
 export interface AlgorithmStep {
@@ -34,12 +50,47 @@ export interface AlgorithmStep {
   matrix?: Record<string, any>; // For distance tables, gScore/fScore, etc.
   list?: string[]; // For MST visited nodes, etc.
   array?: string[]; // For edge arrays, etc.
+  snapshot?: GraphData; // Full graph state after this step, stored periodically for seeking
+}
+
+// Final outcome of a run, discriminated by `kind`. Node and edge references are ids.
+export interface TraversalResult {
+  kind: 'traversal';
+  start: string;
+  visitOrder: string[];
 }
 
-export interface AlgorithmResult {
-  steps: AlgorithmStep[];
-  finalState: GraphData;
+export interface ShortestPathResult {
+  kind: 'shortest-path';
+  source: string;
+  distances: Record<string, number>;
+  predecessors: Record<string, string | null>;
+  target?: string;
+  path?: string[]; // source → target, empty when the target is unreachable
   pathFound?: boolean;
   totalDistance?: number;
-  mstWeight?: number;
-}
\ No newline at end of file
+  negativeCycle?: boolean;
+}
+
+export interface AllPairsResult {
+  kind: 'all-pairs';
+  distances: Record<string, Record<string, number>>;
+}
+
+export interface MSTResult {
+  kind: 'mst';
+  edges: string[];
+  mstWeight: number;
+  isSpanning: boolean; // false when the graph is disconnected and only a forest was built
+}
+
+export interface MaxFlowResult {
+  kind: 'max-flow';
+  source: string;
+  sink: string;
+  maxFlow: number;
+  flows: Record<string, number>; // per edge id; negative on undirected edges means target → source
+  minCut: { sourceSide: string[]; edges: string[]; capacity: number };
+}
+
+export type AlgorithmResult = TraversalResult | ShortestPathResult | AllPairsResult | MSTResult | MaxFlowResult;
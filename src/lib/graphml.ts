@@ -0,0 +1,245 @@
+// src/lib/graphml.ts
+// GraphML import and export (yEd, Gephi, NetworkX). Labels, positions and weights map onto GraphData;
+// any other <data> is kept in `attributes` so that importing and exporting again loses nothing.
+import { AttributeKey, GraphData, GraphEdge, GraphNode } from './graph-types';
+import { GraphImportError, ImportedGraph } from './graph-import';
+import { withCircularLayout } from './graph-layout';
+
+const GRAPHML_NS = 'http://graphml.graphdrawing.org/xmlns';
+
+type KeyScope = AttributeKey['for'];
+
+interface KeyDefinition {
+  id: string;
+  name: string;
+  for: KeyScope | 'all';
+  type: string;
+  default?: string;
+  /** yEd's rendering payload ("nodegraphics", "edgegraphics", "resources", ...). */
+  yfilesType?: string;
+}
+
+const NODE_FIELDS: Record<string, 'label' | 'x' | 'y'> = { label: 'label', name: 'label', x: 'x', y: 'y' };
+
+const childElements = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter(child => child.localName === localName);
+
+const descendant = (parent: Element, localName: string): Element | undefined =>
+  Array.from(parent.getElementsByTagName('*')).find(el => el.localName === localName);
+
+const parseNumber = (value: string | null | undefined): number | undefined => {
+  if (value === null || value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+export const parseGraphML = (text: string, parser: DOMParser = new DOMParser()): ImportedGraph => {
+  const doc = parser.parseFromString(text, 'application/xml');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    throw new GraphImportError(`The file is not well-formed XML: ${parseError.textContent?.trim().split('\n')[0] ?? ''}`);
+  }
+  const root = doc.documentElement;
+  if (root.localName !== 'graphml') throw new GraphImportError('This is not a GraphML file (no <graphml> root element).');
+
+  const warnings: string[] = [];
+  const keys = new Map<string, KeyDefinition>();
+  for (const key of childElements(root, 'key')) {
+    const id = key.getAttribute('id');
+    if (!id) continue;
+    keys.set(id, {
+      id,
+      name: key.getAttribute('attr.name') || id,
+      for: (key.getAttribute('for') as KeyDefinition['for']) || 'all',
+      type: key.getAttribute('attr.type') || 'string',
+      default: childElements(key, 'default')[0]?.textContent ?? undefined,
+      yfilesType: key.getAttribute('yfiles.type') ?? undefined,
+    });
+  }
+
+  const graphs = childElements(root, 'graph');
+  if (graphs.length === 0) throw new GraphImportError('The GraphML file contains no <graph> element.');
+  if (graphs.length > 1) warnings.push(`Only the first of ${graphs.length} graphs was imported.`);
+  const graph = graphs[0];
+  const isDirected = graph.getAttribute('edgedefault') !== 'undirected';
+
+  const preservedKeys = new Map<string, AttributeKey>();
+  const skippedStructured = new Set<string>();
+  // Reads every <data> child (plus key defaults) of `element` as name → text.
+  const readData = (element: Element, scope: KeyScope) => {
+    const values = new Map<string, { key: KeyDefinition; element?: Element; text: string }>();
+    for (const key of keys.values()) {
+      if ((key.for === scope || key.for === 'all') && key.default !== undefined) values.set(key.name, { key, text: key.default });
+    }
+    for (const data of childElements(element, 'data')) {
+      const keyId = data.getAttribute('key') ?? '';
+      const key = keys.get(keyId) ?? { id: keyId, name: keyId, for: scope, type: 'string' };
+      if (!keys.has(keyId)) warnings.push(`<data> refers to undeclared key "${keyId}"; kept as a string attribute.`);
+      values.set(key.name, { key, element: data, text: data.textContent ?? '' });
+    }
+    return values;
+  };
+  const preserve = (scope: KeyScope, key: KeyDefinition, element: Element | undefined, text: string, attributes: Record<string, string>) => {
+    if (element && element.children.length > 0) {
+      if (!skippedStructured.has(key.name)) warnings.push(`Structured data in key "${key.name}" is not supported and was skipped.`);
+      skippedStructured.add(key.name);
+      return;
+    }
+    attributes[key.name] = text;
+    if (!preservedKeys.has(`${scope}:${key.name}`)) {
+      preservedKeys.set(`${scope}:${key.name}`, { name: key.name, for: scope, type: key.type, ...(key.default !== undefined ? { default: key.default } : {}) });
+    }
+  };
+
+  const nodes: GraphNode[] = [];
+  const nodeIds = new Set<string>();
+  let portWarning = false;
+  childElements(graph, 'node').forEach((element, index) => {
+    const id = element.getAttribute('id');
+    if (!id) {
+      warnings.push(`Node #${index + 1} has no id and was skipped.`);
+      return;
+    }
+    if (nodeIds.has(id)) {
+      warnings.push(`Duplicate node id "${id}" was skipped.`);
+      return;
+    }
+    if (childElements(element, 'graph').length > 0) warnings.push(`Nested graph inside node "${id}" is not supported; its contents were skipped.`);
+    if (!portWarning && childElements(element, 'port').length > 0) {
+      warnings.push('Ports are not supported; edges were connected to their nodes instead.');
+      portWarning = true;
+    }
+    const node: GraphNode = { id, label: id, state: 'default' };
+    const attributes: Record<string, string> = {};
+    for (const [name, { key, element: data, text }] of readData(element, 'node')) {
+      const field = NODE_FIELDS[name.toLowerCase()];
+      if (key.yfilesType === 'nodegraphics' && data) {
+        // yEd keeps the label and the top-left corner of the shape in its graphics payload.
+        const geometry = descendant(data, 'Geometry');
+        const x = parseNumber(geometry?.getAttribute('x'));
+        const y = parseNumber(geometry?.getAttribute('y'));
+        if (x !== undefined && y !== undefined && node.x === undefined) {
+          node.x = x + (parseNumber(geometry.getAttribute('width')) ?? 0) / 2;
+          node.y = y + (parseNumber(geometry.getAttribute('height')) ?? 0) / 2;
+        }
+        const label = descendant(data, 'NodeLabel')?.textContent?.trim();
+        if (label && node.label === id) node.label = label;
+      } else if (key.yfilesType) {
+        continue;
+      } else if (field === 'label') {
+        node.label = text;
+      } else if (field && parseNumber(text) !== undefined) {
+        node[field] = parseNumber(text);
+      } else {
+        preserve('node', key, data, text, attributes);
+      }
+    }
+    if (Object.keys(attributes).length > 0) node.attributes = attributes;
+    nodeIds.add(id);
+    nodes.push(node);
+  });
+
+  const edges: GraphEdge[] = [];
+  const edgeIds = new Set<string>();
+  let mixedDirection = false;
+  childElements(graph, 'edge').forEach((element, index) => {
+    const source = element.getAttribute('source');
+    const target = element.getAttribute('target');
+    let id = element.getAttribute('id') || `e${index}`;
+    if (!source || !target || !nodeIds.has(source) || !nodeIds.has(target)) {
+      warnings.push(`Edge "${id}" connects missing nodes and was skipped.`);
+      return;
+    }
+    if (edgeIds.has(id)) {
+      const original = id;
+      for (let n = 1; edgeIds.has(id); n++) id = `${original}-${n}`;
+      warnings.push(`Duplicate edge id "${original}" was renamed to "${id}".`);
+    }
+    const directed = element.getAttribute('directed');
+    if (!mixedDirection && directed !== null && (directed === 'true') !== isDirected) {
+      warnings.push(`Some edges override edgedefault; all edges were imported as ${isDirected ? 'directed' : 'undirected'}.`);
+      mixedDirection = true;
+    }
+    const edge: GraphEdge = { id, source, target, isActive: false };
+    const attributes: Record<string, string> = {};
+    for (const [name, { key, element: data, text }] of readData(element, 'edge')) {
+      if (key.yfilesType) continue;
+      if (name.toLowerCase() === 'weight' && parseNumber(text) !== undefined) {
+        edge.weight = parseNumber(text);
+      } else {
+        if (name.toLowerCase() === 'weight') warnings.push(`Edge "${id}" has a non-numeric weight "${text}"; it was kept as an attribute.`);
+        preserve('edge', key, data, text, attributes);
+      }
+    }
+    if (Object.keys(attributes).length > 0) edge.attributes = attributes;
+    edgeIds.add(id);
+    edges.push(edge);
+  });
+
+  const hyperedges = childElements(graph, 'hyperedge').length;
+  if (hyperedges > 0) warnings.push(`${hyperedges} hyperedge${hyperedges === 1 ? ' is' : 's are'} not supported and ${hyperedges === 1 ? 'was' : 'were'} skipped.`);
+
+  const graphAttributes: Record<string, string> = {};
+  for (const { key, element, text } of readData(graph, 'graph').values()) {
+    if (!key.yfilesType) preserve('graph', key, element, text, graphAttributes);
+  }
+
+  const graphData: GraphData = { nodes: withCircularLayout(nodes), edges };
+  if (Object.keys(graphAttributes).length > 0) graphData.attributes = graphAttributes;
+  if (preservedKeys.size > 0) graphData.attributeKeys = [...preservedKeys.values()];
+  return { graphData, isDirected, warnings };
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+export const toGraphML = (graphData: GraphData, isDirected: boolean): string => {
+  // Declared keys first, then any attribute that was added without a declaration.
+  const extraKeys: AttributeKey[] = [...(graphData.attributeKeys ?? [])];
+  const declare = (scope: KeyScope, attributes?: Record<string, string>) => {
+    for (const name of Object.keys(attributes ?? {})) {
+      if (!extraKeys.some(k => k.for === scope && k.name === name)) extraKeys.push({ name, for: scope, type: 'string' });
+    }
+  };
+  declare('graph', graphData.attributes);
+  graphData.nodes.forEach(node => declare('node', node.attributes));
+  graphData.edges.forEach(edge => declare('edge', edge.attributes));
+  const keyId = (scope: KeyScope, name: string) => `d${extraKeys.findIndex(k => k.for === scope && k.name === name)}`;
+
+  const data = (key: string, value: string | number, indent: string) => `${indent}<data key="${escapeXml(key)}">${escapeXml(String(value))}</data>`;
+  const extraData = (scope: KeyScope, attributes: Record<string, string> | undefined, indent: string) =>
+    Object.entries(attributes ?? {}).map(([name, value]) => data(keyId(scope, name), value, indent));
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<graphml xmlns="${GRAPHML_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${GRAPHML_NS} ${GRAPHML_NS}/1.0/graphml.xsd">`,
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    ...extraKeys.map((key, i) => {
+      const attrs = `id="d${i}" for="${key.for}" attr.name="${escapeXml(key.name)}" attr.type="${escapeXml(key.type)}"`;
+      return key.default === undefined
+        ? `  <key ${attrs}/>`
+        : `  <key ${attrs}><default>${escapeXml(key.default)}</default></key>`;
+    }),
+    `  <graph id="G" edgedefault="${isDirected ? 'directed' : 'undirected'}">`,
+    ...extraData('graph', graphData.attributes, '    '),
+  ];
+  for (const node of graphData.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(data('label', node.label, '      '));
+    if (node.x !== undefined && node.y !== undefined) lines.push(data('x', node.x, '      '), data('y', node.y, '      '));
+    lines.push(...extraData('node', node.attributes, '      '), '    </node>');
+  }
+  for (const edge of graphData.edges) {
+    const open = `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"`;
+    const children = [
+      ...(edge.weight !== undefined ? [data('weight', edge.weight, '      ')] : []),
+      ...extraData('edge', edge.attributes, '      '),
+    ];
+    lines.push(...(children.length > 0 ? [`${open}>`, ...children, '    </edge>'] : [`${open}/>`]));
+  }
+  lines.push('  </graph>', '</graphml>', '');
+  return lines.join('\n');
+};
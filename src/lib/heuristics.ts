@@ -0,0 +1,133 @@
+// src/lib/heuristics.ts
+// A* heuristics: estimates of the remaining cost from a node to the goal, plus a checker
+// that tells whether a heuristic is admissible and consistent on a given graph.
+import { GraphData, GraphNode } from './graph-types';
+import { GraphAdjacency } from './graph-adjacency';
+
+export type HeuristicKind = 'zero' | 'euclidean' | 'manhattan' | 'chebyshev' | 'scaled-euclidean' | 'custom';
+
+export type Heuristic = (nodeId: string) => number;
+
+export const heuristicLabels: Record<HeuristicKind, string> = {
+  zero: 'Zero (Dijkstra)',
+  euclidean: 'Euclidean',
+  manhattan: 'Manhattan',
+  chebyshev: 'Chebyshev',
+  'scaled-euclidean': 'Scaled Euclidean',
+  custom: 'Custom h values',
+};
+
+export interface HeuristicOptions {
+  /** Per-node estimates used by the 'custom' heuristic; missing nodes estimate 0. */
+  values?: Record<string, number>;
+}
+
+const pixelDistance = (a: GraphNode, b: GraphNode) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * The largest factor that keeps Euclidean distance below every edge weight, so that
+ * `scale * distance` never overestimates. Falls back to 0 when an edge is free or nodes overlap.
+ */
+export const euclideanScale = (graph: GraphData): number => {
+  const nodes = new Map(graph.nodes.map(n => [n.id, n]));
+  let scale = Infinity;
+  for (const edge of graph.edges) {
+    const source = nodes.get(edge.source);
+    const target = nodes.get(edge.target);
+    if (!source || !target || source === target) continue;
+    const length = pixelDistance(source, target);
+    if (length === 0) continue;
+    scale = Math.min(scale, Math.max(0, edge.weight ?? 1) / length);
+  }
+  return scale === Infinity ? 0 : scale;
+};
+
+export const createHeuristic = (
+  kind: HeuristicKind,
+  graph: GraphData,
+  goalId: string,
+  options: HeuristicOptions = {}
+): Heuristic => {
+  const nodes = new Map(graph.nodes.map(n => [n.id, n]));
+  const goal = nodes.get(goalId);
+  // Positional heuristics estimate 0 for nodes without coordinates rather than NaN.
+  const positional = (measure: (dx: number, dy: number) => number): Heuristic => nodeId => {
+    const node = nodes.get(nodeId);
+    if (!node || !goal || node.x === undefined || node.y === undefined || goal.x === undefined || goal.y === undefined) return 0;
+    return measure(Math.abs(node.x - goal.x), Math.abs(node.y - goal.y));
+  };
+
+  switch (kind) {
+    case 'zero':
+      return () => 0;
+    case 'euclidean':
+      return positional(Math.hypot);
+    case 'manhattan':
+      return positional((dx, dy) => dx + dy);
+    case 'chebyshev':
+      return positional(Math.max);
+    case 'scaled-euclidean': {
+      const scale = euclideanScale(graph);
+      const euclidean = positional(Math.hypot);
+      return nodeId => scale * euclidean(nodeId);
+    }
+    case 'custom':
+      return nodeId => options.values?.[nodeId] ?? 0;
+  }
+};
+
+export interface HeuristicReport {
+  admissible: boolean;
+  consistent: boolean;
+  /** Human-readable counterexamples, at most one per node or arc. */
+  violations: string[];
+}
+
+// Tolerance for floating point noise in positional heuristics.
+const EPSILON = 1e-9;
+
+const formatCost = (value: number) => (value === Infinity ? '∞' : Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+/**
+ * Checks `h` against the exact cost-to-goal of every node (admissibility) and every arc
+ * (consistency: h(u) <= w(u, v) + h(v)). Costs to the goal come from relaxing the reversed arcs.
+ */
+export const checkHeuristic = (
+  graph: GraphData,
+  isDirected: boolean,
+  goalId: string,
+  h: Heuristic
+): HeuristicReport => {
+  const label = (id: string) => graph.nodes.find(n => n.id === id)?.label || id;
+  const arcs = new GraphAdjacency(graph, isDirected).arcs();
+  const costToGoal: Record<string, number> = Object.fromEntries(graph.nodes.map(n => [n.id, Infinity]));
+  costToGoal[goalId] = 0;
+  for (let i = 1; i < graph.nodes.length; i++) {
+    let changed = false;
+    for (const arc of arcs) {
+      if (costToGoal[arc.to] + arc.weight < costToGoal[arc.from]) {
+        costToGoal[arc.from] = costToGoal[arc.to] + arc.weight;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const violations: string[] = [];
+  let admissible = true;
+  for (const node of graph.nodes) {
+    const estimate = h(node.id);
+    if (estimate > costToGoal[node.id] + EPSILON) {
+      admissible = false;
+      violations.push(`h(${label(node.id)}) = ${formatCost(estimate)} overestimates the true cost ${formatCost(costToGoal[node.id])}`);
+    }
+  }
+  let consistent = true;
+  for (const arc of arcs) {
+    if (h(arc.from) > arc.weight + h(arc.to) + EPSILON) {
+      consistent = false;
+      violations.push(`h(${label(arc.from)}) = ${formatCost(h(arc.from))} > ${arc.weight} + h(${label(arc.to)}) = ${formatCost(arc.weight + h(arc.to))}`);
+    }
+  }
+  return { admissible, consistent, violations };
+};
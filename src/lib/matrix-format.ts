@@ -0,0 +1,24 @@
+// src/lib/matrix-format.ts
+// Text formatting for the `matrix` field of algorithm steps, shared by the data panel and the operation log.
+
+/** A single cell: ∞ for Infinity, blank for missing values, at most two decimals. */
+export const formatMatrixValue = (value: unknown): string => {
+  if (value === Infinity) return '∞';
+  if (value === -Infinity) return '-∞';
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  return String(value);
+};
+
+/**
+ * One line per row, e.g. `A: g=0, h=3, f=3; B: …` for nested matrices or `A: 0, B: 4` for flat ones.
+ * `label` maps row and column keys (usually node ids) to display names.
+ */
+export const formatMatrix = (matrix: Record<string, unknown>, label: (key: string) => string = key => key): string =>
+  Object.entries(matrix)
+    .map(([row, value]) =>
+      value && typeof value === 'object'
+        ? `${label(row)}: ${Object.entries(value).map(([col, cell]) => `${label(col)}=${formatMatrixValue(cell)}`).join(', ')}`
+        : `${label(row)}: ${formatMatrixValue(value)}`
+    )
+    .join(Object.values(matrix).some(v => v && typeof v === 'object') ? '; ' : ', ');
@@ -0,0 +1,200 @@
+// src/lib/project-file.ts
+// Versioned JSON project documents: the graph, its directedness and the algorithm configuration.
+// Files are migrated to CURRENT_PROJECT_VERSION before validation, so older files keep opening.
+import { z } from 'zod';
+import { GraphData } from './graph-types';
+import { Algorithm, AlgorithmRunParams, algorithmIds } from './algorithm-registry';
+import { heuristicLabels } from './heuristics';
+
+export const PROJECT_FORMAT = 'vision-graph-lab/project';
+export const CURRENT_PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.graph.json';
+
+/** A file that cannot be opened; `issues` lists every problem found, one readable line each. */
+export class ProjectFileError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'ProjectFileError';
+    this.issues = issues;
+  }
+}
+
+const finite = z.number().finite();
+
+const nodeSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  x: finite,
+  y: finite,
+  attributes: z.record(z.string()).optional(),
+}).strict();
+
+const edgeSchema = z.object({
+  id: z.string().min(1),
+  source: z.string().min(1),
+  target: z.string().min(1),
+  weight: finite.optional(),
+  attributes: z.record(z.string()).optional(),
+}).strict();
+
+// Attributes carried over from imported files (e.g. GraphML <data>) so they survive a save.
+const attributeKeySchema = z.object({
+  name: z.string().min(1),
+  for: z.enum(['graph', 'node', 'edge']),
+  type: z.string(),
+  default: z.string().optional(),
+}).strict();
+
+const withAttributes = (attributes?: Record<string, string>) =>
+  attributes && Object.keys(attributes).length > 0 ? { attributes } : {};
+
+const paramsSchema = z.object({
+  start: z.string().optional(),
+  end: z.string().optional(),
+  source: z.string().optional(),
+  sink: z.string().optional(),
+  stopAtTarget: z.boolean().optional(),
+  heuristic: z.enum(Object.keys(heuristicLabels) as [keyof typeof heuristicLabels, ...(keyof typeof heuristicLabels)[]]).optional(),
+  heuristicValues: z.record(finite).optional(),
+}).strict();
+
+const projectSchema = z.object({
+  format: z.literal(PROJECT_FORMAT),
+  version: z.literal(CURRENT_PROJECT_VERSION),
+  name: z.string().optional(),
+  graph: z.object({
+    directed: z.boolean(),
+    nodes: z.array(nodeSchema),
+    edges: z.array(edgeSchema),
+    attributes: z.record(z.string()).optional(),
+    attributeKeys: z.array(attributeKeySchema).optional(),
+  }).strict(),
+  algorithm: z.object({
+    id: z.string().refine(id => (algorithmIds as string[]).includes(id), id => ({ message: `Unknown algorithm "${id}"` })),
+    params: paramsSchema,
+    speed: finite.min(0).max(100),
+  }).strict(),
+}).strict().superRefine((project, ctx) => {
+  // Cross-references zod cannot express per field.
+  const nodeIds = new Set<string>();
+  project.graph.nodes.forEach((node, i) => {
+    if (nodeIds.has(node.id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['graph', 'nodes', i, 'id'], message: `Duplicate node id "${node.id}"` });
+    nodeIds.add(node.id);
+  });
+  const edgeIds = new Set<string>();
+  project.graph.edges.forEach((edge, i) => {
+    if (edgeIds.has(edge.id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['graph', 'edges', i, 'id'], message: `Duplicate edge id "${edge.id}"` });
+    edgeIds.add(edge.id);
+    for (const end of ['source', 'target'] as const) {
+      if (!nodeIds.has(edge[end])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['graph', 'edges', i, end], message: `Edge "${edge.id}" points to missing node "${edge[end]}"` });
+      }
+    }
+  });
+  for (const key of ['start', 'end', 'source', 'sink'] as const) {
+    const nodeId = project.algorithm.params[key];
+    if (nodeId !== undefined && !nodeIds.has(nodeId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['algorithm', 'params', key], message: `${key} node "${nodeId}" does not exist` });
+    }
+  }
+});
+
+export type ProjectDocument = z.infer<typeof projectSchema>;
+
+/** Everything a project restores in the visualizer. */
+export interface ProjectState {
+  name?: string;
+  graphData: GraphData;
+  isDirected: boolean;
+  algorithm: Algorithm;
+  params: AlgorithmRunParams;
+  speed: number;
+}
+
+/**
+ * Upgrades a document of version `n` to `n + 1`. Add an entry here whenever the schema changes,
+ * then bump CURRENT_PROJECT_VERSION; old files are upgraded step by step when opened.
+ */
+export const projectMigrations: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const migrateProject = (
+  document: Record<string, unknown>,
+  migrations = projectMigrations,
+  targetVersion = CURRENT_PROJECT_VERSION
+): Record<string, unknown> => {
+  let version = document.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('This file has no valid project version.');
+  }
+  if (version > targetVersion) {
+    throw new ProjectFileError(`This file was saved by a newer version of the app (project version ${version}; this app reads up to ${targetVersion}).`);
+  }
+  let migrated = document;
+  while (version < targetVersion) {
+    const migrate = migrations[version];
+    if (!migrate) throw new ProjectFileError(`No migration from project version ${version}.`);
+    migrated = { ...migrate(migrated), version: version + 1 };
+    version++;
+  }
+  return migrated;
+};
+
+const formatIssue = (issue: z.ZodIssue): string =>
+  issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+
+/** Parses, migrates and validates a project file. Throws ProjectFileError describing every problem. */
+export const parseProject = (text: string): ProjectState => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new ProjectFileError(`The file is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw) || (raw as Record<string, unknown>).format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('This is not a graph project file.');
+  }
+  const parsed = projectSchema.safeParse(migrateProject(raw as Record<string, unknown>));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(formatIssue);
+    throw new ProjectFileError(`The project file is invalid (${issues.length} problem${issues.length === 1 ? '' : 's'}).`, issues);
+  }
+  const { name, graph, algorithm } = parsed.data;
+  return {
+    name,
+    graphData: {
+      nodes: graph.nodes.map(node => ({ id: node.id, label: node.label, x: node.x, y: node.y, state: 'default', ...withAttributes(node.attributes) })),
+      edges: graph.edges.map(edge => ({ id: edge.id, source: edge.source, target: edge.target, weight: edge.weight, isActive: false, ...withAttributes(edge.attributes) })),
+      ...withAttributes(graph.attributes),
+      ...(graph.attributeKeys ? { attributeKeys: graph.attributeKeys.map(key => ({ name: key.name, for: key.for, type: key.type, default: key.default })) } : {}),
+    },
+    isDirected: graph.directed,
+    algorithm: algorithm.id as Algorithm,
+    params: algorithm.params,
+    speed: algorithm.speed,
+  };
+};
+
+/** Builds the current-version document; algorithm-owned fields such as node states are not saved. */
+export const createProject = (state: ProjectState): ProjectDocument => ({
+  format: PROJECT_FORMAT,
+  version: CURRENT_PROJECT_VERSION,
+  ...(state.name ? { name: state.name } : {}),
+  graph: {
+    directed: state.isDirected,
+    nodes: state.graphData.nodes.map(({ id, label, x, y, attributes }) => ({ id, label, x, y, ...withAttributes(attributes) })),
+    edges: state.graphData.edges.map(({ id, source, target, weight, attributes }) => ({
+      id, source, target, ...(weight === undefined ? {} : { weight }), ...withAttributes(attributes),
+    })),
+    ...withAttributes(state.graphData.attributes),
+    ...(state.graphData.attributeKeys?.length ? { attributeKeys: state.graphData.attributeKeys } : {}),
+  },
+  algorithm: {
+    id: state.algorithm,
+    params: state.params,
+    speed: state.speed,
+  },
+});
+
+export const serializeProject = (state: ProjectState): string => JSON.stringify(createProject(state), null, 2);
@@ -0,0 +1,141 @@
+// src/lib/scene-render.ts
+// Backends for graph-scene.ts: Canvas2D for the editor and PNG export, and an SVG string for vector export.
+import { Scene, SceneFont } from './graph-scene';
+
+const cssFont = (font: SceneFont) => `${font.bold ? 'bold ' : ''}${font.size}px ${font.family}`;
+
+export const drawScene = (ctx: CanvasRenderingContext2D, scene: Scene) => {
+  for (const shape of scene.shapes) {
+    switch (shape.kind) {
+      case 'rect':
+        if (shape.fill) {
+          ctx.fillStyle = shape.fill;
+          ctx.fillRect(shape.x, shape.y, shape.width, shape.height);
+        }
+        if (shape.stroke) {
+          ctx.strokeStyle = shape.stroke;
+          ctx.lineWidth = shape.lineWidth ?? 1;
+          ctx.strokeRect(shape.x, shape.y, shape.width, shape.height);
+        }
+        break;
+      case 'line':
+        ctx.strokeStyle = shape.stroke;
+        ctx.lineWidth = shape.lineWidth;
+        ctx.setLineDash(shape.dash ?? []);
+        ctx.beginPath();
+        ctx.moveTo(shape.x1, shape.y1);
+        ctx.lineTo(shape.x2, shape.y2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        break;
+      case 'curve': {
+        const [[x0, y0], [x1, y1], [x2, y2], [x3, y3]] = shape.points;
+        ctx.strokeStyle = shape.stroke;
+        ctx.lineWidth = shape.lineWidth;
+        ctx.setLineDash(shape.dash ?? []);
+        ctx.beginPath();
+        ctx.moveTo(x0, y0);
+        ctx.bezierCurveTo(x1, y1, x2, y2, x3, y3);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        break;
+      }
+      case 'polygon':
+        ctx.fillStyle = shape.fill;
+        ctx.beginPath();
+        shape.points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.closePath();
+        ctx.fill();
+        break;
+      case 'circle':
+        ctx.beginPath();
+        ctx.arc(shape.cx, shape.cy, shape.r, 0, 2 * Math.PI);
+        if (shape.fill) {
+          ctx.fillStyle = shape.fill;
+          ctx.fill();
+        }
+        if (shape.stroke) {
+          ctx.strokeStyle = shape.stroke;
+          ctx.lineWidth = shape.lineWidth ?? 1;
+          ctx.stroke();
+        }
+        break;
+      case 'text':
+        ctx.fillStyle = shape.fill;
+        ctx.font = cssFont(shape.font);
+        ctx.textAlign = shape.align ?? 'center';
+        ctx.fillText(shape.text, shape.x, shape.y);
+        break;
+    }
+  }
+};
+
+/** Draws the scene onto a new canvas `scale` times the scene size. */
+export const renderSceneToCanvas = (scene: Scene, scale = 1): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(scene.width * scale);
+  canvas.height = Math.round(scene.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  ctx.scale(scale, scale);
+  drawScene(ctx, scene);
+  return canvas;
+};
+
+export const renderScenePng = (scene: Scene, scale = 1): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    renderSceneToCanvas(scene, scale).toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+
+/**
+ * Converts the scene's CSS colours to hex plus opacity. SVG viewers outside the browser
+ * (Inkscape, Illustrator, LaTeX converters) do not all understand space-separated hsl().
+ */
+export const toSvgColor = (color: string): { color: string; opacity?: number } => {
+  const match = /^hsl\(\s*([\d.]+)\s+([\d.]+)%\s+([\d.]+)%\s*(?:\/\s*([\d.]+))?\s*\)$/.exec(color);
+  if (!match) return { color };
+  const [h, s, l] = [Number(match[1]), Number(match[2]) / 100, Number(match[3]) / 100];
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  const hex = `#${[0, 8, 4].map(n => channel(n).toString(16).padStart(2, '0')).join('')}`;
+  return match[4] === undefined ? { color: hex } : { color: hex, opacity: Number(match[4]) };
+};
+
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const paint = (attribute: 'fill' | 'stroke', color: string | undefined) => {
+  if (!color) return `${attribute}="none"`;
+  const { color: value, opacity } = toSvgColor(color);
+  return `${attribute}="${value}"${opacity === undefined ? '' : ` ${attribute}-opacity="${opacity}"`}`;
+};
+
+export const sceneToSvg = (scene: Scene): string => {
+  const elements = scene.shapes.map(shape => {
+    switch (shape.kind) {
+      case 'rect':
+        return `<rect x="${round(shape.x)}" y="${round(shape.y)}" width="${round(shape.width)}" height="${round(shape.height)}" ${paint('fill', shape.fill)} ${paint('stroke', shape.stroke)}${shape.stroke ? ` stroke-width="${shape.lineWidth ?? 1}"` : ''}/>`;
+      case 'line':
+        return `<line x1="${round(shape.x1)}" y1="${round(shape.y1)}" x2="${round(shape.x2)}" y2="${round(shape.y2)}" ${paint('stroke', shape.stroke)} stroke-width="${shape.lineWidth}"${shape.dash ? ` stroke-dasharray="${shape.dash.join(' ')}"` : ''}/>`;
+      case 'curve': {
+        const [start, ...rest] = shape.points.map(([x, y]) => `${round(x)} ${round(y)}`);
+        return `<path d="M ${start} C ${rest.join(', ')}" fill="none" ${paint('stroke', shape.stroke)} stroke-width="${shape.lineWidth}"${shape.dash ? ` stroke-dasharray="${shape.dash.join(' ')}"` : ''}/>`;
+      }
+      case 'polygon':
+        return `<polygon points="${shape.points.map(([x, y]) => `${round(x)},${round(y)}`).join(' ')}" ${paint('fill', shape.fill)}/>`;
+      case 'circle':
+        return `<circle cx="${round(shape.cx)}" cy="${round(shape.cy)}" r="${shape.r}" ${paint('fill', shape.fill)} ${paint('stroke', shape.stroke)}${shape.stroke ? ` stroke-width="${shape.lineWidth ?? 1}"` : ''}/>`;
+      case 'text':
+        return `<text x="${round(shape.x)}" y="${round(shape.y)}" text-anchor="${shape.align === 'left' ? 'start' : 'middle'}" font-family="${shape.font.family}" font-size="${shape.font.size}"${shape.font.bold ? ' font-weight="bold"' : ''} ${paint('fill', shape.fill)}>${escapeXml(shape.text)}</text>`;
+    }
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}">`,
+    ...elements.map(element => `  ${element}`),
+    '</svg>',
+    '',
+  ].join('\n');
+};
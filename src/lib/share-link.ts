@@ -0,0 +1,163 @@
+// src/lib/share-link.ts
+// Shareable /visualize links: the project and the step on screen, packed into the URL fragment as
+// deflated compact JSON in base64url. Node ids are replaced by their index, which is what keeps
+// links short; the fragment never reaches the server, so only the browser's URL limit applies.
+import { z } from 'zod';
+import { Algorithm, AlgorithmRunParams, algorithmIds } from './algorithm-registry';
+import { heuristicLabels } from './heuristics';
+import { ProjectState } from './project-file';
+
+export const SHARE_LINK_VERSION = 1;
+export const VISUALIZE_PATH = '/visualize';
+/** Longer links get cut off by mail clients, chat apps and LMS text fields. */
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+/** A link that cannot be created or opened; the message is shown to the user as is. */
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+/** What a link reproduces: the project, and the step of its run on screen, if a run was shown. */
+export interface SharedView {
+  project: ProjectState;
+  step?: number;
+}
+
+const finite = z.number().finite();
+const nodeIndex = z.number().int().nonnegative();
+
+const compactSchema = z.object({
+  v: z.literal(SHARE_LINK_VERSION),
+  nm: z.string().optional(),
+  d: z.union([z.literal(0), z.literal(1)]),
+  n: z.array(z.tuple([z.string(), finite, finite])),
+  e: z.array(z.union([z.tuple([nodeIndex, nodeIndex]), z.tuple([nodeIndex, nodeIndex, finite])])),
+  a: z.string().refine(id => (algorithmIds as string[]).includes(id), id => ({ message: `Unknown algorithm "${id}"` })),
+  p: z.object({
+    start: nodeIndex.optional(),
+    end: nodeIndex.optional(),
+    source: nodeIndex.optional(),
+    sink: nodeIndex.optional(),
+    stopAtTarget: z.boolean().optional(),
+    heuristic: z.enum(Object.keys(heuristicLabels) as [keyof typeof heuristicLabels, ...(keyof typeof heuristicLabels)[]]).optional(),
+    heuristicValues: z.array(z.tuple([nodeIndex, finite])).optional(),
+  }).strict(),
+  sp: finite.min(0).max(100),
+  s: z.number().int().nonnegative().optional(),
+}).strict().superRefine((view, ctx) => {
+  const count = view.n.length;
+  view.e.forEach((edge, i) => {
+    if (edge[0] >= count || edge[1] >= count) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['e', i], message: `Edge ${i + 1} points to a missing node` });
+  });
+  for (const key of ['start', 'end', 'source', 'sink'] as const) {
+    if (view.p[key] !== undefined && view.p[key] >= count) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['p', key], message: `The ${key} node does not exist` });
+  }
+});
+
+type CompactView = z.infer<typeof compactSchema>;
+
+const NODE_PARAMS = ['start', 'end', 'source', 'sink'] as const;
+
+const toCompact = ({ project, step }: SharedView): CompactView => {
+  const { graphData, params } = project;
+  const index = new Map(graphData.nodes.map((node, i) => [node.id, i]));
+  const p: CompactView['p'] = {};
+  for (const key of NODE_PARAMS) if (params[key] !== undefined && index.has(params[key])) p[key] = index.get(params[key]);
+  if (params.stopAtTarget !== undefined) p.stopAtTarget = params.stopAtTarget;
+  if (params.heuristic !== undefined) p.heuristic = params.heuristic;
+  if (params.heuristicValues) {
+    p.heuristicValues = Object.entries(params.heuristicValues).filter(([id]) => index.has(id)).map(([id, value]) => [index.get(id), value]);
+  }
+  return {
+    v: SHARE_LINK_VERSION,
+    ...(project.name ? { nm: project.name } : {}),
+    d: project.isDirected ? 1 : 0,
+    // Canvas positions are whole pixels on screen anyway.
+    n: graphData.nodes.map(node => [node.label, Math.round(node.x ?? 0), Math.round(node.y ?? 0)]),
+    e: graphData.edges
+      .filter(edge => index.has(edge.source) && index.has(edge.target))
+      .map(edge => (edge.weight === undefined ? [index.get(edge.source), index.get(edge.target)] : [index.get(edge.source), index.get(edge.target), edge.weight])),
+    a: project.algorithm,
+    p,
+    sp: project.speed,
+    ...(step !== undefined ? { s: step } : {}),
+  };
+};
+
+const fromCompact = (view: CompactView): SharedView => {
+  const id = (i: number) => `n${i}`;
+  const params: AlgorithmRunParams = {};
+  for (const key of NODE_PARAMS) if (view.p[key] !== undefined) params[key] = id(view.p[key]);
+  if (view.p.stopAtTarget !== undefined) params.stopAtTarget = view.p.stopAtTarget;
+  if (view.p.heuristic !== undefined) params.heuristic = view.p.heuristic;
+  if (view.p.heuristicValues) params.heuristicValues = Object.fromEntries(view.p.heuristicValues.map(([i, value]) => [id(i), value]));
+  return {
+    project: {
+      name: view.nm,
+      graphData: {
+        nodes: view.n.map(([label, x, y], i) => ({ id: id(i), label, x, y, state: 'default' })),
+        edges: view.e.map((edge, i) => ({ id: `e${i}`, source: id(edge[0]), target: id(edge[1]), weight: edge[2] as number | undefined, isActive: false })),
+      },
+      isDirected: view.d === 1,
+      algorithm: view.a as Algorithm,
+      params,
+      speed: view.sp,
+    },
+    step: view.s,
+  };
+};
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked, since spreading a large array into fromCharCode overflows the call stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/** The URL fragment payload for a view. */
+export const encodeSharedView = async (view: SharedView): Promise<string> =>
+  toBase64Url(await pipe(new TextEncoder().encode(JSON.stringify(toCompact(view))), new CompressionStream('deflate')));
+
+/** Reads a payload made by encodeSharedView. Throws ShareLinkError for damaged or unsupported links. */
+export const decodeSharedView = async (payload: string): Promise<SharedView> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(await pipe(fromBase64Url(payload), new DecompressionStream('deflate'))));
+  } catch {
+    throw new ShareLinkError('This link is damaged or incomplete. Ask for the link again, or check that it was copied in full.');
+  }
+  const version = (raw as { v?: unknown })?.v;
+  if (typeof version === 'number' && version > SHARE_LINK_VERSION) {
+    throw new ShareLinkError('This link was made by a newer version of the app.');
+  }
+  const parsed = compactSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ShareLinkError(`This link does not describe a valid graph: ${parsed.error.issues[0].message}.`);
+  }
+  return fromCompact(parsed.data);
+};
+
+/**
+ * The full link for a view. Throws ShareLinkError when the link would be longer than
+ * MAX_SHARE_URL_LENGTH, so large graphs go through project files instead.
+ */
+export const createShareUrl = async (view: SharedView, origin: string): Promise<string> => {
+  const url = `${origin}${VISUALIZE_PATH}#${await encodeSharedView(view)}`;
+  if (url.length > MAX_SHARE_URL_LENGTH) {
+    throw new ShareLinkError(
+      `This graph is too large to share as a link (${url.length.toLocaleString('en-US')} characters; links are limited to ${MAX_SHARE_URL_LENGTH.toLocaleString('en-US')}). Save it as a project file and share the file instead.`
+    );
+  }
+  return url;
+};
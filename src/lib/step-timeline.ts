@@ -0,0 +1,89 @@
+// src/lib/step-timeline.ts
+// Random access into a run: rebuild the exact graph state at any step index.
+// Every SNAPSHOT_INTERVAL-th step carries a full GraphData snapshot; any other index is
+// reached by replaying at most SNAPSHOT_INTERVAL - 1 partial steps on top of the nearest one.
+import { AlgorithmStep, GraphData, GraphEdge, GraphNode } from './graph-types';
+
+export const SNAPSHOT_INTERVAL = 32;
+
+// Fields written by algorithms, as opposed to fields the editor owns (ids, labels, positions, weights).
+const NODE_STATE_DEFAULTS: Partial<GraphNode> = { state: 'default', distance: undefined, isSourceSide: undefined };
+const EDGE_STATE_DEFAULTS: Partial<GraphEdge> = { isActive: false, isInMST: undefined, inTree: undefined, isError: undefined, isPath: undefined, flow: undefined, isCut: undefined };
+
+/** Clears every algorithm-owned field, leaving the graph as the editor built it. */
+export const resetGraphState = (graph: GraphData): GraphData => ({
+  ...graph,
+  nodes: graph.nodes.map(node => ({ ...node, ...NODE_STATE_DEFAULTS })),
+  edges: graph.edges.map(edge => ({ ...edge, ...EDGE_STATE_DEFAULTS })),
+});
+
+/**
+ * A string that changes only with the editor-owned fields, so checks derived from the graph's
+ * shape can skip the state changes of every playback step.
+ */
+export const graphStructureKey = (graph: GraphData): string =>
+  JSON.stringify([
+    graph.nodes.map(node => [node.id, node.x, node.y]),
+    graph.edges.map(edge => [edge.id, edge.source, edge.target, edge.weight]),
+  ]);
+
+/** Merges one step's partial updates on top of `graph`. */
+export const applyStepUpdates = (graph: GraphData, step: AlgorithmStep): GraphData => {
+  if (step.nodeUpdates.length === 0 && step.edgeUpdates.length === 0) return graph;
+  const nodeUpdates = new Map<string, Partial<GraphNode>>();
+  step.nodeUpdates.forEach(u => nodeUpdates.set(u.id, { ...nodeUpdates.get(u.id), ...u }));
+  const edgeUpdates = new Map<string, Partial<GraphEdge>>();
+  step.edgeUpdates.forEach(u => u.id && edgeUpdates.set(u.id, { ...edgeUpdates.get(u.id), ...u }));
+  return {
+    ...graph,
+    nodes: graph.nodes.map(node => nodeUpdates.has(node.id) ? { ...node, ...nodeUpdates.get(node.id) } : node),
+    edges: graph.edges.map(edge => edgeUpdates.has(edge.id) ? { ...edge, ...edgeUpdates.get(edge.id) } : edge),
+  };
+};
+
+/**
+ * Replays `steps` from `base` and stores a snapshot on step 0 and every `interval`-th step after it.
+ * Steps are modified in place and returned for convenience.
+ */
+export const attachSnapshots = (
+  base: GraphData,
+  steps: AlgorithmStep[],
+  interval = SNAPSHOT_INTERVAL
+): AlgorithmStep[] => {
+  let state = base;
+  steps.forEach((step, index) => {
+    state = applyStepUpdates(state, step);
+    if (index % interval === 0) step.snapshot = state;
+    else delete step.snapshot;
+  });
+  return steps;
+};
+
+/** The full graph state after `steps[index]` has been applied. */
+export const graphStateAtStep = (steps: AlgorithmStep[], index: number): GraphData => {
+  const target = Math.max(0, Math.min(index, steps.length - 1));
+  let from = target;
+  while (from > 0 && !steps[from].snapshot) from--;
+  if (!steps[from]?.snapshot) throw new Error('Algorithm steps have no snapshot to seek from');
+  let state = steps[from].snapshot!;
+  for (let i = from + 1; i <= target; i++) {
+    state = applyStepUpdates(state, steps[i]);
+  }
+  return state;
+};
+
+/**
+ * Copies the algorithm-owned fields of `state` onto `current`, keeping whatever the editor
+ * changed since the run started (positions, labels, weights).
+ */
+export const restoreGraphState = (current: GraphData, state: GraphData): GraphData => {
+  const nodes = new Map(state.nodes.map(n => [n.id, n]));
+  const edges = new Map(state.edges.map(e => [e.id, e]));
+  const pick = <T>(source: T | undefined, defaults: Partial<T>): Partial<T> =>
+    Object.fromEntries(Object.keys(defaults).map(key => [key, source ? source[key as keyof T] : defaults[key as keyof T]])) as Partial<T>;
+  return {
+    ...current,
+    nodes: current.nodes.map(node => ({ ...node, ...pick(nodes.get(node.id), NODE_STATE_DEFAULTS) })),
+    edges: current.edges.map(edge => ({ ...edge, ...pick(edges.get(edge.id), EDGE_STATE_DEFAULTS) })),
+  };
+};
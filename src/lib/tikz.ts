@@ -0,0 +1,256 @@
+// src/lib/tikz.ts
+// LaTeX export: the graph as a TikZ picture, and a run as one figure per chosen step with the
+// step's matrix data as a tabular. Output only needs the tikz package, no extra libraries.
+import { AlgorithmStep, GraphData, GraphEdge, GraphNode } from './graph-types';
+import { AlgorithmExecution } from './algorithms';
+import { NODE_RADIUS, SCENE_COLORS, edgeLabel } from './graph-scene';
+import { EdgeRoute, PARALLEL_SPACING, routeEdges } from './edge-routes';
+import { toSvgColor } from './scene-render';
+import { withCircularLayout } from './graph-layout';
+import { graphStateAtStep, restoreGraphState } from './step-timeline';
+import { formatMatrixValue } from './matrix-format';
+
+export interface TikzOptions {
+  isDirected: boolean;
+  /** Centimetres per canvas pixel. The default turns the 1200px canvas into a 12cm picture. */
+  scale?: number;
+  /** Edge weights (or flow/capacity) as edge labels. */
+  showWeights?: boolean;
+  /** Wrap the output in a compilable document rather than just the environment(s). */
+  document?: boolean;
+}
+
+export interface TikzSnapshotOptions extends TikzOptions {
+  /** The step's matrix (distances, g/h/f scores, …) as a tabular below each figure. */
+  includeTables?: boolean;
+}
+
+const DEFAULT_SCALE = 0.01;
+/** Degrees of `bend` per PARALLEL_SPACING of offset on the canvas, so a pair bends by 15° each way. */
+const BEND_STEP = 30;
+
+const COLORS: Record<string, string> = {
+  graphnode: SCENE_COLORS.node,
+  graphvisited: SCENE_COLORS.visited,
+  graphcurrent: SCENE_COLORS.current,
+  graphpath: SCENE_COLORS.path,
+  grapherror: SCENE_COLORS.error,
+  graphedge: SCENE_COLORS.edge,
+  graphink: SCENE_COLORS.ink,
+};
+
+const STATE_COLORS: Record<NonNullable<GraphNode['state']>, string> = {
+  default: 'graphnode',
+  visited: 'graphvisited',
+  current: 'graphcurrent',
+  path: 'graphpath',
+  error: 'grapherror',
+};
+
+// Unicode that shows up in step descriptions and labels; the default LaTeX fonts lack these glyphs.
+const UNICODE_REPLACEMENTS: Record<string, string> = {
+  '∞': '$\\infty$',
+  '→': '$\\to$',
+  '←': '$\\leftarrow$',
+  '↔': '$\\leftrightarrow$',
+  '≤': '$\\le$',
+  '≥': '$\\ge$',
+  '≠': '$\\ne$',
+  '×': '$\\times$',
+  '…': '\\ldots{}',
+  '–': '--',
+  '—': '---',
+};
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '$': '\\$',
+  '&': '\\&',
+  '#': '\\#',
+  '%': '\\%',
+  '_': '\\_',
+  '^': '\\textasciicircum{}',
+  '~': '\\textasciitilde{}',
+};
+
+/** Escapes text for use in LaTeX paragraphs, captions and tabular cells. */
+export const escapeLatex = (text: string): string =>
+  text.replace(/[\\{}$&#%_^~∞→←↔≤≥≠×…–—]/g, char => LATEX_SPECIALS[char] ?? UNICODE_REPLACEMENTS[char]);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const colorDefinitions = () =>
+  Object.entries(COLORS).map(([name, color]) => `\\definecolor{${name}}{HTML}{${toSvgColor(color).color.slice(1).toUpperCase()}}`);
+
+const pictureStyles = (scale: number, isDirected: boolean) => [
+  `vertex/.style={circle, draw=graphink, thick, minimum size=${round(2 * NODE_RADIUS * scale)}cm, inner sep=1pt, font=\\small},`,
+  ...Object.entries(STATE_COLORS).map(([state, color]) => `${state} vertex/.style={vertex, fill=${color}},`),
+  'source side/.style={double=graphpath, double distance=1pt},',
+  `link/.style={draw=graphedge, thick${isDirected ? ', ->, >=stealth' : ''}},`,
+  'active link/.style={draw=graphcurrent, very thick},',
+  'tree link/.style={draw=graphvisited, ultra thick},',
+  'path link/.style={draw=graphpath, ultra thick},',
+  'cut link/.style={draw=grapherror, ultra thick},',
+  'error link/.style={draw=grapherror, dashed},',
+  'weight/.style={fill=white, inner sep=1pt, font=\\scriptsize},',
+];
+
+// Same precedence as the canvas and the DOT exporter.
+const edgeStyle = (edge: GraphEdge) =>
+  edge.isPath ? 'path link' : edge.isCut ? 'cut link' : edge.isInMST || edge.inTree ? 'tree link' : edge.isError ? 'error link' : edge.isActive ? 'active link' : undefined;
+
+// TikZ measures angles anticlockwise with y pointing up; the canvas has y pointing down.
+const tikzAngle = (from: { x: number; y: number }, to: { x: number; y: number }) =>
+  Math.round((Math.atan2(from.y - to.y, to.x - from.x) * 180) / Math.PI);
+
+// How the edge leaves its source, following the canvas route: bundles of parallel and opposite
+// edges bend apart by their offset, and loops leave and return along the route's control points,
+// so loops stacked on one node nest the way they do on screen.
+const routeOptions = (route: EdgeRoute, scale: number): string | undefined => {
+  if (route.kind === 'loop') {
+    const [start, c1, c2, end] = route.points;
+    const reach = round(Math.hypot(c1.x - start.x, c1.y - start.y) * scale);
+    return `out=${tikzAngle(start, c1)}, in=${tikzAngle(end, c2)}, loop, min distance=${reach}cm`;
+  }
+  const bend = Math.round((route.offset / PARALLEL_SPACING) * BEND_STEP);
+  return bend === 0 ? undefined : `bend ${bend > 0 ? 'left' : 'right'}=${Math.abs(bend)}`;
+};
+
+const formatPicture = (graphData: GraphData, options: TikzOptions): string[] => {
+  const { isDirected, scale = DEFAULT_SCALE, showWeights = true } = options;
+  const nodes = withCircularLayout(graphData.nodes);
+  // TikZ's y axis points up; anchor the picture at the top-left node so coordinates stay small.
+  const left = Math.min(...nodes.map(node => node.x));
+  const top = Math.min(...nodes.map(node => node.y));
+  // Node ids may contain anything, so the picture names nodes by position instead.
+  const names = new Map(nodes.map((node, i) => [node.id, `n${i}`]));
+
+  const lines = [
+    '\\begin{tikzpicture}[',
+    ...pictureStyles(scale, isDirected).map(style => `  ${style}`),
+    ']',
+    ...colorDefinitions().map(line => `  ${line}`),
+  ];
+  for (const node of nodes) {
+    const style = [`${node.state ?? 'default'} vertex`, ...(node.isSourceSide ? ['source side'] : [])].join(', ');
+    lines.push(`  \\node[${style}] (${names.get(node.id)}) at (${round((node.x - left) * scale)}, ${round(-(node.y - top) * scale)}) {${escapeLatex(node.label)}};`);
+  }
+  for (const route of routeEdges({ ...graphData, nodes }, NODE_RADIUS)) {
+    const { edge } = route;
+    const source = names.get(edge.source);
+    const target = names.get(edge.target);
+    const label = showWeights ? edgeLabel(edge) : undefined;
+    const labelNode = label !== undefined ? ` node[weight] {${escapeLatex(label)}}` : '';
+    const style = ['link', edgeStyle(edge)].filter(Boolean).join(', ');
+    const shape = routeOptions(route, scale);
+    lines.push(
+      route.kind === 'loop'
+        ? `  \\draw[${style}] (${source}) to[${shape}]${labelNode} (${target});`
+        : `  \\draw[${[style, shape].filter(Boolean).join(', ')}] (${source}) to${labelNode} (${target});`
+    );
+  }
+  lines.push('\\end{tikzpicture}');
+  return lines;
+};
+
+const wrapDocument = (documentClass: string, body: string[]) => [
+  documentClass,
+  '\\usepackage[utf8]{inputenc}',
+  '\\usepackage{tikz}',
+  '\\begin{document}',
+  ...body,
+  '\\end{document}',
+];
+
+/** The graph as a `tikzpicture`, or a standalone document containing it. */
+export const toTikz = (graphData: GraphData, options: TikzOptions): string => {
+  const picture = formatPicture(graphData, options);
+  return [...(options.document ? wrapDocument('\\documentclass[border=4pt]{standalone}', picture) : picture), ''].join('\n');
+};
+
+const tabularCell = (value: unknown) => {
+  if (value === Infinity) return '$\\infty$';
+  if (value === -Infinity) return '$-\\infty$';
+  return escapeLatex(formatMatrixValue(value));
+};
+
+/**
+ * A step's `matrix` as a tabular: rows by columns for nested matrices (distance tables, g/h/f),
+ * or one header row and one value row for flat ones. Keys that are node ids become node labels.
+ */
+export const matrixToTabular = (matrix: Record<string, unknown>, label: (key: string) => string = key => key): string[] => {
+  const rows = Object.keys(matrix);
+  if (rows.length === 0) return [];
+  const header = (keys: string[]) => keys.map(key => escapeLatex(label(key))).join(' & ');
+  const nested = Object.values(matrix).some(value => value && typeof value === 'object');
+  if (!nested) {
+    return [
+      `\\begin{tabular}{${'c'.repeat(rows.length)}}`,
+      `  ${header(rows)} \\\\ \\hline`,
+      `  ${rows.map(row => tabularCell(matrix[row])).join(' & ')} \\\\`,
+      '\\end{tabular}',
+    ];
+  }
+  const columns = [...new Set(rows.flatMap(row => Object.keys((matrix[row] as Record<string, unknown>) ?? {})))];
+  return [
+    `\\begin{tabular}{l|${'r'.repeat(columns.length)}}`,
+    `   & ${header(columns)} \\\\ \\hline`,
+    ...rows.map(row => `  ${escapeLatex(label(row))} & ${columns.map(col => tabularCell((matrix[row] as Record<string, unknown>)?.[col])).join(' & ')} \\\\`),
+    '\\end{tabular}',
+  ];
+};
+
+const formatSnapshot = (graphData: GraphData, steps: AlgorithmStep[], index: number, options: TikzSnapshotOptions): string[] => {
+  const step = steps[index];
+  const state = restoreGraphState(graphData, graphStateAtStep(steps, index));
+  const labels = new Map(graphData.nodes.map(node => [node.id, node.label]));
+  const table = options.includeTables && step.matrix ? matrixToTabular(step.matrix, key => labels.get(key) ?? key) : [];
+  return [
+    '\\begin{figure}[htbp]',
+    '  \\centering',
+    ...formatPicture(state, options).map(line => `  ${line}`),
+    ...(table.length > 0 ? ['', '  \\medskip', ...table.map(line => `  ${line}`)] : []),
+    `  \\caption{Step ${index + 1} of ${steps.length}: ${escapeLatex(step.description)}}`,
+    '\\end{figure}',
+  ];
+};
+
+/**
+ * One figure per chosen step of a run, each showing the graph as it looked after that step.
+ * Step indices are 0-based; out-of-range ones are skipped.
+ */
+export const toTikzSnapshots = (
+  graphData: GraphData,
+  execution: Pick<AlgorithmExecution, 'steps'>,
+  stepIndices: number[],
+  options: TikzSnapshotOptions
+): string => {
+  const { steps } = execution;
+  const figures = stepIndices
+    .filter(index => index >= 0 && index < steps.length)
+    .flatMap((index, i) => [
+      // LaTeX holds at most 18 floats in its queue; a page break every two figures keeps long runs compiling.
+      ...(i > 0 ? (options.document && i % 2 === 0 ? ['', '\\clearpage', ''] : ['']) : []),
+      ...formatSnapshot(graphData, steps, index, options),
+    ]);
+  return [...(options.document ? wrapDocument('\\documentclass{article}', figures) : figures), ''].join('\n');
+};
+
+/**
+ * Parses a 1-based step list such as `1, 4-6, 10` into sorted 0-based indices.
+ * Returns null when a part is not a number or range within 1..count.
+ */
+export const parseStepSelection = (text: string, count: number): number[] | null => {
+  const indices = new Set<number>();
+  for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = match[2] === undefined ? from : Number(match[2]);
+    if (from < 1 || to > count || from > to) return null;
+    for (let step = from; step <= to; step++) indices.add(step - 1);
+  }
+  return [...indices].sort((a, b) => a - b);
+};
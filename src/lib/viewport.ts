@@ -0,0 +1,88 @@
+// src/lib/viewport.ts
+// The editor's camera. Graphs live in world coordinates (the CANVAS_SIZE page that scenes, layouts
+// and exports use); the camera maps them onto however many screen pixels the editor has.
+import { CANVAS_SIZE } from './graph-layout';
+import { GraphNode } from './graph-types';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+/** Fitting never magnifies past this, so a two-node graph does not fill the screen. */
+const MAX_FIT_ZOOM = 2;
+const FIT_PADDING = 24;
+
+/** Screen = world × zoom + (x, y), in CSS pixels relative to the canvas element. */
+export interface Camera {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const PAGE_RECT: Rect = { x: 0, y: 0, ...CANVAS_SIZE };
+
+export const screenToWorld = (camera: Camera, x: number, y: number) => ({
+  x: (x - camera.x) / camera.zoom,
+  y: (y - camera.y) / camera.zoom,
+});
+
+export const worldToScreen = (camera: Camera, x: number, y: number) => ({
+  x: x * camera.zoom + camera.x,
+  y: y * camera.zoom + camera.y,
+});
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/** Zooms by `factor`, keeping the world point under the screen point (x, y) where it is. */
+export const zoomAt = (camera: Camera, factor: number, x: number, y: number): Camera => {
+  const zoom = clampZoom(camera.zoom * factor);
+  const world = screenToWorld(camera, x, y);
+  return { zoom, x: x - world.x * zoom, y: y - world.y * zoom };
+};
+
+/** A wheel event's zoom factor; line-based deltas (Firefox) are converted to pixels first. */
+export const wheelZoomFactor = (deltaY: number, deltaMode = 0) => Math.exp(-deltaY * (deltaMode === 1 ? 16 : 1) * 0.0015);
+
+/** The camera that centres `bounds` in a view of the given size, as large as fits. */
+export const fitCamera = (bounds: Rect, viewWidth: number, viewHeight: number, padding = FIT_PADDING): Camera => {
+  const zoom = clampZoom(Math.min(
+    (viewWidth - 2 * padding) / Math.max(bounds.width, 1),
+    (viewHeight - 2 * padding) / Math.max(bounds.height, 1),
+    MAX_FIT_ZOOM
+  ));
+  return {
+    zoom,
+    x: viewWidth / 2 - (bounds.x + bounds.width / 2) * zoom,
+    y: viewHeight / 2 - (bounds.y + bounds.height / 2) * zoom,
+  };
+};
+
+/** The box around every node including its circle, or null for an empty graph. */
+export const graphBounds = (nodes: GraphNode[], radius: number): Rect | null => {
+  if (nodes.length === 0) return null;
+  const xs = nodes.map(node => node.x);
+  const ys = nodes.map(node => node.y);
+  const x = Math.min(...xs) - radius;
+  const y = Math.min(...ys) - radius;
+  return { x, y, width: Math.max(...xs) + radius - x, height: Math.max(...ys) + radius - y };
+};
+
+/** The part of the world the view shows. */
+export const visibleRect = (camera: Camera, viewWidth: number, viewHeight: number): Rect => {
+  const topLeft = screenToWorld(camera, 0, 0);
+  return { ...topLeft, width: viewWidth / camera.zoom, height: viewHeight / camera.zoom };
+};
+
+export const containsRect = (outer: Rect, inner: Rect) =>
+  inner.x >= outer.x && inner.y >= outer.y && inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+
+export const unionRect = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
@@ -1,42 +1,264 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { GraphCanvas } from "@/components/GraphCanvas";
-import { AlgorithmControls, Algorithm } from "@/components/AlgorithmControls";
+import { AlgorithmControls } from "@/components/AlgorithmControls";
 import { CodeVisualization } from "@/components/CodeVisualization";
-import { getAlgorithmCode } from "@/lib/algorithms";
+import { Algorithm, AlgorithmRunParams, checkWeights, getAlgorithmCode, runAlgorithm } from "@/lib/algorithm-registry";
 import { AlgorithmDataPanel } from "@/components/AlgorithmDataPanel";
+import { AlgorithmResultSummary } from "@/components/AlgorithmResultSummary";
+import { ProjectFileActions } from "@/components/ProjectFileActions";
+import { GraphExchangeMenu } from "@/components/GraphExchangeMenu";
+import { GraphTextEditor } from "@/components/GraphTextEditor";
+import { ExportImageDialog } from "@/components/ExportImageDialog";
+import { ExportAnimationDialog } from "@/components/ExportAnimationDialog";
+import { ExportTikzDialog } from "@/components/ExportTikzDialog";
+import { ShareLinkDialog } from "@/components/ShareLinkDialog";
+import { GraphLibraryDialog } from "@/components/GraphLibraryDialog";
+import { RestoreSessionDialog } from "@/components/RestoreSessionDialog";
+import { captureThumbnail, loadLastSession, useAutosave, useGraphLibrary } from "@/hooks/use-graph-library";
+import { useEditHistory } from "@/hooks/use-edit-history";
+import { useToast } from "@/hooks/use-toast";
+import { AlgorithmExecution } from "@/lib/algorithms";
 import { GraphData } from "@/lib/graph-types";
-import { Play, Pause, RotateCcw, Zap } from "lucide-react";
+import { ImportedGraph } from "@/lib/graph-import";
+import { formatMatrix } from "@/lib/matrix-format";
+import { ProjectFileError, ProjectState, parseProject, serializeProject } from "@/lib/project-file";
+import { LibraryEntry, SessionRecord } from "@/lib/graph-library";
+import { VISUALIZE_PATH, ShareLinkError, decodeSharedView } from "@/lib/share-link";
+import { buildScene } from "@/lib/graph-scene";
+import { needsMultigraph } from "@/lib/graph-edit";
+import { renderSceneToCanvas } from "@/lib/scene-render";
+import { graphStateAtStep, resetGraphState, restoreGraphState } from "@/lib/step-timeline";
+import { FileText, Play, Pause, RotateCcw, Zap } from "lucide-react";
 import graphHero from "@/assets/graph-hero.jpg";
 
 
+/** What undo and redo bring back: the graph as drawn, without any algorithm run painted on it. */
+interface EditorSnapshot {
+  graphData: GraphData;
+  isDirected: boolean;
+}
+
 const Index = () => {
-  const [isVisualizationMode, setIsVisualizationMode] = useState(false);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isVisualizationMode = location.pathname === VISUALIZE_PATH;
   const [graphData, setGraphData] = useState<GraphData>({ nodes: [], edges: [] });
   const [showCodePanel, setShowCodePanel] = useState(true);
   const [codePanelWidth, setCodePanelWidth] = useState(400);
   const [selectedAlgorithm, setSelectedAlgorithm] = useState<Algorithm>('bfs');
-  const [algorithmExecution, setAlgorithmExecution] = useState<any>(null);
+  const [algorithmExecution, setAlgorithmExecution] = useState<AlgorithmExecution | null>(null);
   const [algorithmSteps, setAlgorithmSteps] = useState<any[]>([]);
   const [currentStep, setCurrentStep] = useState<number>(0);
   const [isDirected, setIsDirected] = useState(false); // Default: undirected
+  const [showResidual, setShowResidual] = useState(false);
+  // Opting in to self-loops and parallel edges; a graph that already has some stays a multigraph.
+  const [allowMultigraph, setAllowMultigraph] = useState(false);
+  const [showTextEditor, setShowTextEditor] = useState(false);
+  const [runParams, setRunParams] = useState<AlgorithmRunParams>({});
+  const [speed, setSpeed] = useState(50);
+  const [stepMode, setStepMode] = useState(false);
+  const [projectName, setProjectName] = useState<string | undefined>(undefined);
+  const [pendingSession, setPendingSession] = useState<SessionRecord | null>(null);
+  // Autosave stays off until the restore prompt is answered, so it cannot overwrite the last session.
+  const [sessionChecked, setSessionChecked] = useState(false);
+  // The URL fragment already handled on arrival, so each shared link is opened once.
+  const handledHash = useRef<string | null>(null);
+  const library = useGraphLibrary();
+  const { toast } = useToast();
+  const isMultigraph = useMemo(() => allowMultigraph || needsMultigraph(graphData, isDirected), [allowMultigraph, graphData, isDirected]);
+
+  // Only editor changes go through the history; playback paints node states with setGraphData directly.
+  const history = useEditHistory<EditorSnapshot>(
+    () => ({ graphData: resetGraphState(graphData), isDirected }),
+    snapshot => {
+      clearRun();
+      setGraphData(snapshot.graphData);
+      setIsDirected(snapshot.isDirected);
+    }
+  );
+  const { record } = history;
+  const editGraph = useCallback<React.Dispatch<React.SetStateAction<GraphData>>>(action => {
+    record();
+    setGraphData(action);
+  }, [record]);
+  // Text edits arrive one debounce at a time; a burst of typing undoes as one edit.
+  const editGraphFromText = useCallback<React.Dispatch<React.SetStateAction<GraphData>>>(action => {
+    record('text');
+    setGraphData(action);
+  }, [record]);
+  const editDirected = useCallback<React.Dispatch<React.SetStateAction<boolean>>>(action => {
+    record();
+    setIsDirected(action);
+  }, [record]);
+
+  const clearRun = () => {
+    setAlgorithmSteps([]);
+    setAlgorithmExecution(null);
+    setCurrentStep(0);
+  };
+
+  const loadTemplate = (templateGraph: GraphData, templateDirected?: boolean) => {
+    record();
+    setGraphData(templateGraph);
+    if (templateDirected !== undefined) setIsDirected(templateDirected);
+  };
+
+  const getProject = (): ProjectState => ({
+    name: projectName,
+    graphData,
+    isDirected,
+    algorithm: selectedAlgorithm,
+    params: runParams,
+    speed,
+  });
+
+  const openProject = (project: ProjectState) => {
+    record();
+    clearRun();
+    setProjectName(project.name);
+    setGraphData(project.graphData);
+    setIsDirected(project.isDirected);
+    setSelectedAlgorithm(project.algorithm);
+    setRunParams(project.params);
+    setSpeed(project.speed);
+  };
+
+  // Library entries and sessions are stored as project documents, so they open like files do.
+  const openSerializedProject = (text: string, name?: string) => {
+    try {
+      const project = parseProject(text);
+      openProject({ ...project, name: name ?? project.name });
+    } catch (error) {
+      if (!(error instanceof ProjectFileError)) throw error;
+      toast({ title: "Could Not Open Graph", description: error.issues[0] ?? error.message, variant: "destructive" });
+    }
+  };
+
+  // Imported files carry only a graph; the selected algorithm stays, its node parameters do not.
+  const importGraph = (imported: ImportedGraph, name: string) =>
+    openProject({ ...getProject(), name, graphData: imported.graphData, isDirected: imported.isDirected, params: {} });
+
+  const openLibraryEntry = (entry: LibraryEntry) => openSerializedProject(entry.project, entry.name);
+
+  const saveToLibrary = async (name: string, tags: string[]) => {
+    const entry = await library.save({ name, tags, project: serializeProject({ ...getProject(), name }), thumbnail: captureThumbnail(renderSceneToCanvas(buildScene(graphData, { isDirected, showResidual }))) });
+    if (!entry) return;
+    setProjectName(name);
+    toast({ title: "Saved to Library", description: name });
+  };
+
+  const checkLastSession = async () => {
+    const session = await loadLastSession().catch(() => undefined);
+    if (session && graphData.nodes.length === 0) setPendingSession(session);
+    else setSessionChecked(true);
+  };
+
+  // A shared link replaces the canvas and skips the restore prompt; the run is replayed up to the shared step.
+  const openSharedLink = async (payload: string) => {
+    setSessionChecked(true);
+    try {
+      const { project, step } = await decodeSharedView(payload);
+      openProject(project);
+      if (step === undefined || project.graphData.nodes.length === 0) return;
+      // The same gate as the Run button: the graph opens, but a run its weights rule out is not replayed.
+      const issue = checkWeights(project.algorithm, project.graphData, project.isDirected);
+      if (issue?.severity === 'error') {
+        toast({ title: "Cannot Replay Shared Run", description: issue.message, variant: "destructive" });
+        return;
+      }
+      const execution = await runAlgorithm(project.algorithm, project.graphData, project.params, { isDirected: project.isDirected });
+      const index = Math.min(step, execution.steps.length - 1);
+      setAlgorithmSteps(execution.steps);
+      setAlgorithmExecution(execution);
+      setCurrentStep(index);
+      setGraphData(restoreGraphState(project.graphData, graphStateAtStep(execution.steps, index)));
+      setStepMode(true);
+    } catch (error) {
+      toast({
+        title: "Could Not Open Shared Link",
+        description: error instanceof ShareLinkError ? error.message : "The link opened, but its run could not be replayed.",
+        variant: "destructive",
+      });
+    } finally {
+      // The canvas is editable from here on, so the address no longer describes it.
+      navigate(VISUALIZE_PATH, { replace: true });
+    }
+  };
+
+  // Runs on arrival at /visualize, whether from the home page, a reload or a shared link.
+  useEffect(() => {
+    if (!isVisualizationMode || handledHash.current === location.hash) return;
+    handledHash.current = location.hash;
+    if (location.hash.length > 1) void openSharedLink(location.hash.slice(1));
+    else if (!sessionChecked) void checkLastSession();
+  });
+
+  // An empty canvas is never autosaved, so starting fresh keeps the previous session until something is drawn.
+  useAutosave(serializeProject(getProject()), isVisualizationMode && sessionChecked && graphData.nodes.length > 0);
 
   if (isVisualizationMode) {
     return (
       <div className="min-h-screen bg-background">
+        <RestoreSessionDialog
+          session={pendingSession}
+          onRestore={session => {
+            openSerializedProject(session.project);
+            setPendingSession(null);
+            setSessionChecked(true);
+          }}
+          onDiscard={() => {
+            setPendingSession(null);
+            setSessionChecked(true);
+          }}
+        />
         <header className="border-b border-border bg-card/50 backdrop-blur">
           <div className="container mx-auto px-4 py-4 flex items-center justify-between">
             <div className="flex items-center gap-2">
               <Zap className="h-8 w-8 text-primary" />
               <h1 className="text-2xl font-bold">GraphViz</h1>
             </div>
-            <Button 
-              onClick={() => setIsVisualizationMode(false)}
-              variant="outline"
-            >
-              Back to Home
-            </Button>
+            <div className="flex items-center gap-2">
+              <GraphLibraryDialog library={library} currentName={projectName} onSaveCurrent={saveToLibrary} onOpen={openLibraryEntry} />
+              <ProjectFileActions getProject={getProject} onOpen={openProject} />
+              <GraphExchangeMenu graphData={graphData} isDirected={isDirected} name={projectName} onImport={importGraph} />
+              <ExportImageDialog
+                graphData={graphData}
+                isDirected={isDirected}
+                showResidual={showResidual}
+                steps={algorithmSteps}
+                currentStep={currentStep}
+                name={projectName}
+              />
+              <ExportAnimationDialog
+                graphData={graphData}
+                isDirected={isDirected}
+                showResidual={showResidual}
+                algorithm={selectedAlgorithm}
+                steps={algorithmSteps}
+                name={projectName}
+              />
+              <ExportTikzDialog
+                graphData={graphData}
+                isDirected={isDirected}
+                execution={algorithmExecution}
+                currentStep={currentStep}
+                name={projectName}
+              />
+              <ShareLinkDialog getProject={getProject} step={algorithmSteps.length > 0 ? currentStep : undefined} />
+              <Button variant={showTextEditor ? 'default' : 'outline'} size="sm" onClick={() => setShowTextEditor(show => !show)}>
+                <FileText className="h-4 w-4 mr-2" />
+                Text
+              </Button>
+              <Button 
+                onClick={() => navigate('/')}
+                variant="outline"
+              >
+                Back to Home
+              </Button>
+            </div>
           </div>
         </header>
         <div className="flex h-[calc(100vh-73px)]">
@@ -49,18 +271,47 @@ const Index = () => {
               algorithmSteps={algorithmSteps}
               setAlgorithmSteps={steps => {
                 setAlgorithmSteps(steps);
-                setAlgorithmExecution(exec => exec ? { ...exec, steps } : { steps });
+                setAlgorithmExecution(exec => exec ? { ...exec, steps } : exec);
               }}
               currentStep={currentStep}
               setCurrentStep={setCurrentStep}
               setAlgorithmExecution={setAlgorithmExecution}
               isDirected={isDirected}
-              setIsDirected={setIsDirected}
+              onLoadTemplate={loadTemplate}
+              showResidual={showResidual}
+              setShowResidual={setShowResidual}
+              runParams={runParams}
+              setRunParams={setRunParams}
+              speed={speed}
+              setSpeed={setSpeed}
+              stepMode={stepMode}
+              setStepMode={setStepMode}
+              libraryEntries={library.entries}
+              onOpenLibraryEntry={openLibraryEntry}
             />
           </aside>
           <main className="flex-1 flex">
             <div className="flex-1 flex flex-col">
-              <GraphCanvas graphData={graphData} setGraphData={setGraphData} isDirected={isDirected} setIsDirected={setIsDirected} />
+              <div className="flex">
+                <div className="flex-1 min-w-0">
+                  <GraphCanvas
+                    graphData={graphData}
+                    setGraphData={editGraph}
+                    isDirected={isDirected}
+                    setIsDirected={editDirected}
+                    isMultigraph={isMultigraph}
+                    setAllowMultigraph={setAllowMultigraph}
+                    showResidual={showResidual}
+                    onUndo={history.undo}
+                    onRedo={history.redo}
+                    canUndo={history.canUndo}
+                    canRedo={history.canRedo}
+                  />
+                </div>
+                {showTextEditor && (
+                  <GraphTextEditor graphData={graphData} setGraphData={editGraphFromText} isDirected={isDirected} multigraph={isMultigraph} onClose={() => setShowTextEditor(false)} />
+                )}
+              </div>
               {/* Data Panel below the graph, or you can use flex-row to place it beside */}
               <AlgorithmDataPanel
                 data={{
@@ -72,6 +323,10 @@ const Index = () => {
                   ...(algorithmSteps[currentStep]?.array ? { array: algorithmSteps[currentStep].array } : {}),
                 }}
               />
+              {/* Final outcome, revealed once playback reaches the last step */}
+              {algorithmExecution?.result && algorithmSteps.length > 0 && currentStep === algorithmSteps.length - 1 && (
+                <AlgorithmResultSummary result={algorithmExecution.result} graphData={graphData} />
+              )}
               {/* Operation Log Panel */}
               {algorithmExecution?.operationLog && algorithmExecution.operationLog.length > 0 && (
                 <div className="bg-card/60 border border-border rounded-lg p-4 mt-4">
@@ -104,7 +359,7 @@ const Index = () => {
                               <td className="px-2 py-1 border-b">{mapIds(entry.queue)}</td>
                               <td className="px-2 py-1 border-b">{mapIds(entry.stack)}</td>
                               <td className="px-2 py-1 border-b">{mapIds(entry.result)}</td>
-                              <td className="px-2 py-1 border-b">{entry.matrix ? JSON.stringify(entry.matrix) : ''}</td>
+                              <td className="px-2 py-1 border-b">{entry.matrix ? formatMatrix(entry.matrix, id => nodeLabelMap[id] || id) : ''}</td>
                               <td className="px-2 py-1 border-b">{mapIds(entry.list)}</td>
                               <td className="px-2 py-1 border-b">{mapIds(entry.array)}</td>
                             </tr>
@@ -174,7 +429,7 @@ const Index = () => {
               <Button 
                 variant="hero" 
                 size="xl"
-                onClick={() => setIsVisualizationMode(true)}
+                onClick={() => navigate(VISUALIZE_PATH)}
               >
                 <Play className="mr-2 h-5 w-5" />
                 Start Visualizing